@@ -9,7 +9,7 @@ interface AdminPanelProps {
 }
 
 type Tab = 'actions' | 'sessions' | 'stats';
-type StatusFilter = 'all' | 'in_progress' | 'completed' | 'abandoned';
+type StatusFilter = 'all' | 'in_progress' | 'completed' | 'abandoned' | 'failed';
 
 export function AdminPanel({ isOpen, onClose }: AdminPanelProps) {
   const [activeTab, setActiveTab] = useState<Tab>('actions');
@@ -367,6 +367,7 @@ export function AdminPanel({ isOpen, onClose }: AdminPanelProps) {
                     <option value="in_progress">In Progress</option>
                     <option value="completed">Completed</option>
                     <option value="abandoned">Abandoned</option>
+                    <option value="failed">Game Over</option>
                   </select>
                   <button onClick={loadSessions}>Refresh</button>
                 </div>
@@ -1,17 +1,11 @@
 import { useCallback, useEffect, useState } from 'react';
 import { useGameStore } from '@/store/gameStore';
 import { PressAnyKey } from '../game/TerminalInput';
+import { apiClient, AnalysisResponse, OceanDimension } from '../../services/api';
 
-// Mock OCEAN scores for now
-interface OceanScores {
-  openness: number;
-  conscientiousness: number;
-  extraversion: number;
-  agreeableness: number;
-  neuroticism: number;
-}
+const DIMENSIONS: OceanDimension[] = ['openness', 'conscientiousness', 'extraversion', 'agreeableness', 'neuroticism'];
 
-const DIMENSION_LABELS: Record<keyof OceanScores, { name: string; low: string; high: string }> = {
+const DIMENSION_LABELS: Record<OceanDimension, { name: string; low: string; high: string }> = {
   openness: {
     name: 'Openness',
     low: 'Practical & Conventional',
@@ -39,49 +33,74 @@ const DIMENSION_LABELS: Record<keyof OceanScores, { name: string; low: string; h
   },
 };
 
+// When each section appears once the analysis has arrived
+const REVEAL_DELAYS = [500, 1500, 2500, 3500, 4500, 5500, 6500];
+
 export default function AnalysisScreen() {
-  const { resetGame, setScreen } = useGameStore();
+  const { resetGame, setScreen, currentStoryId } = useGameStore();
   const [showResults, setShowResults] = useState(false);
   const [animationPhase, setAnimationPhase] = useState(0);
+  const [data, setData] = useState<AnalysisResponse | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
 
-  // Mock scores - will be replaced with real API data
-  const [scores] = useState<OceanScores>({
-    openness: 72,
-    conscientiousness: 58,
-    extraversion: 45,
-    agreeableness: 81,
-    neuroticism: 35,
-  });
-
-  const archetype = 'The Compassionate Explorer';
-  const summary = `Your journey revealed a soul drawn to new experiences while maintaining deep
-empathy for others. You approach challenges with an open mind, preferring understanding
-over confrontation. Your decisions reflect a balance between curiosity and care,
-making you a natural bridge-builder in any world you inhabit.`;
+  // The analysis is written the first time it's asked for, so this can take a while
+  useEffect(() => {
+    if (!currentStoryId) return;
+
+    apiClient.getAnalysis(currentStoryId)
+      .then(setData)
+      .catch(err => {
+        console.error('Failed to fetch analysis:', err);
+        setLoadFailed(true);
+      });
+  }, [currentStoryId]);
 
   useEffect(() => {
+    const timer = setTimeout(() => setAnimationPhase(1), 500);
+    return () => clearTimeout(timer);
+  }, []);
+
+  useEffect(() => {
+    if (loadFailed) {
+      setShowResults(true);
+      return;
+    }
+    if (!data) return;
+
     // Animate the reveal
-    const phases = [500, 1500, 2500, 3500, 4500, 5500, 6500];
-    phases.forEach((delay, index) => {
-      setTimeout(() => setAnimationPhase(index + 1), delay);
-    });
+    const timers = REVEAL_DELAYS.map((delay, index) =>
+      setTimeout(() => setAnimationPhase(index + 2), delay)
+    );
+    timers.push(setTimeout(() => setShowResults(true), REVEAL_DELAYS[REVEAL_DELAYS.length - 1] + 500));
 
-    setTimeout(() => setShowResults(true), 7000);
-  }, []);
+    return () => timers.forEach(clearTimeout);
+  }, [data, loadFailed]);
 
   const handleRestart = useCallback(() => {
     resetGame();
     setScreen('title');
   }, [resetGame, setScreen]);
 
-  const renderBar = (value: number, dimension: keyof OceanScores) => {
+  const analysis = data?.analysis || null;
+  const ending = data?.ending || null;
+  const achievements = data?.achievements || null;
+
+  // A finished story has its final scores; otherwise show the running ones
+  const runningScores = data?.scores;
+  const scores: Record<OceanDimension, number> | null = analysis
+    ? analysis.finalScores.scores
+    : runningScores
+      ? Object.fromEntries(DIMENSIONS.map(d => [d, Math.round(Number(runningScores[d]))])) as Record<OceanDimension, number>
+      : null;
+
+  const renderBar = (value: number, dimension: OceanDimension) => {
     const label = DIMENSION_LABELS[dimension];
     const filledWidth = Math.round((value / 100) * 30);
     const emptyWidth = 30 - filledWidth;
     const bar = '█'.repeat(filledWidth) + '░'.repeat(emptyWidth);
 
     return (
-      <div className="score-row">
+      <div className="score-row" key={dimension}>
         <div className="score-label">{label.name}</div>
         <div className="score-bar">
           <span className="dim">{label.low}</span>
@@ -99,47 +118,116 @@ making you a natural bridge-builder in any world you inhabit.`;
         {animationPhase >= 1 && (
           <>
             <p className="dim">═══════════════════════════════════════</p>
-            <h2>JOURNEY COMPLETE</h2>
+            <h2>{ending?.status === 'failed' ? 'JOURNEY ENDED' : 'JOURNEY COMPLETE'}</h2>
             <p className="dim">═══════════════════════════════════════</p>
           </>
         )}
       </div>
 
       <div className="analysis-content">
-        {animationPhase >= 2 && (
+        {animationPhase >= 1 && !data && !loadFailed && (
           <div className="analysis-section">
             <p className="dim">Analyzing your choices...</p>
           </div>
         )}
 
-        {animationPhase >= 3 && (
+        {loadFailed && (
+          <div className="analysis-section">
+            <p className="dim">Your analysis could not be read this time.</p>
+          </div>
+        )}
+
+        {animationPhase >= 2 && ending?.epilogue && (
+          <div className="analysis-section epilogue">
+            <p className="dim">Epilogue:</p>
+            <p className="summary-text">{ending.epilogue}</p>
+          </div>
+        )}
+
+        {animationPhase >= 2 && ending?.status === 'failed' && (
+          <div className="analysis-section epitaph">
+            <p className="dim">Your story ended before its time:</p>
+            {ending.epitaph && <p className="summary-text">{ending.epitaph}</p>}
+          </div>
+        )}
+
+        {animationPhase >= 3 && data && !analysis && ending?.completedAt && (
+          <div className="analysis-section">
+            <p className="dim">Your reading could not be written this time.</p>
+          </div>
+        )}
+
+        {animationPhase >= 3 && analysis && (
           <div className="analysis-section archetype">
             <p className="dim">Your Archetype:</p>
-            <h3 className="bright">{archetype}</h3>
+            <h3 className="bright">{analysis.archetype}</h3>
           </div>
         )}
 
-        {animationPhase >= 4 && (
+        {animationPhase >= 4 && scores && (
           <div className="analysis-section scores">
             <p className="dim">Personality Profile (OCEAN):</p>
             <div className="scores-container">
-              {renderBar(scores.openness, 'openness')}
-              {renderBar(scores.conscientiousness, 'conscientiousness')}
-              {renderBar(scores.extraversion, 'extraversion')}
-              {renderBar(scores.agreeableness, 'agreeableness')}
-              {renderBar(scores.neuroticism, 'neuroticism')}
+              {DIMENSIONS.map(d => renderBar(scores[d], d))}
             </div>
           </div>
         )}
 
-        {animationPhase >= 5 && (
+        {animationPhase >= 5 && analysis?.personalitySummary && (
+          <div className="analysis-section summary">
+            <p className="dim">Who You Were:</p>
+            <p className="summary-text">{analysis.personalitySummary}</p>
+          </div>
+        )}
+
+        {animationPhase >= 6 && analysis && analysis.keyMoments.length > 0 && (
+          <div className="analysis-section key-moments">
+            <p className="dim">Key Moments:</p>
+            <ul className="key-moment-list">
+              {analysis.keyMoments.map(m => (
+                <li key={m.eventId}>
+                  {m.context && <p className="dim">{m.context}</p>}
+                  <p className="key-moment-quote">&gt; {m.quote}</p>
+                  {m.outcome && <p className="key-moment-outcome">{m.outcome}</p>}
+                  <p className="bright">{m.insight || m.reasoning}</p>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {animationPhase >= 7 && analysis?.growthNarrative && (
           <div className="analysis-section summary">
-            <p className="dim">Your Story:</p>
-            <p className="summary-text">{summary}</p>
+            <p className="dim">How You Grew:</p>
+            <p className="summary-text">{analysis.growthNarrative}</p>
+          </div>
+        )}
+
+        {animationPhase >= 8 && achievements && (
+          <div className="analysis-section achievements">
+            <p className="dim">
+              Achievements ({achievements.story.length} of {achievements.total}):
+            </p>
+            {achievements.story.length > 0 ? (
+              <ul className="achievement-list">
+                {achievements.story.map(a => (
+                  <li key={a.key}>
+                    <span className="bright">{a.name}</span> <span className="dim">- {a.description}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="dim">None this time. There is always another journey.</p>
+            )}
+            {achievements.user.length > achievements.story.length && (
+              <p className="dim">
+                Across all your journeys: {achievements.user.length} of {achievements.total} earned.
+              </p>
+            )}
           </div>
         )}
 
-        {animationPhase >= 6 && (
+        {animationPhase >= 8 && (
           <div className="analysis-section">
             <p className="dim">═══════════════════════════════════════</p>
           </div>
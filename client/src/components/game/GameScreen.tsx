@@ -2,9 +2,14 @@ import { useCallback, useEffect, useRef, useState } from 'react';
 import { useGameStore } from '@/store/gameStore';
 import Terminal from './Terminal';
 import { GameSidebar } from './GameSidebar';
-import { apiClient } from '@/services/api';
+import { apiClient, GameOverChoice, GameOverInfo } from '@/services/api';
 import './GameScreen.css';
 
+// The last turn types out before the analysis takes over
+const TYPING_MS_PER_CHAR = 20;
+const ENDING_PAUSE_MS = 4000;
+const ENDING_MAX_DELAY_MS = 60000;
+
 interface ActiveDilemma {
   id: string;
   description: string;
@@ -18,15 +23,25 @@ export default function GameScreen() {
   const setLoadingMessage = useGameStore((state) => state.setLoadingMessage);
   const setInputPlaceholder = useGameStore((state) => state.setInputPlaceholder);
   const currentStoryId = useGameStore((state) => state.currentStoryId);
+  const isInputEnabled = useGameStore((state) => state.isInputEnabled);
+  const setScreen = useGameStore((state) => state.setScreen);
 
   // Track which storyId we've initialized (not just boolean)
   const initializedStoryId = useRef<string | null>(null);
   const [activeDilemma, setActiveDilemma] = useState<ActiveDilemma | null>(null);
   const [sidebarRefresh, setSidebarRefresh] = useState(0);
+  const [gameOver, setGameOver] = useState<GameOverInfo | null>(null);
 
   // Clear messages from interview when entering game screen
   const clearMessages = useGameStore((state) => state.clearMessages);
 
+  // Let the final narrative finish typing, then move on to the analysis
+  const showAnalysisAfter = useCallback((text: string) => {
+    setInputEnabled(false);
+    const delay = Math.min(ENDING_MAX_DELAY_MS, text.length * TYPING_MS_PER_CHAR + ENDING_PAUSE_MS);
+    setTimeout(() => setScreen('analysis'), delay);
+  }, [setInputEnabled, setScreen]);
+
   // Initialize the game - fetch opening narrative and initial state
   useEffect(() => {
     if (!currentStoryId || initializedStoryId.current === currentStoryId) return;
@@ -43,6 +58,12 @@ export default function GameScreen() {
           apiClient.getGameState(currentStoryId),
         ]);
 
+        // A story whose ending was accepted has nothing left to play
+        if (state.storyEnded) {
+          setScreen('analysis');
+          return;
+        }
+
         // Display story title
         if (opening.storyTitle) {
           addMessage({
@@ -174,6 +195,13 @@ export default function GameScreen() {
           isTyping: false,
         });
 
+        // Resuming a story that ended badly - the choice is still waiting
+        if (state.gameOver) {
+          setGameOver(state.gameOver);
+          setInputEnabled(false);
+          return;
+        }
+
         setInputPlaceholder('What do you do?');
         setInputEnabled(true);
       } catch (error) {
@@ -189,7 +217,7 @@ export default function GameScreen() {
     };
 
     initGame();
-  }, [currentStoryId, addMessage, setInputEnabled, setInputPlaceholder, clearMessages]);
+  }, [currentStoryId, addMessage, setInputEnabled, setInputPlaceholder, clearMessages, setScreen]);
 
   const handlePlayerInput = useCallback(async (input: string) => {
     if (!currentStoryId) {
@@ -236,6 +264,13 @@ export default function GameScreen() {
         setSidebarRefresh(prev => prev + 1);
 
         setActiveDilemma(null);
+
+        // The choice resolved the final beat
+        if (result.storyEnded) {
+          showAnalysisAfter(outcomeText);
+          return;
+        }
+
         setInputPlaceholder('What do you do?');
         setInputEnabled(true);
         return;
@@ -266,6 +301,17 @@ export default function GameScreen() {
       // Refresh sidebar after action (map may have changed, items picked up, etc.)
       setSidebarRefresh(prev => prev + 1);
 
+      if (response.storyEnded) {
+        showAnalysisAfter(response.narrativeText);
+        return;
+      }
+
+      // The story ended badly - wait for the player's choice
+      if (response.gameOver) {
+        setGameOver(response.gameOver);
+        return;
+      }
+
       // Check for dilemma
       if (response.dilemma) {
         setActiveDilemma(response.dilemma);
@@ -312,16 +358,90 @@ export default function GameScreen() {
 
       setInputEnabled(true);
     }
-  }, [currentStoryId, activeDilemma, addMessage, setInputEnabled, setLoading, setLoadingMessage, setInputPlaceholder]);
+  }, [currentStoryId, activeDilemma, addMessage, setInputEnabled, setLoading, setLoadingMessage, setInputPlaceholder, showAnalysisAfter]);
+
+  const handleGameOverChoice = useCallback(async (choice: GameOverChoice) => {
+    if (!currentStoryId) return;
+
+    setLoading(true);
+    setLoadingMessage(choice === 'accept' ? 'Ending' : 'Rewinding');
+
+    try {
+      const response = await apiClient.resolveGameOver(currentStoryId, choice);
+      setLoading(false);
+
+      if (response.storyEnded) {
+        setScreen('analysis');
+        return;
+      }
+
+      addMessage({
+        type: 'narrator',
+        content: response.narrativeText,
+        isTyping: true,
+      });
+
+      // No save to go back to - the choice is still open
+      if (response.gameOver) {
+        setGameOver(response.gameOver);
+        return;
+      }
+
+      setGameOver(null);
+      setSidebarRefresh(prev => prev + 1);
+      setInputPlaceholder('What do you do?');
+      setInputEnabled(true);
+    } catch (error) {
+      console.error('Game over choice error:', error);
+      setLoading(false);
+    }
+  }, [currentStoryId, addMessage, setInputEnabled, setLoading, setLoadingMessage, setInputPlaceholder, setScreen]);
 
   return (
     <div className="game-screen game-screen-with-sidebar">
       <div className="game-main">
         <Terminal onInput={handlePlayerInput} />
+        {gameOver && (
+          <div className="game-over-overlay">
+            <div className="game-over-panel">
+              <h2>*** THE STORY HAS ENDED ***</h2>
+              {gameOver.epitaph && <p className="game-over-epitaph">{gameOver.epitaph}</p>}
+              <div className="game-over-choices">
+                <button
+                  className="game-over-button"
+                  onClick={() => handleGameOverChoice('restore')}
+                  disabled={!gameOver.canRestore}
+                  title="Return to your last autosave"
+                >
+                  RESTORE
+                </button>
+                <button
+                  className="game-over-button"
+                  onClick={() => handleGameOverChoice('retry')}
+                  disabled={!gameOver.canRetry}
+                  title="Begin this part of the story again"
+                >
+                  RETRY BEAT
+                </button>
+                <button
+                  className="game-over-button"
+                  onClick={() => handleGameOverChoice('accept')}
+                  title="Let the ending stand and see your analysis"
+                >
+                  ACCEPT
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
       </div>
       {currentStoryId && (
         <div className="game-sidebar-container">
-          <GameSidebar storyId={currentStoryId} refreshTrigger={sidebarRefresh} />
+          <GameSidebar
+            storyId={currentStoryId}
+            refreshTrigger={sidebarRefresh}
+            onHint={isInputEnabled && !activeDilemma && !gameOver ? () => handlePlayerInput('hint') : undefined}
+          />
         </div>
       )}
     </div>
@@ -6,9 +6,10 @@ import './GameSidebar.css';
 interface GameSidebarProps {
   storyId: string;
   refreshTrigger?: number; // Increment to force refresh
+  onHint?: () => void;      // Sends HINT as if typed - unset while input is blocked
 }
 
-export function GameSidebar({ storyId, refreshTrigger }: GameSidebarProps) {
+export function GameSidebar({ storyId, refreshTrigger, onHint }: GameSidebarProps) {
   const [data, setData] = useState<SidebarResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [mapLines, setMapLines] = useState<string[]>([]);
@@ -92,6 +93,27 @@ export function GameSidebar({ storyId, refreshTrigger }: GameSidebarProps) {
               ))}
             </div>
           )}
+          {data.condition && (
+            <div className="character-condition">
+              <div className="health-row">
+                <span className="health-label">HP</span>
+                <div className="health-bar">
+                  <div
+                    className="health-bar-fill"
+                    style={{ width: `${(data.condition.health / data.condition.maxHealth) * 100}%` }}
+                  />
+                </div>
+                <span className="health-value">{data.condition.health}/{data.condition.maxHealth}</span>
+              </div>
+              {data.condition.states.length > 0 && (
+                <div className="character-traits">
+                  {data.condition.states.map((state, i) => (
+                    <span key={i} className="trait-tag condition-tag">{state}</span>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
         </section>
 
         {/* Abilities/Stats */}
@@ -116,6 +138,29 @@ export function GameSidebar({ storyId, refreshTrigger }: GameSidebarProps) {
             <div className="empty-section">No abilities yet</div>
           )}
         </section>
+
+        {/* Relationships */}
+        <section className="sidebar-section relationships-section">
+          <h3 className="section-header">RELATIONSHIPS</h3>
+          {data.relationships && data.relationships.length > 0 ? (
+            <ul className="abilities-list">
+              {data.relationships.map((person) => (
+                <li key={person.id} className="ability-item" title={`${person.affinity}`}>
+                  <span className="ability-name">{person.name}</span>
+                  <span className="ability-level">{person.feeling}</span>
+                  <div className="ability-progress">
+                    <div
+                      className="ability-progress-bar"
+                      style={{ width: `${(person.affinity + 100) / 2}%` }}
+                    />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="empty-section">No one yet</div>
+          )}
+        </section>
       </div>
 
       {/* Middle Column: Inventory + Objectives */}
@@ -138,7 +183,17 @@ export function GameSidebar({ storyId, refreshTrigger }: GameSidebarProps) {
 
         {/* Objectives */}
         <section className="sidebar-section objectives-section">
-          <h3 className="section-header">OBJECTIVES</h3>
+          <div className="objectives-header">
+            <h3 className="section-header">OBJECTIVES</h3>
+            <button
+              className="hint-button"
+              onClick={onHint}
+              disabled={!onHint}
+              title="Get a hint - ask again for a clearer one"
+            >
+              HINT
+            </button>
+          </div>
           {data.objectives && data.objectives.length > 0 ? (
             <ul className="objectives-list">
               {data.objectives.map((objective) => (
@@ -166,6 +221,24 @@ export function GameSidebar({ storyId, refreshTrigger }: GameSidebarProps) {
             <div className="empty-section">No active objectives</div>
           )}
         </section>
+
+        {/* Achievements */}
+        <section className="sidebar-section achievements-section">
+          <h3 className="section-header">
+            ACHIEVEMENTS {data.achievements.earned.length}/{data.achievements.total}
+          </h3>
+          {data.achievements.earned.length > 0 ? (
+            <ul className="achievements-list">
+              {data.achievements.earned.map((achievement) => (
+                <li key={achievement.key} className="achievement-item" title={achievement.description}>
+                  * {achievement.name}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="empty-section">None yet</div>
+          )}
+        </section>
       </div>
 
       {/* Right Column: Map */}
@@ -46,11 +46,27 @@ interface DilemmaInfo {
   options: string[];
 }
 
+export interface GameOverInfo {
+  reason: string;
+  narrative: string;
+  epitaph?: string;
+  canRestore?: boolean;
+  canRetry?: boolean;
+}
+
+export type GameOverChoice = 'restore' | 'retry' | 'accept';
+
 interface SceneResponse {
   narrativeText: string;
   gameState: GameState;
   roomChanged: boolean;
   dilemma?: DilemmaInfo;
+  menu?: {
+    type: 'destination' | 'disambiguation';
+    options: Array<{ id: string; name: string }>;
+  };
+  gameOver?: GameOverInfo;
+  storyEnded?: boolean;
 }
 
 interface GameStateResponse {
@@ -61,6 +77,8 @@ interface GameStateResponse {
   exits: Array<{ direction: string; roomId: string }>;
   objects: Array<{ id: string; name: string; description: string }>;
   characters: Array<{ id: string; name: string; description: string }>;
+  gameOver: GameOverInfo | null;
+  storyEnded: boolean;
 }
 
 interface OpeningResponse {
@@ -79,6 +97,12 @@ interface DilemmaRequest {
   playerResponse: string;
 }
 
+interface DilemmaResponse {
+  success: boolean;
+  outcomeNarrative?: string;
+  storyEnded?: boolean;
+}
+
 interface ExtractNameResponse {
   name: string;
   confidence: number;
@@ -115,6 +139,27 @@ export interface SidebarInventoryItem {
   description: string;
 }
 
+export interface SidebarRelationship {
+  id: string;
+  name: string;
+  affinity: number; // -100 to 100
+  feeling: string;  // "wary", "friendly", ...
+}
+
+export interface SidebarCondition {
+  health: number;
+  maxHealth: number;
+  hunger: number;   // 0-100
+  fatigue: number;  // 0-100
+  states: string[]; // "hungry", "soaked", "sprained ankle", ...
+}
+
+export interface SidebarAchievement {
+  key: string;
+  name: string;
+  description: string;
+}
+
 export interface SidebarObjectiveStep {
   description: string;
   completed: boolean;
@@ -134,19 +179,78 @@ export interface SidebarResponse {
     traits: string[];
     isBackstoryRevealed: boolean;
   };
+  condition: SidebarCondition | null;
   abilities: SidebarAbility[];
   notes: string[];
   inventory: SidebarInventoryItem[];
+  relationships: SidebarRelationship[];
   objectives: SidebarObjective[];
+  achievements: {
+    earned: SidebarAchievement[];
+    total: number;
+  };
   map: SidebarMapRoom[];
   currentRoomId: string | null;
 }
 
+// Analysis types
+export interface StoryAchievement extends SidebarAchievement {
+  earnedAt: string;
+}
+
+export interface UserAchievement extends SidebarAchievement {
+  timesEarned: number; // Stories it was earned in
+  firstEarnedAt: string;
+}
+
+export type OceanDimension = 'openness' | 'conscientiousness' | 'extraversion' | 'agreeableness' | 'neuroticism';
+
+export interface KeyMoment {
+  eventId: string;
+  dimension: string;
+  delta: number;
+  quote: string; // The player's own words
+  outcome: string | null;
+  context: string | null;
+  reasoning: string;
+  insight?: string;
+}
+
+export interface StoryAnalysis {
+  finalScores: {
+    scores: Record<OceanDimension, number>;
+    confidence: Record<OceanDimension, number>;
+  };
+  personalitySummary: string;
+  keyMoments: KeyMoment[];
+  archetype: string;
+  growthNarrative: string;
+  createdAt: string;
+}
+
+export interface AnalysisResponse {
+  scores: (Record<OceanDimension, string | number> & Record<string, unknown>) | null; // Running scores (decimals arrive as strings)
+  events: Array<Record<string, unknown>>;
+  analysis: StoryAnalysis | null;
+  ending: {
+    status: 'in_progress' | 'completed' | 'abandoned' | 'failed';
+    reason: string | null;
+    epitaph: string | null;
+    epilogue: string | null;
+    completedAt: string | null;
+  };
+  achievements: {
+    story: StoryAchievement[];
+    user: UserAchievement[];
+    total: number;
+  };
+}
+
 // Admin types
 export interface AdminSession {
   id: string;
   title: string;
-  status: 'in_progress' | 'completed' | 'abandoned';
+  status: 'in_progress' | 'completed' | 'abandoned' | 'failed';
   playerName: string;
   turnCount: number;
   score: number;
@@ -198,12 +302,13 @@ interface ApiClient {
   extractName: (response: string) => Promise<ExtractNameResponse>;
   generateStory: (data: GenerateStoryRequest) => Promise<GenerateStoryResponse>;
   submitAction: (data: SceneRequest) => Promise<SceneResponse>;
+  resolveGameOver: (storyId: string, choice: GameOverChoice) => Promise<SceneResponse>;
   getStory: (storyId: string) => Promise<object>;
-  getAnalysis: (storyId: string) => Promise<object>;
+  getAnalysis: (storyId: string) => Promise<AnalysisResponse>;
   getGameState: (storyId: string) => Promise<GameStateResponse>;
   getOpening: (storyId: string) => Promise<OpeningResponse>;
   getSidebar: (storyId: string) => Promise<SidebarResponse>;
-  submitDilemmaResponse: (data: DilemmaRequest) => Promise<{ success: boolean; outcomeNarrative?: string }>;
+  submitDilemmaResponse: (data: DilemmaRequest) => Promise<DilemmaResponse>;
   // Admin endpoints
   admin: {
     clearDatabase: () => Promise<{ success: boolean; message: string }>;
@@ -258,11 +363,17 @@ export const apiClient: ApiClient = {
       body: JSON.stringify({ playerInput: data.playerInput }),
     }),
 
+  resolveGameOver: (storyId, choice) =>
+    request<SceneResponse>(`/stories/${storyId}/game-over`, {
+      method: 'POST',
+      body: JSON.stringify({ choice }),
+    }),
+
   getStory: (storyId) =>
     request<object>(`/stories/${storyId}`),
 
   getAnalysis: (storyId) =>
-    request<object>(`/stories/${storyId}/analysis`),
+    request<AnalysisResponse>(`/stories/${storyId}/analysis`),
 
   getGameState: (storyId) =>
     request<GameStateResponse>(`/stories/${storyId}/state`),
@@ -274,7 +385,7 @@ export const apiClient: ApiClient = {
     request<SidebarResponse>(`/stories/${storyId}/sidebar`),
 
   submitDilemmaResponse: (data) =>
-    request<{ success: boolean; outcomeNarrative?: string }>(`/stories/${data.storyId}/dilemma/${data.dilemmaId}`, {
+    request<DilemmaResponse>(`/stories/${data.storyId}/dilemma/${data.dilemmaId}`, {
       method: 'POST',
       body: JSON.stringify({
         chosenOption: data.chosenOption,
@@ -21,6 +21,9 @@ router.post('/clear-database', async (req: Request, res: Response) => {
     // Start with the most dependent tables
 
     await prisma.gameTranscript.deleteMany({});
+    await prisma.savePoint.deleteMany({});
+    await prisma.achievement.deleteMany({});
+    await prisma.turnJournal.deleteMany({});
     await prisma.interactionCache.deleteMany({});
     await prisma.skillCheck.deleteMany({});
     await prisma.timedEvent.deleteMany({});
@@ -61,6 +64,9 @@ router.post('/clear-all', async (req: Request, res: Response) => {
   try {
     // Delete everything in dependency order
     await prisma.gameTranscript.deleteMany({});
+    await prisma.savePoint.deleteMany({});
+    await prisma.achievement.deleteMany({});
+    await prisma.turnJournal.deleteMany({});
     await prisma.interactionCache.deleteMany({});
     await prisma.skillCheck.deleteMany({});
     await prisma.timedEvent.deleteMany({});
@@ -102,7 +108,7 @@ router.post('/clear-all', async (req: Request, res: Response) => {
 // Get all sessions (all stories, any status)
 router.get('/sessions', async (req: Request, res: Response) => {
   try {
-    const { status } = req.query; // Optional filter: 'in_progress', 'completed', 'abandoned'
+    const { status } = req.query; // Optional filter: 'in_progress', 'completed', 'abandoned', 'failed'
 
     const where: Prisma.StoryWhereInput = status
       ? { status: status as StoryStatus }
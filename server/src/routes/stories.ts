@@ -7,6 +7,11 @@ import * as roomService from '../services/game/roomService.js';
 import * as objectService from '../services/game/objectService.js';
 import * as skillService from '../services/game/skillService.js';
 import * as puzzleService from '../services/game/puzzleService.js';
+import * as affinityService from '../services/game/affinityService.js';
+import * as conditionService from '../services/game/conditionService.js';
+import * as achievementService from '../services/game/achievementService.js';
+import * as endingService from '../services/game/endingService.js';
+import * as analysisService from '../services/game/analysisService.js';
 import {
   StoryGenerationOrchestrator,
   persistGeneratedStory,
@@ -87,12 +92,6 @@ router.post('/', async (req: Request, res: Response) => {
       // Generate a story-themed name for the player character
       await generateThemedName(story.id, playerName, allData);
 
-      // Update story status to indicate completion
-      await prisma.story.update({
-        where: { id: story.id },
-        data: { status: 'completed' },
-      });
-
       // Emit final completion event (data is now persisted and ready)
       const emitter = progressEmitters.get(story.id);
       if (emitter) {
@@ -232,6 +231,9 @@ router.post('/:id/scenes', async (req: Request, res: Response) => {
       narrativeText: gameResponse.narrative,
       gameState: gameResponse.gameState,
       roomChanged: gameResponse.roomChanged,
+      menu: gameResponse.menu,
+      gameOver: gameResponse.gameOver,
+      storyEnded: gameResponse.storyEnded,
     });
   } catch (error) {
     console.error('Submit action error:', error);
@@ -239,6 +241,30 @@ router.post('/:id/scenes', async (req: Request, res: Response) => {
   }
 });
 
+// Choose what happens after a game over - restore, retry beat or accept
+router.post('/:id/game-over', async (req: Request, res: Response) => {
+  try {
+    const { choice } = req.body;
+
+    if (!['restore', 'retry', 'accept'].includes(choice)) {
+      return res.status(400).json({ error: 'Choice must be restore, retry or accept' });
+    }
+
+    const gameResponse = await gameEngine.resolveGameOver(req.params.id, choice);
+
+    return res.json({
+      narrativeText: gameResponse.narrative,
+      gameState: gameResponse.gameState,
+      roomChanged: gameResponse.roomChanged,
+      gameOver: gameResponse.gameOver,
+      storyEnded: gameResponse.storyEnded,
+    });
+  } catch (error) {
+    console.error('Game over choice error:', error);
+    return res.status(500).json({ error: 'Failed to process game over choice' });
+  }
+});
+
 // Handle dilemma response
 router.post('/:id/dilemma/:dilemmaId', async (req: Request, res: Response) => {
   try {
@@ -255,6 +281,7 @@ router.post('/:id/dilemma/:dilemmaId', async (req: Request, res: Response) => {
     return res.json({
       success: true,
       outcomeNarrative: result.outcomeNarrative,
+      storyEnded: result.storyEnded,
     });
   } catch (error) {
     console.error('Dilemma response error:', error);
@@ -279,6 +306,8 @@ router.get('/:id/state', async (req: Request, res: Response) => {
       exits: roomService.getExits(gameState.currentRoom),
       objects: gameState.currentRoom.gameObjects,
       characters: gameState.currentRoom.charactersHere,
+      gameOver: await endingService.getGameOver(req.params.id),
+      storyEnded: await endingService.isStoryOver(req.params.id),
     });
   } catch (error) {
     console.error('Get state error:', error);
@@ -422,16 +451,31 @@ router.get('/:id/sidebar', async (req: Request, res: Response) => {
       },
     });
 
+    // Get characters the player has dealt with, and how they feel
+    const metCharacters = await prisma.character.findMany({
+      where: {
+        storyId,
+        metPlayerAt: { not: null },
+      },
+      select: {
+        id: true,
+        name: true,
+        affinity: true,
+      },
+      orderBy: { metPlayerAt: 'asc' },
+    });
+
     // Get current player state for current room
     const playerState = await prisma.playerState.findUnique({
       where: { storyId },
     });
 
-    // Get inventory (objects with null roomId)
+    // Get inventory (objects with null roomId that no character holds)
     const inventory = await prisma.gameObject.findMany({
       where: {
         storyId,
         roomId: null,
+        ownerCharacterId: null,
       },
       select: {
         id: true,
@@ -534,6 +578,7 @@ router.get('/:id/sidebar', async (req: Request, res: Response) => {
 
     // Get active objectives from puzzles
     const objectives = await puzzleService.getObjectives(storyId);
+    const achievements = await achievementService.getStoryAchievements(storyId);
 
     return res.json({
       character: {
@@ -542,6 +587,13 @@ router.get('/:id/sidebar', async (req: Request, res: Response) => {
         traits: backstory?.traits || [],
         isBackstoryRevealed: backstory?.isRevealed || false,
       },
+      condition: playerState ? {
+        health: playerState.health,
+        maxHealth: playerState.maxHealth,
+        hunger: playerState.hunger,
+        fatigue: playerState.fatigue,
+        states: conditionService.describeCondition(playerState),
+      } : null,
       abilities: abilities.map(a => {
         const rawLevel = Number(a.level);
         return {
@@ -559,6 +611,12 @@ router.get('/:id/sidebar', async (req: Request, res: Response) => {
         name: item.name,
         description: item.description,
       })),
+      relationships: metCharacters.map(c => ({
+        id: c.id,
+        name: c.name,
+        affinity: c.affinity,
+        feeling: affinityService.describeAffinity(c.affinity),
+      })),
       objectives: objectives.map(obj => ({
         id: obj.id,
         name: obj.name,
@@ -568,6 +626,10 @@ router.get('/:id/sidebar', async (req: Request, res: Response) => {
           completed: step.isCompleted,
         })),
       })),
+      achievements: {
+        earned: achievements.map(a => ({ key: a.key, name: a.name, description: a.description })),
+        total: achievementService.getAchievementCount(),
+      },
       map: mapData,
       currentRoomId: playerState?.currentRoomId,
       playerInVehicle,  // True if player is currently inside a vehicle
@@ -586,7 +648,6 @@ router.get('/:id/analysis', async (req: Request, res: Response) => {
       include: {
         personalityScores: true,
         personalityEvents: true,
-        storyAnalysis: true,
       },
     });
 
@@ -594,10 +655,28 @@ router.get('/:id/analysis', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Story not found' });
     }
 
+    // An epilogue that failed to be written at the end is tried again here
+    const epilogue = await endingService.getEpilogue(story.id);
+
+    // Written the first time a finished story's analysis is asked for
+    const analysis = await analysisService.getOrCreateAnalysis(story.id);
+
     return res.json({
       scores: story.personalityScores,
       events: story.personalityEvents,
-      analysis: story.storyAnalysis,
+      analysis,
+      ending: {
+        status: story.status,
+        reason: story.endReason,
+        epitaph: story.epitaph,
+        epilogue,
+        completedAt: story.completedAt,
+      },
+      achievements: {
+        story: await achievementService.getStoryAchievements(story.id),
+        user: await achievementService.getUserAchievements(story.userId),
+        total: achievementService.getAchievementCount(),
+      },
     });
   } catch (error) {
     console.error('Get analysis error:', error);
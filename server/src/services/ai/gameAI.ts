@@ -1,6 +1,8 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { PrismaClient, Room, Story } from '@prisma/client';
 import * as timedEventService from '../game/timedEventService';
+import { describeAffinity } from '../game/affinityService';
+import { describeCondition } from '../game/conditionService';
 
 const anthropic = new Anthropic();
 const prisma = new PrismaClient();
@@ -12,6 +14,7 @@ interface StoryContext {
   storySeed: Record<string, unknown>;
   recentFacts: string[];
   playerAbilities: Array<{ name: string; level: number }>;
+  playerCondition: string[];
 }
 
 /**
@@ -22,7 +25,8 @@ async function getStoryContext(storyId: string): Promise<StoryContext> {
     where: { id: storyId },
     include: {
       storyFacts: {
-        where: { isContradicted: false },
+        // Unrevealed secrets stay out - characters share those only once they trust the player
+        where: { isContradicted: false, OR: [{ isSecret: false }, { isRevealed: true }] },
         orderBy: { importance: 'desc' },
         take: 20,
       },
@@ -40,6 +44,8 @@ async function getStoryContext(storyId: string): Promise<StoryContext> {
     take: 20,
   });
 
+  const playerState = await prisma.playerState.findUnique({ where: { storyId } });
+
   const storySeed = (story.storySeed as Record<string, unknown>) || {};
   const genreTags = (story.genreTags as string[]) || [];
 
@@ -50,9 +56,18 @@ async function getStoryContext(storyId: string): Promise<StoryContext> {
     storySeed,
     recentFacts: story.storyFacts.map(f => f.content),
     playerAbilities: abilities.map(a => ({ name: a.name, level: Number(a.level) })),
+    playerCondition: playerState ? describeCondition(playerState) : [],
   };
 }
 
+/**
+ * Read an AI-suggested affinity change, keeping it to -10..10
+ */
+function clampAffinityDelta(value: unknown): number {
+  const delta = typeof value === 'number' ? Math.round(value) : 0;
+  return Math.max(-10, Math.min(10, delta));
+}
+
 /**
  * Generate a description for a room on first visit
  */
@@ -237,6 +252,7 @@ STORY CONTEXT:
 - Tone: ${context.tone}
 ${context.recentFacts.length > 0 ? `- Key facts: ${context.recentFacts.slice(0, 5).join('; ')}` : ''}
 - Player skills: ${abilitiesList}
+${context.playerCondition.length > 0 ? `- Player condition: ${context.playerCondition.join(', ')} (let this colour the narration)` : ''}
 
 PLAYER COMMAND: "${command}"
 ${skillCheckInstructions}
@@ -367,6 +383,281 @@ Write in second person ("You..."). Match the ${context.tone} tone of the story.`
     : 'Things go terribly, hilariously wrong.');
 }
 
+/**
+ * Generate a character's reaction to being given or shown an item
+ * The character's personality, motivations and secrets shape the reaction.
+ */
+export async function generateCharacterReaction(
+  storyId: string,
+  action: 'give' | 'show',
+  character: {
+    name: string;
+    description: string | null;
+    personalityTraits: unknown;
+    affinity: number;
+  },
+  item: { name: string; description: string | null },
+  room: Room
+): Promise<{
+  response: string;
+  affinityDelta: number;
+  personalitySignal?: {
+    dimension: string;
+    delta: number;
+    confidence: number;
+    reasoning: string;
+  };
+}> {
+  const context = await getStoryContext(storyId);
+
+  const personality = (character.personalityTraits as {
+    traits?: string[];
+    motivations?: string[];
+    secrets?: string;
+  }) || {};
+
+  const itemName = item.name.replace(/^\*/, '');
+  const verbPhrase = action === 'give'
+    ? `gives ${character.name} the ${itemName}, which ${character.name} now holds`
+    : `shows ${character.name} the ${itemName} (the player keeps it)`;
+
+  const prompt = `You are the game engine for a ${context.genre} text adventure in the style of Zork.
+
+CURRENT ROOM: ${room.name}
+
+CHARACTER: ${character.name}
+${character.description ? `DESCRIPTION: ${character.description}` : ''}
+TRAITS: ${personality.traits?.join(', ') || 'unknown'}
+MOTIVATIONS: ${personality.motivations?.join(', ') || 'unknown'}
+SECRETS (never state outright - let them color the reaction): ${personality.secrets || 'none'}
+FEELINGS TOWARD THE PLAYER: ${describeAffinity(character.affinity)} (${character.affinity} on a -100 to 100 scale)
+
+ITEM: ${itemName}${item.description ? ` - ${item.description}` : ''}
+
+STORY CONTEXT:
+- Genre: ${context.genre}
+- Tone: ${context.tone}
+${context.recentFacts.length > 0 ? `- Key facts: ${context.recentFacts.slice(0, 5).join('; ')}` : ''}
+
+The player ${verbPhrase}.
+
+Describe how ${character.name} reacts, in character. If the item touches on their motivations or secrets, let that show (surprise, greed, fear, gratitude) without revealing the secret directly.
+
+Respond in JSON format:
+{
+  "response": "The narrative reaction (2-4 sentences, second person, may include dialogue)",
+  "affinityDelta": -10 to +10 change in how ${character.name} feels about the player (a welcome gift raises it, an insulting or threatening one lowers it, 0 if indifferent),
+  "personalitySignal": {
+    "dimension": "O|C|E|A|N or null if not personality-revealing",
+    "delta": -10 to +10 score change (0 if not applicable),
+    "confidence": 1-10 how clearly this reveals personality,
+    "reasoning": "brief explanation of why this action reveals this trait"
+  }
+}`;
+
+  const fallback = action === 'give'
+    ? `${character.name} takes the ${itemName}.`
+    : `${character.name} looks at the ${itemName}.`;
+
+  try {
+    const response = await anthropic.messages.create({
+      model: 'claude-sonnet-4-20250514',
+      max_tokens: 400,
+      messages: [{ role: 'user', content: prompt }],
+    });
+
+    const textContent = response.content.find(c => c.type === 'text');
+    let jsonText = textContent?.text || '{}';
+    const jsonMatch = jsonText.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (jsonMatch) {
+      jsonText = jsonMatch[1];
+    }
+
+    const parsed = JSON.parse(jsonText);
+    return {
+      response: parsed.response || fallback,
+      affinityDelta: clampAffinityDelta(parsed.affinityDelta),
+      personalitySignal: parsed.personalitySignal?.dimension ? parsed.personalitySignal : undefined,
+    };
+  } catch (error) {
+    console.error('Error generating character reaction:', error);
+    return { response: fallback, affinityDelta: 0 };
+  }
+}
+
+/**
+ * Generate a character's side of a conversation
+ * The character remembers earlier conversations (memory summary plus recent lines)
+ * and stays consistent with them.
+ */
+export async function generateCharacterDialogue(
+  storyId: string,
+  character: {
+    name: string;
+    description: string | null;
+    personalityTraits: unknown;
+    relationships: unknown;
+    goals: unknown;
+    affinity: number;
+  },
+  room: Room,
+  conversation: {
+    kind: 'greet' | 'ask' | 'tell' | 'say';
+    topic?: string;          // ASK/TELL ABOUT topic, or what the player said
+    memory: string | null;   // Summary of older conversations
+    recentLines: Array<{ player: string; character: string }>;
+    shareableSecrets: string[];  // Secrets the character trusts the player enough to tell
+    guardedHints: string[];      // How the character deflects the secrets they still keep
+  }
+): Promise<{
+  response: string;
+  affinityDelta: number;
+  revealedSecrets: number[]; // Indices into shareableSecrets
+  personalitySignal?: {
+    dimension: string;
+    delta: number;
+    confidence: number;
+    reasoning: string;
+  };
+}> {
+  const context = await getStoryContext(storyId);
+
+  const personality = (character.personalityTraits as {
+    traits?: string[];
+    motivations?: string[];
+    secrets?: string;
+  }) || {};
+  const relationships = Array.isArray(character.relationships) ? character.relationships : [];
+  const goals = Array.isArray(character.goals) ? (character.goals as string[]) : [];
+
+  const playerMove = {
+    greet: 'The player approaches and starts a conversation.',
+    ask: `The player asks ${character.name} about: ${conversation.topic}`,
+    tell: `The player tells ${character.name} about: ${conversation.topic}`,
+    say: `The player says: "${conversation.topic}"`,
+  }[conversation.kind];
+
+  const history = conversation.recentLines
+    .map(line => `PLAYER: ${line.player}\n${character.name.toUpperCase()}: ${line.character}`)
+    .join('\n\n');
+
+  const prompt = `You are voicing ${character.name}, a character in a ${context.genre} text adventure in the style of Zork.
+
+CURRENT ROOM: ${room.name}
+
+CHARACTER: ${character.name}
+${character.description ? `DESCRIPTION: ${character.description}` : ''}
+TRAITS: ${personality.traits?.join(', ') || 'unknown'}
+MOTIVATIONS: ${personality.motivations?.join(', ') || 'unknown'}
+GOALS: ${goals.join(', ') || 'unknown'}
+RELATIONSHIPS: ${relationships.length > 0 ? JSON.stringify(relationships) : 'none known'}
+SECRETS (${character.name}'s own - guard them; hint only if the player has earned real trust): ${personality.secrets || 'none'}
+FEELINGS TOWARD THE PLAYER: ${describeAffinity(character.affinity)} (${character.affinity} on a -100 to 100 scale)
+${conversation.shareableSecrets.length > 0 ? `
+${character.name.toUpperCase()} TRUSTS THE PLAYER ENOUGH TO SHARE THESE, IF THE CONVERSATION TURNS THAT WAY:
+${conversation.shareableSecrets.map((secret, i) => `${i}. ${secret}`).join('\n')}
+` : ''}${conversation.guardedHints.length > 0 ? `
+${character.name.toUpperCase()} DOES NOT TRUST THE PLAYER ENOUGH TO SHARE WHAT THEY KNOW. If the talk comes near it, they deflect like this:
+${conversation.guardedHints.map(hint => `- ${hint}`).join('\n')}
+` : ''}
+STORY CONTEXT:
+- Genre: ${context.genre}
+- Tone: ${context.tone}
+${context.recentFacts.length > 0 ? `- Key facts: ${context.recentFacts.slice(0, 5).join('; ')}` : ''}
+
+WHAT ${character.name.toUpperCase()} REMEMBERS OF EARLIER CONVERSATIONS:
+${conversation.memory || 'They have not spoken with the player before.'}
+
+${history ? `THE CONVERSATION SO FAR:\n${history}\n` : ''}
+${playerMove}
+
+Reply as ${character.name}, in character. Never contradict anything ${character.name} said or learned before - if asked again, answer consistently (they may be annoyed at repeating themselves). If they don't know about the topic, they say so in their own way. Let their feelings toward the player show - warm and open when they like the player, curt and guarded when they don't.
+
+Respond in JSON format:
+{
+  "response": "${character.name}'s reply (1-4 sentences of dialogue with light narration, second person for the player)",
+  "affinityDelta": -10 to +10 change in how ${character.name} feels about the player after this line (insults and threats lower it, kindness, flattery that lands or shared concerns raise it, 0 for small talk),
+  "revealedSecrets": [numbers of the shareable secrets ${character.name} actually tells in this reply, or empty],
+  "personalitySignal": {
+    "dimension": "O|C|E|A|N or null if not personality-revealing",
+    "delta": -10 to +10 score change (0 if not applicable),
+    "confidence": 1-10 how clearly this reveals personality,
+    "reasoning": "brief explanation of why the player's line reveals this trait"
+  }
+}`;
+
+  const fallback = `${character.name} regards you for a moment but says nothing.`;
+
+  try {
+    const response = await anthropic.messages.create({
+      model: 'claude-sonnet-4-20250514',
+      max_tokens: 500,
+      messages: [{ role: 'user', content: prompt }],
+    });
+
+    const textContent = response.content.find(c => c.type === 'text');
+    let jsonText = textContent?.text || '{}';
+    const jsonMatch = jsonText.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (jsonMatch) {
+      jsonText = jsonMatch[1];
+    }
+
+    const parsed = JSON.parse(jsonText);
+    return {
+      response: parsed.response || fallback,
+      affinityDelta: clampAffinityDelta(parsed.affinityDelta),
+      revealedSecrets: Array.isArray(parsed.revealedSecrets)
+        ? parsed.revealedSecrets.filter((i: unknown): i is number =>
+          typeof i === 'number' && i >= 0 && i < conversation.shareableSecrets.length)
+        : [],
+      personalitySignal: parsed.personalitySignal?.dimension ? parsed.personalitySignal : undefined,
+    };
+  } catch (error) {
+    console.error('Error generating character dialogue:', error);
+    return { response: fallback, affinityDelta: 0, revealedSecrets: [] };
+  }
+}
+
+/**
+ * Fold conversation lines into a character's rolling memory
+ * Keeps what was said, promised and revealed - the facts the character must stay consistent with.
+ */
+export async function summarizeConversation(
+  characterName: string,
+  previousMemory: string | null,
+  lines: Array<{ player: string; character: string }>
+): Promise<string | null> {
+  const transcript = lines
+    .map(line => `PLAYER: ${line.player}\n${characterName.toUpperCase()}: ${line.character}`)
+    .join('\n\n');
+
+  const prompt = `Update ${characterName}'s memory of their conversations with the player.
+
+CURRENT MEMORY:
+${previousMemory || '(nothing yet)'}
+
+NEW CONVERSATION:
+${transcript}
+
+Write the updated memory as a short paragraph (under 120 words) from ${characterName}'s point of view, in third person.
+Keep every concrete fact ${characterName} stated, anything they promised or revealed, what the player told them, and how they feel about the player.
+Respond with the memory text only.`;
+
+  try {
+    const response = await anthropic.messages.create({
+      model: 'claude-3-5-haiku-20241022',
+      max_tokens: 300,
+      messages: [{ role: 'user', content: prompt }],
+    });
+
+    const textContent = response.content.find(c => c.type === 'text');
+    return textContent?.text?.trim() || previousMemory;
+  } catch (error) {
+    console.error('Error summarizing conversation:', error);
+    return previousMemory;
+  }
+}
+
 /**
  * Generate a dilemma scenario for personality testing
  */
@@ -965,6 +1256,13 @@ export async function extractAndCreateTimedEvents(
 
   const context = await getStoryContext(storyId);
 
+  // Objective steps the player is working on - one of them may be how to stop the event
+  const openSteps = await prisma.puzzleStep.findMany({
+    where: { puzzle: { storyId, status: 'active' }, isRevealed: true, isCompleted: false, timedEventId: null },
+    select: { id: true, description: true },
+    take: 10,
+  });
+
   const prompt = `Analyze this game narrative response to determine if a TIMED EVENT has been initiated - something bad (or significant) that will happen after a countdown of player turns.
 
 PLAYER COMMAND: "${command}"
@@ -987,11 +1285,19 @@ Examples of timed events:
 If a timed event is present, determine:
 1. Event name (short, descriptive)
 2. Total turns until it triggers (3-10 is typical, based on urgency described)
-3. What happens when it triggers (consequence type)
+3. What happens when it triggers (consequence type), with its data:
+   - "damage": { "amount": 1-10, "condition": "poisoned|burned|soaked|..." } (either may be omitted)
+   - "room_change": { "roomName": "Room the player is forced into" }
+   - "item_lost": { "items": ["item names"], "moveTo": "Room they end up in" } (omit items to lose something at random, omit moveTo to destroy them)
+   - "exit_change": { "direction": "north|south|east|west|up|down", "change": "locked|collapsed", "roomName": "...", "blockedBy": "iron portcullis" } (roomName defaults to the current room)
+   - "character_action": { "characterName": "...", "roomName": "...", "hostile": true/false, "description": "..." } (a new character is created if needed)
+   - "system_change": { "systemName": "Generator", "state": "Offline - no power" }
 4. Progress narratives at key turn points
 5. Whether the player can prevent it
 6. A hint about how to prevent it (if applicable)
-
+${openSteps.length > 0 ? `7. Whether completing one of the player's current objectives would stop it:
+${openSteps.map((s, i) => `   ${i + 1}. ${s.description}`).join('\n')}
+` : ''}
 Respond ONLY with JSON:
 {
   "hasTimedEvent": true/false,
@@ -1007,14 +1313,17 @@ Respond ONLY with JSON:
     ],
     "triggerNarrative": "The guards burst into the room, weapons drawn! 'There you are!' one shouts.",
     "consequence": {
-      "type": "game_over|damage|room_change|character_action|story_branch|custom",
+      "type": "game_over|damage|room_change|item_lost|exit_change|character_action|system_change|story_branch|custom",
       "data": {}
     },
     "canBePrevented": true,
-    "preventionHint": "Find a place to hide or escape before they arrive"
+    "preventionHint": "Find a place to hide or escape before they arrive",
+    "preventedByObjective": null
   }
 }
 
+"preventedByObjective" is the number of the objective that would stop the event, or null.
+
 If no timed event is created, respond with: {"hasTimedEvent": false}`;
 
   try {
@@ -1053,6 +1362,7 @@ If no timed event is created, respond with: {"hasTimedEvent": false}`;
       consequence: eventData.consequence || { type: 'custom' },
       canBePrevented: eventData.canBePrevented ?? true,
       preventionHint: eventData.preventionHint,
+      preventedByStepId: openSteps[Number(eventData.preventedByObjective) - 1]?.id,
     });
 
     console.log(`Created timed event "${eventData.name}" with ${eventData.totalTurns} turns remaining`);
@@ -1067,9 +1377,231 @@ If no timed event is created, respond with: {"hasTimedEvent": false}`;
   }
 }
 
+/**
+ * Judge whether the player's action stops or stalls any active countdown
+ * Only called for events no linked objective step has already resolved.
+ */
+export async function judgeTimedEventPrevention(
+  storyId: string,
+  events: Array<{ id: string; name: string; description: string; turnsRemaining: number; preventionHint: string | null; isDelayed: boolean }>,
+  command: string,
+  response: string
+): Promise<Array<{ eventId: string; outcome: 'prevented' | 'delayed'; extraTurns: number; narrative: string }>> {
+  if (events.length === 0) return [];
+
+  const context = await getStoryContext(storyId);
+
+  const prompt = `You are the referee for a ${context.genre} text adventure. Some countdowns are running. Decide whether the player's latest action stopped or slowed any of them.
+
+ACTIVE COUNTDOWNS:
+${events.map((e, i) => `${i + 1}. ${e.name} - ${e.description} (${e.turnsRemaining} turns left${e.isDelayed ? ', already delayed once - it can only be prevented now' : ''})${e.preventionHint ? `\n   How it could be stopped: ${e.preventionHint}` : ''}`).join('\n')}
+
+PLAYER COMMAND: "${command}"
+
+WHAT HAPPENED:
+"${response}"
+
+Only judge what actually happened, not what the player intended. A countdown is "prevented" if the action clearly neutralizes the threat (barring the door the guards must come through, cutting the alarm wire, escaping the collapsing room for good). It is "delayed" if the action buys time without ending the threat. Most actions do neither.
+
+Respond ONLY with JSON:
+{
+  "results": [
+    { "countdown": 1, "outcome": "prevented|delayed|none", "extraTurns": 0, "narrative": "One sentence telling the player what their action did to the threat (second person)" }
+  ]
+}`;
+
+  try {
+    const aiResponse = await anthropic.messages.create({
+      model: 'claude-3-5-haiku-20241022',
+      max_tokens: 400,
+      messages: [{ role: 'user', content: prompt }],
+    });
+
+    const textContent = aiResponse.content.find(c => c.type === 'text');
+    let jsonText = textContent?.text || '{}';
+    const jsonMatch = jsonText.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (jsonMatch) {
+      jsonText = jsonMatch[1];
+    }
+
+    const parsed = JSON.parse(jsonText) as {
+      results?: Array<{ countdown: number; outcome: string; extraTurns?: number; narrative?: string }>;
+    };
+
+    return (parsed.results || [])
+      .filter(r => (r.outcome === 'prevented' || r.outcome === 'delayed') && events[r.countdown - 1])
+      .map(r => ({
+        eventId: events[r.countdown - 1].id,
+        outcome: r.outcome as 'prevented' | 'delayed',
+        extraTurns: Math.max(1, Math.min(5, Math.round(r.extraTurns || 2))),
+        narrative: r.narrative || '',
+      }));
+  } catch (error) {
+    console.error('Error judging timed event prevention:', error);
+    return [];
+  }
+}
+
+/**
+ * Write an epitaph for a player whose story has ended badly
+ */
+export async function generateEpitaph(
+  storyId: string,
+  reason: string,
+  narrative: string
+): Promise<string> {
+  const fallback = 'Here the story ended, sooner than anyone had planned.';
+
+  try {
+    const context = await getStoryContext(storyId);
+    const playerState = await prisma.playerState.findUnique({ where: { storyId } });
+    const room = playerState
+      ? await prisma.room.findUnique({ where: { id: playerState.currentRoomId }, select: { name: true } })
+      : null;
+
+    const prompt = `Write an epitaph for the player of a ${context.genre} text adventure (${context.tone} tone) whose story has just ended in failure.
+
+HOW IT ENDED (${reason}):
+"${narrative}"
+
+WHERE: ${room?.name || 'unknown'}
+${context.recentFacts.length > 0 ? `WHAT THEY HAD LEARNED:\n${context.recentFacts.slice(0, 5).map(f => `- ${f}`).join('\n')}\n` : ''}
+Write one or two short sentences, as if carved on a headstone or recorded in a chronicle. Refer to the player in the third person ("Here lies one who..."). Wry or solemn to suit the tone, never cruel.
+
+Respond with the epitaph only.`;
+
+    const response = await anthropic.messages.create({
+      model: 'claude-3-5-haiku-20241022',
+      max_tokens: 150,
+      messages: [{ role: 'user', content: prompt }],
+    });
+
+    const textContent = response.content.find(c => c.type === 'text');
+    return textContent?.text.trim().replace(/^"|"$/g, '') || fallback;
+  } catch (error) {
+    console.error('Error generating epitaph:', error);
+    return fallback;
+  }
+}
+
+/**
+ * Write the epilogue once the final story beat resolves
+ * It looks back on how each beat was resolved and the moments that defined the player.
+ * Returns null if it couldn't be written.
+ */
+export async function generateEpilogue(
+  storyId: string,
+  resolutions: Array<{ beat: string; description: string; choice: string | null }>,
+  keyMoments: Array<{ action: string; context: string | null; reasoning: string }>
+): Promise<string | null> {
+  try {
+    const context = await getStoryContext(storyId);
+    const story = await prisma.story.findUnique({
+      where: { id: storyId },
+      select: { title: true },
+    });
+
+    const prompt = `Write the epilogue for "${story?.title || 'the story'}", a ${context.genre} text adventure with a ${context.tone} tone and the theme of ${context.theme}. The player has just resolved its final milestone.
+
+HOW EACH MILESTONE WAS RESOLVED:
+${resolutions.map((r, i) => `${i + 1}. ${r.beat} - ${r.description}${r.choice ? `\n   The player chose: ${r.choice}` : ''}`).join('\n')}
+
+MOMENTS THAT DEFINED THE PLAYER:
+${keyMoments.length > 0 ? keyMoments.map(m => `- ${m.action}${m.context ? ` (${m.context})` : ''} - ${m.reasoning}`).join('\n') : '- None recorded'}
+
+${context.recentFacts.length > 0 ? `WHAT THE WORLD KNOWS:\n${context.recentFacts.slice(0, 10).map(f => `- ${f}`).join('\n')}\n\n` : ''}Write 2-4 short paragraphs in second person. Show what became of the world and the people in it because of the player's choices - refer back to specific resolutions and moments. End on a closing line that feels final. No headings, no lists.
+
+Respond with the epilogue only.`;
+
+    const response = await anthropic.messages.create({
+      model: 'claude-sonnet-4-20250514',
+      max_tokens: 800,
+      messages: [{ role: 'user', content: prompt }],
+    });
+
+    const textContent = response.content.find(c => c.type === 'text');
+    return textContent?.text.trim() || null;
+  } catch (error) {
+    console.error('Error generating epilogue:', error);
+    return null;
+  }
+}
+
+/**
+ * Read the player's personality from how they played the whole story
+ * Scores are 0-100 per OCEAN dimension (50 is neutral); moments are the player's own words.
+ * Returns null if no reading could be made.
+ */
+export async function generatePersonalityAnalysis(
+  storyId: string,
+  input: {
+    scores: Record<string, { score: number; confidence: number }>;
+    moments: Array<{ quote: string; context: string | null; dimension: string; reasoning: string }>;
+    ending: string;
+  }
+): Promise<{ archetype: string; personalitySummary: string; growthNarrative: string; insights: string[] } | null> {
+  const context = await getStoryContext(storyId);
+
+  const prompt = `You are writing the end-of-story personality reading for a player of a ${context.genre} text adventure. Everything they chose was a window into who they are. Be warm, specific and honest - this is the moment the whole game builds towards.
+
+OCEAN SCORES (0-100, 50 is neutral; confidence is how many choices informed it):
+${Object.entries(input.scores).map(([name, s]) => `- ${name}: ${Math.round(s.score)} (confidence ${s.confidence})`).join('\n')}
+
+KEY MOMENTS (the player's own words):
+${input.moments.length > 0 ? input.moments.map((m, i) => `${i + 1}. "${m.quote}"${m.context ? `\n   Situation: ${m.context}` : ''}\n   Signal (${m.dimension}): ${m.reasoning}`).join('\n') : 'None recorded'}
+
+HOW THE STORY ENDED:
+${input.ending}
+
+Low-confidence dimensions should be read lightly. Never diagnose; describe tendencies as strengths with their trade-offs.
+
+Respond ONLY with JSON:
+{
+  "archetype": "The [Adjective] [Noun] - a memorable two to four word title",
+  "personalitySummary": "One paragraph in second person on who the player showed themselves to be, citing the moments",
+  "growthNarrative": "One paragraph on how the player changed over the story, or what the story invited them to grow into",
+  "insights": ["One sentence per key moment, in order, on what that choice revealed"]
+}`;
+
+  try {
+    const response = await anthropic.messages.create({
+      model: 'claude-sonnet-4-20250514',
+      max_tokens: 1200,
+      messages: [{ role: 'user', content: prompt }],
+    });
+
+    const textContent = response.content.find(c => c.type === 'text');
+    let jsonText = textContent?.text || '{}';
+    const jsonMatch = jsonText.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (jsonMatch) {
+      jsonText = jsonMatch[1];
+    }
+
+    const parsed = JSON.parse(jsonText) as {
+      archetype?: string;
+      personalitySummary?: string;
+      growthNarrative?: string;
+      insights?: string[];
+    };
+
+    if (!parsed.archetype || !parsed.personalitySummary) return null;
+
+    return {
+      archetype: parsed.archetype,
+      personalitySummary: parsed.personalitySummary,
+      growthNarrative: parsed.growthNarrative || '',
+      insights: parsed.insights || [],
+    };
+  } catch (error) {
+    console.error('Error generating personality analysis:', error);
+    return null;
+  }
+}
+
 /**
  * Detect characters mentioned in AI response and move them to the current room
- * This ensures narrative consistency - if the AI says a character is present, they are present
+ * This ensures narrative consistency - if the AI says a character is present, they are present.
+ * Only characters a room away (or not yet placed) can step in - nobody teleports across the map.
  */
 export async function updateCharacterPresence(
   storyId: string,
@@ -1091,14 +1623,23 @@ export async function updateCharacterPresence(
     return [];
   }
 
+  const room = await prisma.room.findUnique({ where: { id: roomId } });
+  const adjacentRoomIds = new Set([
+    room?.northRoomId, room?.southRoomId, room?.eastRoomId,
+    room?.westRoomId, room?.upRoomId, room?.downRoomId,
+  ].filter(Boolean));
+
   const responseLower = aiResponse.toLowerCase();
   const movedCharacters: Array<{ name: string; movedFrom: string | null }> = [];
 
   for (const character of allCharacters) {
-    // Skip if character is already in this room
+    // Skip if character is already in this room, or too far away to walk in
     if (character.currentRoomId === roomId) {
       continue;
     }
+    if (character.currentRoomId && !adjacentRoomIds.has(character.currentRoomId)) {
+      continue;
+    }
 
     // Check if character is mentioned in the response
     // Use word boundary matching to avoid partial matches
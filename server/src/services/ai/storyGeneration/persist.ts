@@ -23,6 +23,7 @@ export async function persistGeneratedStory(
     const dilemmaIdMap = new Map<string, string>();
     const storyBeatIdMap = new Map<string, string>();
     const puzzleIdMap = new Map<string, string>();
+    const characterIdMap = new Map<string, string>();
 
     // ============================================
     // 1. Update Story with identity info
@@ -40,6 +41,8 @@ export async function persistGeneratedStory(
     // ============================================
     // Track vehicle rooms for post-processing (setting docked location and destinations)
     const vehicleRooms: Array<{ room: EnhancedRoomData; dbId: string }> = [];
+    // Track locked objects whose keys may not exist yet (keys are linked after starting items)
+    const lockedObjects: Array<{ objectId: string; keyName: string }> = [];
 
     for (const room of data.connectingAreas.rooms) {
       // Collect hidden exits from connection descriptions
@@ -60,6 +63,7 @@ export async function persistGeneratedStory(
           atmosphere: room.suggestedAtmosphere as Prisma.InputJsonValue,
           hiddenExits: hiddenExits as Prisma.InputJsonValue,
           discoveredExits: [] as Prisma.InputJsonValue, // Empty initially
+          isDark: room.isDark || false,
           // Vehicle properties
           isVehicle: room.isVehicle || false,
           vehicleType: room.vehicleType || null,
@@ -74,8 +78,9 @@ export async function persistGeneratedStory(
       }
 
       // Create objects in room
+      const objectIdMap = new Map<string, string>();
       for (const obj of room.objects) {
-        await tx.gameObject.create({
+        const createdObject = await tx.gameObject.create({
           data: {
             storyId,
             roomId: created.id,
@@ -83,10 +88,36 @@ export async function persistGeneratedStory(
             description: obj.description,
             synonyms: (obj.synonyms || []) as Prisma.InputJsonValue,
             isTakeable: obj.isTakeable,
+            isContainer: obj.isContainer || false,
+            isSurface: obj.isSurface || false,
+            isOpen: obj.isOpen || false,
+            isLocked: obj.isLocked || false,
+            blocksExit: obj.blocksExit || null,
+            isLightSource: obj.isLightSource || false,
+            isLit: obj.isLit || false,
+            weight: obj.weight ?? 1,
+            bulk: obj.bulk ?? 1,
+            capacity: obj.capacity ?? 0,
             isStoryCritical: obj.isStoryCritical || false,
             state: (obj.initialState || {}) as Prisma.InputJsonValue,
           },
         });
+        objectIdMap.set(obj.name.toLowerCase(), createdObject.id);
+        if (obj.keyName) {
+          lockedObjects.push({ objectId: createdObject.id, keyName: obj.keyName });
+        }
+      }
+
+      // Place objects in/on their containers once all exist
+      for (const obj of room.objects) {
+        const containerId = obj.containedIn ? objectIdMap.get(obj.containedIn.toLowerCase()) : undefined;
+        const objectId = objectIdMap.get(obj.name.toLowerCase());
+        if (containerId && objectId && containerId !== objectId) {
+          await tx.gameObject.update({
+            where: { id: objectId },
+            data: { containedInId: containerId },
+          });
+        }
       }
     }
 
@@ -142,16 +173,30 @@ export async function persistGeneratedStory(
     // ============================================
     for (const char of data.characters.characters) {
       const roomId = roomIdMap.get(char.startingRoomName) || null;
-      await tx.character.create({
+      // Schedule stops with unknown rooms are dropped rather than failing the story
+      const schedule = (char.schedule || [])
+        .filter(stop => roomIdMap.has(stop.roomName))
+        .map(stop => ({ roomId: roomIdMap.get(stop.roomName)!, turns: Math.max(1, stop.turns || 1) }));
+      const createdCharacter = await tx.character.create({
         data: {
           storyId,
           name: char.name,
           description: char.briefDescription,
           personalityTraits: char.personality as Prisma.InputJsonValue,
-          isMajorCharacter: char.role !== 'neutral',
+          isMajorCharacter: char.role !== 'neutral' && char.role !== 'creature',
           currentRoomId: roomId,
+          homeRoomId: (char.homeRoomName && roomIdMap.get(char.homeRoomName)) || roomId,
+          schedule: (schedule.length > 1 ? schedule : []) as Prisma.InputJsonValue,
+          goals: (char.goals || []) as Prisma.InputJsonValue,
+          affinity: Math.max(-50, Math.min(50, Math.round(char.initialAffinity ?? 0))),
+          isHostile: char.isHostile ?? false,
+          stance: char.isHostile ? 'hostile' : 'calm',
+          health: char.health ?? 10,
+          maxHealth: char.health ?? 10,
+          combatSkill: char.combatSkill ?? 12,
         },
       });
+      characterIdMap.set(char.name, createdCharacter.id);
     }
 
     // ============================================
@@ -190,18 +235,21 @@ export async function persistGeneratedStory(
         approachStyle: options[0].approachStyle,
         personalityImplication: options[0].personalityImplication,
         outcomeNarrative: options[0].outcomeNarrative,
+        affinityChanges: options[0].affinityChanges || [],
       } : null;
       const optionB = options[1] ? {
         description: options[1].description,
         approachStyle: options[1].approachStyle,
         personalityImplication: options[1].personalityImplication,
         outcomeNarrative: options[1].outcomeNarrative,
+        affinityChanges: options[1].affinityChanges || [],
       } : null;
       const optionC = options[2] ? {
         description: options[2].description,
         approachStyle: options[2].approachStyle,
         personalityImplication: options[2].personalityImplication,
         outcomeNarrative: options[2].outcomeNarrative,
+        affinityChanges: options[2].affinityChanges || [],
       } : null;
 
       if (optionA && optionB) {
@@ -318,6 +366,13 @@ export async function persistGeneratedStory(
     // 10. Create Secret Facts
     // ============================================
     for (const secret of data.secretFacts.secrets) {
+      // The character who knows it - named by the AI, or else the one the secret is about
+      const knower = (secret.knownBy && characterIdMap.has(secret.knownBy))
+        ? secret.knownBy
+        : data.characters.characters.find(c =>
+          secret.content.toLowerCase().includes(c.name.toLowerCase()) ||
+          secret.topics.some(t => c.name.toLowerCase() === t.toLowerCase())
+        )?.name;
       await tx.storyFact.create({
         data: {
           storyId,
@@ -330,6 +385,7 @@ export async function persistGeneratedStory(
           deflectionHint: secret.deflectionHint,
           revealTrigger: secret.revealTrigger,
           topics: secret.topics as Prisma.InputJsonValue,
+          characterId: knower ? characterIdMap.get(knower) : undefined,
         },
       });
     }
@@ -383,6 +439,20 @@ export async function persistGeneratedStory(
       });
     }
 
+    // Link locks to their keys, wherever the keys ended up
+    for (const { objectId, keyName } of lockedObjects) {
+      const key = await tx.gameObject.findFirst({
+        where: { storyId, name: { equals: keyName, mode: 'insensitive' } },
+        select: { id: true },
+      });
+      if (key) {
+        await tx.gameObject.update({
+          where: { id: objectId },
+          data: { keyObjectId: key.id },
+        });
+      }
+    }
+
     // ============================================
     // 13. Activate and discover the initial objective only
     // ============================================
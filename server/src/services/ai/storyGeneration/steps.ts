@@ -210,6 +210,7 @@ REQUIREMENTS:
 5. Mark 5-8 rooms as story-critical locations
 6. Ensure the map is navigable - no isolated rooms
 7. Use z-coordinate for different levels (0 = ground, positive = up, negative = down)
+8. Mark 1-3 rooms with no natural light (cellars, caves, windowless vaults) as "isDark": true - the player needs a lamp or torch to see there. Never the starting room.
 
 VEHICLES (if appropriate for the setting):
 - Consider adding 0-3 vehicles that make sense for the story's setting
@@ -242,6 +243,21 @@ Return ONLY valid JSON:
       },
       "exits": { "north": true, "east": true } // which directions have exits
     },
+    {
+      "name": "Root Cellar",
+      "x": 0, "y": 0, "z": -1,
+      "briefDescription": "A cramped cellar cut into cold earth",
+      "thematicRole": "hidden",
+      "isStoryCritical": false,
+      "isDark": true,
+      "suggestedAtmosphere": {
+        "lighting": "utter darkness",
+        "mood": "claustrophobic",
+        "sounds": "dripping water",
+        "smells": "damp soil"
+      },
+      "exits": { "up": true }
+    },
     {
       "name": "Old Fishing Boat",
       "x": 0, "y": 0, "z": 180,
@@ -306,6 +322,7 @@ async function generateRoomDescriptionsBatch(
     name: string;
     briefDescription: string;
     thematicRole: string;
+    isDark?: boolean;
     isVehicle?: boolean;
     vehicleType?: string;
     dockedAtRoomName?: string;
@@ -338,6 +355,7 @@ REQUIREMENTS:
    - Hidden exits should NOT be mentioned in fullDescription
    - Include "hiddenUntil" describing what reveals it (e.g., "examine bookcase")
 4. For vehicles (isVehicle=true): include knownDestinationRoomNames (2-4 destinations)
+5. Dark rooms (isDark=true) are described as seen by lamplight - the player only reads this once they bring a light
 
 Return ONLY valid JSON array:
 [
@@ -374,6 +392,18 @@ interface RoomObjectsResult {
     synonyms: string[];
     isTakeable: boolean;
     isStoryCritical: boolean;
+    isContainer?: boolean;
+    isSurface?: boolean;
+    isOpen?: boolean;
+    containedIn?: string;
+    blocksExit?: 'north' | 'south' | 'east' | 'west' | 'up' | 'down';
+    isLocked?: boolean;
+    keyName?: string;
+    isLightSource?: boolean;
+    isLit?: boolean;
+    weight?: number;
+    bulk?: number;
+    capacity?: number;
   }>;
 }
 
@@ -384,6 +414,7 @@ async function generateRoomObjects(
     fullDescription: string;
     thematicRole: string;
     isVehicle?: boolean;
+    isDark?: boolean;
   }
 ): Promise<RoomObjectsResult> {
   const prompt = `Generate 2-4 interactive objects for this room.
@@ -399,11 +430,18 @@ Create objects that:
 - Fit the room's atmosphere and purpose
 - Include a mix of takeable and fixed items
 - Have 2-4 synonyms each (alternative names players might use)
+- May hold other objects: containers (chests, drawers - "isContainer", closed unless "isOpen") or surfaces (tables, shelves - "isSurface")
+- An object inside or on another names it in "containedIn"
+- A door standing in one of the room's exits gives that direction in "blocksExit"; locked doors and containers name their key in "keyName" (the key must exist somewhere in the story)
+- Give every object a "weight" (key 1, book 3, chair 10, crate 15, over 40 is too heavy to carry) and a "bulk" (coin 1, lantern 2, rifle 4, chair 6)
+- Containers give the bulk they hold in "capacity" - bags, satchels and backpacks are takeable containers that let the player carry more
+- Lamps, lanterns, torches and candles are "isLightSource" ("isLit" if already burning)${room.isDark ? '\n- This room is DARK: if a light source is here it must be unlit, and nothing else may give off light' : ''}
 
 Return ONLY valid JSON:
 {
   "objects": [
-    { "name": "Object Name", "description": "Brief description", "synonyms": ["alt1", "alt2"], "isTakeable": true, "isStoryCritical": false }
+    { "name": "Object Name", "description": "Brief description", "synonyms": ["alt1", "alt2"], "isTakeable": false, "isStoryCritical": false, "isContainer": true, "isOpen": false, "weight": 30, "bulk": 8, "capacity": 10 },
+    { "name": "Other Object", "description": "Brief description", "synonyms": ["alt1"], "isTakeable": true, "isStoryCritical": false, "containedIn": "Object Name", "weight": 1, "bulk": 1 }
   ]
 }`;
 
@@ -462,6 +500,7 @@ export async function generateConnectingAreas(context: GenerationContext): Promi
     name: room.name,
     briefDescription: room.briefDescription,
     thematicRole: room.thematicRole,
+    isDark: room.isDark,
     isVehicle: room.isVehicle,
     vehicleType: room.vehicleType,
     dockedAtRoomName: room.dockedAtRoomName,
@@ -516,6 +555,7 @@ export async function generateConnectingAreas(context: GenerationContext): Promi
       fullDescription: desc?.fullDescription || room.briefDescription,
       thematicRole: room.thematicRole,
       isVehicle: room.isVehicle,
+      isDark: room.isDark,
     };
   });
 
@@ -550,6 +590,7 @@ export async function generateConnectingAreas(context: GenerationContext): Promi
       isStoryCritical: room.isStoryCritical,
       suggestedAtmosphere: room.suggestedAtmosphere,
       exits: room.exits,
+      isDark: room.isDark,
       isVehicle: room.isVehicle,
       vehicleType: room.vehicleType,
       boardingKeywords: room.boardingKeywords,
@@ -668,13 +709,15 @@ REQUIREMENTS:
 3. Place characters in rooms that fit their role
 4. Give each a unique voice and personality
 5. Include secrets that could be revealed through gameplay
+6. Give each a home room, goals, and for about half of them a schedule - a loop of 2-4 rooms they walk between (a guard's patrol, a cook going between kitchen and cellar), staying a few turns at each. Schedule rooms must come from the list above; homebodies get an empty schedule
+7. If the story has danger, include one or two hostile characters or creatures (isHostile: true) in rooms off the main path - things that can be fought, fled or talked down
 
 Return ONLY valid JSON:
 {
   "characters": [
     {
       "name": "Character Name",
-      "role": "mentor", // mentor, antagonist, ally, neutral, mysterious, merchant, guardian
+      "role": "mentor", // mentor, antagonist, ally, neutral, mysterious, merchant, guardian, creature
       "briefDescription": "Physical appearance in 1-2 sentences",
       "personality": {
         "traits": ["trait1", "trait2", "trait3"],
@@ -683,15 +726,25 @@ Return ONLY valid JSON:
       },
       "voiceDescription": "How they speak - accent, mannerisms, vocabulary",
       "startingRoomName": "Room Name from the list above",
+      "homeRoomName": "Room Name from the list above",
+      "schedule": [
+        { "roomName": "Room Name from the list above", "turns": 4 },
+        { "roomName": "Another Room Name", "turns": 2 }
+      ],
+      "goals": ["what they are trying to do in the story"],
       "dialogueStyle": "formal", // formal, casual, cryptic, aggressive, friendly, nervous
-      "relationshipToPlayer": "Initial attitude toward the player"
+      "relationshipToPlayer": "Initial attitude toward the player",
+      "initialAffinity": 10, // -50 (hostile) to 50 (warm), matching relationshipToPlayer
+      "isHostile": false, // true only for those who attack on sight
+      "health": 10, // 5-30
+      "combatSkill": 12 // 8-20, how dangerous they are in a fight
     }
   ]
 }`;
 
   const response = await anthropic.messages.create({
     model: MODEL,
-    max_tokens: 3000,
+    max_tokens: 4000,
     messages: [{ role: 'user', content: prompt }],
   });
 
@@ -793,6 +846,7 @@ STORY BEAT DESIGN:
 3. Each beat has 2-3 RESOLUTION OPTIONS - different ways to resolve it
 4. Each option reflects different OCEAN personality traits
 5. Player's choice should feel meaningful - no "right" answer
+6. When an option helps, hurts or sides with a character, list how they'll feel about it in affinityChanges (-20 to 20)
 
 RESOLUTION OPTIONS EXAMPLES:
 - Beat: "Access the Lighthouse Beacon"
@@ -815,7 +869,8 @@ Return ONLY valid JSON:
           "primaryDimension": "O",
           "secondaryDimension": "E", // optional
           "personalityImplication": "Shows high openness and willingness to experiment",
-          "outcomeNarrative": "2-3 sentences describing what happens when this is chosen"
+          "outcomeNarrative": "2-3 sentences describing what happens when this is chosen",
+          "affinityChanges": [{ "characterName": "Character Name", "delta": -10 }] // optional
         },
         {
           "id": "option_b",
@@ -1059,6 +1114,8 @@ STORY IDENTITY:
 
 CHARACTER SECRETS: ${characterSecrets.join('; ')}
 
+CHARACTERS: ${characters.characters.map(c => c.name).join(', ')}
+
 PLAYER BACKSTORY (potentially secret): ${backstory.isSecretBackstory ? backstory.background : 'Not secret'}
 
 PUZZLES THAT CAN REVEAL SECRETS: ${puzzleNames.join(', ')}
@@ -1069,6 +1126,7 @@ REQUIREMENTS:
 3. Link secrets to puzzles that reveal them
 4. Secrets should add depth to the story when discovered
 5. Some secrets should be world-changing revelations
+6. Name the character who knows each secret in knownBy (they share it once they trust the player); leave it out if nobody does
 
 Return ONLY valid JSON:
 {
@@ -1080,7 +1138,8 @@ Return ONLY valid JSON:
       "deflectionHint": "What NPCs say if asked about this before reveal",
       "revealTrigger": "Condition for reveal (e.g., 'complete X puzzle')",
       "linkedPuzzle": "Puzzle Name that reveals this",
-      "topics": ["keyword1", "keyword2"] // for semantic matching
+      "topics": ["keyword1", "keyword2"], // for semantic matching
+      "knownBy": "Character Name" // optional
     }
   ]
 }`;
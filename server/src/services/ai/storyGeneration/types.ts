@@ -99,6 +99,7 @@ export interface MapRoomData {
     up?: boolean;
     down?: boolean;
   };
+  isDark?: boolean;  // No natural light - needs a light source to see
   // Vehicle properties (rooms can be vehicles - boats, cars, elevators, etc.)
   isVehicle?: boolean;
   vehicleType?: 'water' | 'land' | 'air' | 'elevator' | 'magical';
@@ -130,6 +131,18 @@ export interface RoomObject {
   synonyms?: string[];              // Alternative names for the object
   isTakeable: boolean;
   isStoryCritical?: boolean;
+  isContainer?: boolean;            // Things go IN it (chest, drawer)
+  isSurface?: boolean;              // Things go ON it (table, shelf)
+  isOpen?: boolean;                 // Containers start closed unless set
+  containedIn?: string;             // Name of the container/surface in this room holding it
+  blocksExit?: 'north' | 'south' | 'east' | 'west' | 'up' | 'down'; // Doors: the exit it stands in
+  isLocked?: boolean;
+  keyName?: string;                 // Name of the object that locks/unlocks it
+  isLightSource?: boolean;          // Lamps, torches, candles
+  isLit?: boolean;
+  weight?: number;                  // Rough units: key 1, book 3, crate 15, anything over 40 can't be carried
+  bulk?: number;                    // Space it takes in hand or in a bag
+  capacity?: number;                // Containers: bulk they hold (bags and backpacks extend what the player carries)
   initialState?: Record<string, unknown>;
 }
 
@@ -150,7 +163,7 @@ export interface ConnectingAreasData {
 // ============================================
 export interface CharacterData {
   name: string;
-  role: 'mentor' | 'antagonist' | 'ally' | 'neutral' | 'mysterious' | 'merchant' | 'guardian';
+  role: 'mentor' | 'antagonist' | 'ally' | 'neutral' | 'mysterious' | 'merchant' | 'guardian' | 'creature';
   briefDescription: string;        // Physical appearance
   personality: {
     traits: string[];
@@ -159,8 +172,18 @@ export interface CharacterData {
   };
   voiceDescription: string;        // How they speak
   startingRoomName: string;        // Where they are initially
+  homeRoomName?: string;           // Where they return when idle (defaults to startingRoomName)
+  schedule?: Array<{               // Rooms they move between in order, looping (empty = stays home)
+    roomName: string;
+    turns: number;                 // How long they stay at each stop
+  }>;
+  goals?: string[];                // What they're working toward
   dialogueStyle: 'formal' | 'casual' | 'cryptic' | 'aggressive' | 'friendly' | 'nervous';
   relationshipToPlayer: string;    // Initial relationship
+  initialAffinity?: number;        // -50 to 50, how warmly they start out toward the player
+  isHostile?: boolean;             // Attacks the player on sight (guard dogs, bandits, monsters)
+  health?: number;                 // 5-30, how much punishment they can take
+  combatSkill?: number;            // 8-20, difficulty to hit, talk down or escape them
 }
 
 export interface CharactersData {
@@ -199,6 +222,10 @@ export interface ResolutionOption {
   secondaryDimension?: OCEANDimension;
   personalityImplication: string;   // What choosing this reveals about the player
   outcomeNarrative: string;         // What happens when this choice is made
+  affinityChanges?: Array<{         // How characters caught up in the choice feel about it
+    characterName: string;
+    delta: number;                  // -20 to 20
+  }>;
 }
 
 export interface StoryBeatData {
@@ -298,6 +325,7 @@ export interface SecretFactData {
   revealTrigger: string;            // Condition for reveal
   linkedPuzzle?: string;            // Puzzle name that reveals this
   topics: string[];                 // Keywords for matching
+  knownBy?: string;                 // Character who knows it and can share it once they trust the player
 }
 
 export interface SecretFactsData {
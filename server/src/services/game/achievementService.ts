@@ -0,0 +1,221 @@
+/**
+ * Achievement Service
+ * Milestones earned while playing - a reason to explore a world fully
+ *
+ * After each turn the engine asks which achievements the world now
+ * satisfies (a natural 20 rolled, a puzzle solved unaided, a beat resolved,
+ * every hidden exit found...). Earned achievements are stored per story and
+ * rolled up per user. They are never taken back by UNDO or RESTORE.
+ */
+
+import { PrismaClient, Achievement } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+interface AchievementDefinition {
+  key: string;
+  name: string;
+  description: string;
+  isEarned: (storyId: string) => Promise<boolean>;
+}
+
+export interface AchievementDisplay {
+  key: string;
+  name: string;
+  description: string;
+  earnedAt: Date;
+}
+
+export interface UserAchievementRollup {
+  key: string;
+  name: string;
+  description: string;
+  timesEarned: number; // Stories it was earned in
+  firstEarnedAt: Date;
+}
+
+/**
+ * Check whether a beat was resolved through a dilemma testing a dimension
+ */
+function resolvedByDimension(dimension: string) {
+  return async (storyId: string): Promise<boolean> => {
+    const count = await prisma.dilemmaPoint.count({
+      where: {
+        storyId,
+        primaryDimension: dimension,
+        chosenOption: { in: ['A', 'B', 'C'] },
+        storyBeat: { isCompleted: true },
+      },
+    });
+    return count > 0;
+  };
+}
+
+const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    key: 'first_nat20',
+    name: 'Fortune Favours',
+    description: 'Roll a natural 20.',
+    isEarned: async (storyId) => (await prisma.skillCheck.count({ where: { storyId, isNat20: true } })) > 0,
+  },
+  {
+    key: 'unaided',
+    name: 'Unaided',
+    description: 'Complete an objective without asking for a hint.',
+    isEarned: async (storyId) => (await prisma.puzzle.count({
+      where: { storyId, status: 'completed', steps: { every: { hintsUsed: 0 } } },
+    })) > 0,
+  },
+  {
+    key: 'resolution_o',
+    name: 'Road Less Travelled',
+    description: 'Resolve a story milestone with a choice that tests your curiosity.',
+    isEarned: resolvedByDimension('O'),
+  },
+  {
+    key: 'resolution_c',
+    name: 'Measured Steps',
+    description: 'Resolve a story milestone with a choice that tests your discipline.',
+    isEarned: resolvedByDimension('C'),
+  },
+  {
+    key: 'resolution_e',
+    name: 'Centre Stage',
+    description: 'Resolve a story milestone with a choice that tests your boldness.',
+    isEarned: resolvedByDimension('E'),
+  },
+  {
+    key: 'resolution_a',
+    name: 'Open Hand',
+    description: 'Resolve a story milestone with a choice that tests your compassion.',
+    isEarned: resolvedByDimension('A'),
+  },
+  {
+    key: 'resolution_n',
+    name: 'Steady Nerves',
+    description: 'Resolve a story milestone with a choice that tests your composure.',
+    isEarned: resolvedByDimension('N'),
+  },
+  {
+    key: 'own_way',
+    name: 'My Own Way',
+    description: 'Resolve a story milestone with an answer none of the options offered.',
+    isEarned: async (storyId) => (await prisma.dilemmaPoint.count({
+      where: { storyId, chosenOption: 'OTHER', storyBeat: { isCompleted: true } },
+    })) > 0,
+  },
+  {
+    key: 'all_hidden_exits',
+    name: 'Secret Doors',
+    description: 'Find every hidden passage in the world.',
+    isEarned: async (storyId) => {
+      const rooms = await prisma.room.findMany({
+        where: { storyId },
+        select: { hiddenExits: true, discoveredExits: true },
+      });
+      const hidden = rooms.flatMap(r => ((r.hiddenExits as string[]) || []).map(d => ({ d, room: r })));
+      return hidden.length > 0 &&
+        hidden.every(({ d, room }) => ((room.discoveredExits as string[]) || []).includes(d));
+    },
+  },
+  {
+    key: 'just_in_time',
+    name: 'Just in Time',
+    description: 'Stop a countdown with a single turn to spare.',
+    isEarned: async (storyId) => (await prisma.timedEvent.count({
+      where: { storyId, isActive: false, isTriggered: false, turnsRemaining: { lte: 1 } },
+    })) > 0,
+  },
+];
+
+/**
+ * Award any achievements the story has newly earned
+ * Returns the ones earned just now.
+ */
+export async function checkAchievements(storyId: string): Promise<Achievement[]> {
+  const story = await prisma.story.findUnique({
+    where: { id: storyId },
+    select: { userId: true, achievements: { select: { key: true } } },
+  });
+  if (!story) return [];
+
+  const earnedKeys = new Set(story.achievements.map(a => a.key));
+  const earned: Achievement[] = [];
+
+  for (const definition of ACHIEVEMENTS) {
+    if (earnedKeys.has(definition.key)) continue;
+    if (!(await definition.isEarned(storyId))) continue;
+
+    earned.push(await prisma.achievement.create({
+      data: {
+        storyId,
+        userId: story.userId,
+        key: definition.key,
+        name: definition.name,
+        description: definition.description,
+      },
+    }));
+    console.log(`[Achievement] ${definition.name} earned in story ${storyId}`);
+  }
+
+  return earned;
+}
+
+/**
+ * Announce achievements just earned
+ */
+export function formatEarned(earned: Achievement[]): string | null {
+  if (earned.length === 0) return null;
+  return earned.map(a => `[Achievement unlocked: ${a.name} - ${a.description}]`).join('\n');
+}
+
+/**
+ * Get the achievements earned in a story, oldest first
+ */
+export async function getStoryAchievements(storyId: string): Promise<AchievementDisplay[]> {
+  const achievements = await prisma.achievement.findMany({
+    where: { storyId },
+    orderBy: { earnedAt: 'asc' },
+  });
+  return achievements.map(a => ({
+    key: a.key,
+    name: a.name,
+    description: a.description,
+    earnedAt: a.earnedAt,
+  }));
+}
+
+/**
+ * Roll up a user's achievements across every story they've played
+ */
+export async function getUserAchievements(userId: string): Promise<UserAchievementRollup[]> {
+  const achievements = await prisma.achievement.findMany({
+    where: { userId },
+    orderBy: { earnedAt: 'asc' },
+  });
+
+  const byKey = new Map<string, UserAchievementRollup>();
+  for (const a of achievements) {
+    const existing = byKey.get(a.key);
+    if (existing) {
+      existing.timesEarned++;
+    } else {
+      byKey.set(a.key, {
+        key: a.key,
+        name: a.name,
+        description: a.description,
+        timesEarned: 1,
+        firstEarnedAt: a.earnedAt,
+      });
+    }
+  }
+
+  return [...byKey.values()];
+}
+
+/**
+ * How many achievements there are to earn
+ */
+export function getAchievementCount(): number {
+  return ACHIEVEMENTS.length;
+}
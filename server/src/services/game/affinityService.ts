@@ -0,0 +1,119 @@
+/**
+ * Affinity Service
+ * How each character feels about the player
+ *
+ * Affinity runs from -100 (hostile) to 100 (devoted). Gifts, kindness, help
+ * and dilemma choices raise or lower it; it colours how characters talk, and
+ * characters only share their secrets once they trust the player enough.
+ */
+
+import { PrismaClient, Character, StoryFact } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export const AFFINITY_MIN = -100;
+export const AFFINITY_MAX = 100;
+
+// Characters share what they know at or above this score
+export const SECRET_TRUST_THRESHOLD = 30;
+
+// Bonus when the player's gift or help moves the story along
+export const HELPED_BONUS = 10;
+
+const AFFINITY_LABELS: Array<{ min: number; label: string }> = [
+  { min: 70, label: 'devoted' },
+  { min: 40, label: 'trusting' },
+  { min: 15, label: 'friendly' },
+  { min: -15, label: 'neutral' },
+  { min: -40, label: 'wary' },
+  { min: -70, label: 'distrustful' },
+  { min: AFFINITY_MIN, label: 'hostile' },
+];
+
+/**
+ * Describe an affinity score in a word
+ */
+export function describeAffinity(score: number): string {
+  return AFFINITY_LABELS.find(l => score >= l.min)?.label || 'hostile';
+}
+
+/**
+ * Change how a character feels about the player
+ * Also marks the character as met, so they show up in the sidebar.
+ */
+export async function adjustAffinity(
+  characterId: string,
+  delta: number,
+  reason: string
+): Promise<Character | null> {
+  const character = await prisma.character.findUnique({ where: { id: characterId } });
+  if (!character) return null;
+
+  const affinity = Math.max(AFFINITY_MIN, Math.min(AFFINITY_MAX, character.affinity + Math.round(delta)));
+
+  if (delta !== 0) {
+    console.log(`[Affinity] ${character.name}: ${character.affinity} -> ${affinity} (${reason})`);
+  }
+
+  return prisma.character.update({
+    where: { id: characterId },
+    data: {
+      affinity,
+      metPlayerAt: character.metPlayerAt ?? new Date(),
+    },
+  });
+}
+
+/**
+ * Change a character's affinity by name (for AI-written references like dilemma options)
+ */
+export async function adjustAffinityByName(
+  storyId: string,
+  name: string,
+  delta: number,
+  reason: string
+): Promise<Character | null> {
+  const character = await prisma.character.findFirst({
+    where: { storyId, name: { equals: name, mode: 'insensitive' } },
+  });
+  if (!character) return null;
+
+  return adjustAffinity(character.id, delta, reason);
+}
+
+// ============================================
+// Secrets
+// ============================================
+
+/**
+ * Get a character's unrevealed secrets, split by whether they trust the player enough to share
+ */
+export async function getCharacterSecrets(
+  character: Character
+): Promise<{ shareable: StoryFact[]; guarded: StoryFact[] }> {
+  const secrets = await prisma.storyFact.findMany({
+    where: {
+      storyId: character.storyId,
+      characterId: character.id,
+      isRevealed: false,
+    },
+    orderBy: { importance: 'desc' },
+  });
+
+  if (character.affinity >= SECRET_TRUST_THRESHOLD) {
+    return { shareable: secrets, guarded: [] };
+  }
+  return { shareable: [], guarded: secrets };
+}
+
+/**
+ * Mark secrets as revealed to the player
+ */
+export async function revealSecrets(factIds: string[]): Promise<void> {
+  if (factIds.length === 0) return;
+
+  await prisma.storyFact.updateMany({
+    where: { id: { in: factIds }, isRevealed: false },
+    data: { isRevealed: true, revealedAt: new Date() },
+  });
+}
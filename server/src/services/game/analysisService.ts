@@ -0,0 +1,190 @@
+/**
+ * Analysis Service
+ * The end-of-story personality reading - what the player's choices said about them
+ *
+ * Once a story is over, the running PersonalityScores and the key
+ * PersonalityEvents are gathered, each key moment is matched to the player's
+ * own words in the transcript, and the AI turns it all into an archetype,
+ * a summary and a growth narrative. The result is stored as StoryAnalysis
+ * and written only once per story - a reading that fails isn't stored, so
+ * the next request tries again.
+ */
+
+import { PrismaClient, Prisma, PersonalityEvent, StoryAnalysis } from '@prisma/client';
+import { generatePersonalityAnalysis } from '../ai/gameAI';
+
+const prisma = new PrismaClient();
+
+// Key moments quoted in the analysis
+const MAX_KEY_MOMENTS = 5;
+
+export type OceanDimension = 'openness' | 'conscientiousness' | 'extraversion' | 'agreeableness' | 'neuroticism';
+
+export interface FinalScores {
+  scores: Record<OceanDimension, number>;
+  confidence: Record<OceanDimension, number>; // Choices that informed each score
+}
+
+export interface KeyMoment {
+  eventId: string;
+  dimension: string;
+  delta: number;
+  quote: string;           // What the player typed, from the transcript
+  outcome: string | null;  // What happened next
+  context: string | null;  // The situation they were in
+  reasoning: string;       // What the choice signalled
+  insight?: string;        // What it revealed, from the analysis
+}
+
+const DIMENSION_CODES: Record<string, OceanDimension> = {
+  O: 'openness',
+  C: 'conscientiousness',
+  E: 'extraversion',
+  A: 'agreeableness',
+  N: 'neuroticism',
+};
+
+/**
+ * Read the running scores as plain numbers
+ */
+async function getFinalScores(storyId: string): Promise<FinalScores> {
+  const row = await prisma.personalityScores.findUnique({ where: { storyId } });
+
+  const scores = {} as Record<OceanDimension, number>;
+  const confidence = {} as Record<OceanDimension, number>;
+  for (const dimension of Object.values(DIMENSION_CODES)) {
+    scores[dimension] = row ? Math.round(Number(row[dimension])) : 50;
+    confidence[dimension] = row ? row[`${dimension}Confidence`] : 0;
+  }
+
+  return { scores, confidence };
+}
+
+/**
+ * Keep only the first paragraph of a narrator line
+ */
+function firstParagraph(text: string): string {
+  return text.split('\n\n')[0].trim();
+}
+
+/**
+ * Find the player's words for a personality event, and what followed them
+ */
+async function quoteFromTranscript(
+  storyId: string,
+  event: PersonalityEvent
+): Promise<{ quote: string; outcome: string | null }> {
+  const said = await prisma.gameTranscript.findFirst({
+    where: {
+      storyId,
+      speaker: 'player',
+      content: event.playerAction,
+      isUndone: false,
+      createdAt: { lte: event.createdAt },
+    },
+    orderBy: { turnNumber: 'desc' },
+  });
+  if (!said) return { quote: event.playerAction, outcome: null };
+
+  const reply = await prisma.gameTranscript.findFirst({
+    where: {
+      storyId,
+      turnNumber: { gt: said.turnNumber },
+      speaker: { not: 'player' },
+      messageType: { in: ['narrative', 'dialogue'] },
+      isUndone: false,
+    },
+    orderBy: { turnNumber: 'asc' },
+  });
+
+  return { quote: said.content, outcome: reply ? firstParagraph(reply.content) : null };
+}
+
+/**
+ * Pick the moments that defined the player, in the order they happened
+ * Flagged key moments come first; strong signals fill any gaps.
+ */
+async function findKeyMoments(storyId: string): Promise<KeyMoment[]> {
+  const events = await prisma.personalityEvent.findMany({
+    where: { storyId },
+    orderBy: [{ isKeyMoment: 'desc' }, { confidence: 'desc' }, { createdAt: 'asc' }],
+    take: MAX_KEY_MOMENTS,
+  });
+
+  events.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  const moments: KeyMoment[] = [];
+  for (const event of events) {
+    const { quote, outcome } = await quoteFromTranscript(storyId, event);
+    moments.push({
+      eventId: event.id,
+      dimension: DIMENSION_CODES[event.dimension] || event.dimension,
+      delta: Number(event.delta),
+      quote,
+      outcome,
+      context: event.choiceContext,
+      reasoning: event.reasoning,
+    });
+  }
+
+  return moments;
+}
+
+/**
+ * Describe how the story ended, for the analysis prompt
+ */
+function describeEnding(story: {
+  status: string;
+  endReason: string | null;
+  epitaph: string | null;
+  epilogue: string | null;
+}): string {
+  if (story.status === 'failed') {
+    return `The story ended in failure (${story.endReason || 'unknown'}) and the player accepted it.${story.epitaph ? ` Epitaph: ${story.epitaph}` : ''}`;
+  }
+  return story.epilogue || 'The player saw the story through to its end.';
+}
+
+/**
+ * Get a story's analysis, writing it the first time it's asked for
+ * Stories still being played have no analysis yet, nor do ones whose reading failed.
+ */
+export async function getOrCreateAnalysis(storyId: string): Promise<StoryAnalysis | null> {
+  const story = await prisma.story.findUnique({
+    where: { id: storyId },
+    select: { status: true, completedAt: true, endReason: true, epitaph: true, epilogue: true, storyAnalysis: true },
+  });
+  if (!story) return null;
+  if (story.storyAnalysis) return story.storyAnalysis;
+  if (!story.completedAt) return null;
+
+  const [finalScores, moments] = await Promise.all([getFinalScores(storyId), findKeyMoments(storyId)]);
+
+  const reading = await generatePersonalityAnalysis(storyId, {
+    scores: Object.fromEntries(
+      Object.values(DIMENSION_CODES).map(d => [d, { score: finalScores.scores[d], confidence: finalScores.confidence[d] }])
+    ),
+    moments: moments.map(m => ({ quote: m.quote, context: m.context, dimension: m.dimension, reasoning: m.reasoning })),
+    ending: describeEnding(story),
+  });
+  if (!reading) return null;
+
+  const keyMoments = moments.map((m, i) => ({ ...m, insight: reading.insights[i] }));
+  const data = {
+    finalScores: finalScores as unknown as Prisma.InputJsonValue,
+    personalitySummary: reading.personalitySummary,
+    keyMoments: keyMoments as unknown as Prisma.InputJsonValue,
+    archetype: reading.archetype,
+    growthNarrative: reading.growthNarrative,
+  };
+
+  // Two requests can race to write the first analysis - the first one wins
+  const analysis = await prisma.storyAnalysis.upsert({
+    where: { storyId },
+    create: { storyId, ...data },
+    update: {},
+  });
+
+  console.log(`[Analysis] Story ${storyId}: ${analysis.archetype}`);
+  return analysis;
+}
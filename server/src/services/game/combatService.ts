@@ -0,0 +1,464 @@
+/**
+ * Combat Service
+ * Turn-based encounters with hostile characters and creatures
+ *
+ * An encounter is the character in PlayerState.combatWith. Each player turn is
+ * one round: the player attacks, defends, flees or tries to talk the opponent
+ * down (all resolved with skill checks against the opponent's combatSkill),
+ * then the opponent strikes back. Wounds, flight and dropped belongings stay
+ * with the character after the fight.
+ */
+
+import { PrismaClient, Character, GameObject } from '@prisma/client';
+import * as skillService from './skillService';
+import * as objectService from './objectService';
+import * as roomService from './roomService';
+import * as travelService from './travelService';
+import * as affinityService from './affinityService';
+import * as conditionService from './conditionService';
+
+const prisma = new PrismaClient();
+
+export type CombatAction = 'attack' | 'defend' | 'flee' | 'talk';
+
+export type CombatOutcome = 'won' | 'opponent_fled' | 'talked_down' | 'escaped' | 'lost';
+
+export interface CombatRound {
+  lines: string[];                 // What happened, in order
+  checks: skillService.SkillCheckResult[];
+  outcome?: CombatOutcome;         // Set when the encounter ended this round
+  escapeDirection?: roomService.Direction; // Where the player got away to
+  personalitySignal?: {
+    dimension: string;
+    delta: number;
+    confidence: number;
+    reasoning: string;
+  };
+}
+
+// Opponents break and run once this badly hurt
+const FLEE_HEALTH_FRACTION = 1 / 3;
+
+// Bonus damage for a real weapon, and for anything swung in anger
+const WEAPON_DAMAGE = 2;
+const IMPROVISED_DAMAGE = 1;
+
+// A successful parry makes the opponent's next blow this much harder to land
+const DEFEND_BONUS = 5;
+
+/**
+ * Get the character the player is fighting
+ */
+export async function getOpponent(storyId: string): Promise<Character | null> {
+  const playerState = await prisma.playerState.findUnique({
+    where: { storyId },
+    select: { combatWith: true },
+  });
+
+  if (!playerState?.combatWith) {
+    return null;
+  }
+
+  return prisma.character.findUnique({
+    where: { id: playerState.combatWith },
+  });
+}
+
+/**
+ * Get the player's combat level (0 if they've never fought)
+ */
+async function getCombatLevel(storyId: string): Promise<number> {
+  const ability = await skillService.getAbility(storyId, 'Combat');
+  return ability ? Math.floor(Number(ability.level)) : 0;
+}
+
+/**
+ * Start a fight and roll initiative
+ * Returns whether the opponent acts before the player.
+ */
+export async function startEncounter(
+  storyId: string,
+  character: Character,
+  playerStarted: boolean
+): Promise<{ opponentFirst: boolean; line: string }> {
+  const playerInitiative = skillService.rollD20() + await getCombatLevel(storyId);
+  const opponentInitiative = skillService.rollD20() + (character.combatSkill - 10);
+  const opponentFirst = opponentInitiative > playerInitiative;
+
+  await prisma.playerState.update({
+    where: { storyId },
+    data: { combatWith: character.id, combatRound: 0, conversationWith: null },
+  });
+  await prisma.character.update({
+    where: { id: character.id },
+    data: { isHostile: true, stance: 'hostile' },
+  });
+
+  // Nobody forgives being attacked out of the blue
+  if (playerStarted && character.stance === 'calm') {
+    await affinityService.adjustAffinity(character.id, -30, 'attacked unprovoked');
+  } else {
+    await affinityService.adjustAffinity(character.id, 0, 'encounter');
+  }
+
+  const line = playerStarted
+    ? `You square up to ${character.name}.`
+    : `${character.name} comes at you!`;
+
+  return {
+    opponentFirst,
+    line: opponentFirst ? `${line} ${character.name} is quicker.` : line,
+  };
+}
+
+/**
+ * End the current encounter
+ */
+export async function endEncounter(storyId: string): Promise<void> {
+  await prisma.playerState.update({
+    where: { storyId },
+    data: { combatWith: null, combatRound: 0 },
+  });
+}
+
+/**
+ * Work out how much a weapon adds to a blow
+ */
+async function weaponDamage(storyId: string, weapon: GameObject | null): Promise<number> {
+  if (!weapon) return 0;
+  const skill = await skillService.findSkillForInput(weapon.name, storyId);
+  return skill === 'Combat' ? WEAPON_DAMAGE : IMPROVISED_DAMAGE;
+}
+
+/**
+ * Resolve the player's move in a round, then the opponent's reply
+ */
+export async function resolveRound(
+  storyId: string,
+  opponent: Character,
+  action: CombatAction,
+  options: { weapon?: GameObject | null; opponentFirst?: boolean; fleeDirection?: roomService.Direction } = {}
+): Promise<CombatRound> {
+  const round: CombatRound = { lines: [], checks: [] };
+  let defended = false;
+
+  await prisma.playerState.update({
+    where: { storyId },
+    data: { combatRound: { increment: 1 } },
+  });
+
+  // Losing initiative means taking a blow before acting
+  if (options.opponentFirst) {
+    const lost = await opponentAttacks(storyId, opponent, false, round);
+    if (lost) return round;
+  }
+
+  switch (action) {
+    case 'attack': {
+      const check = await skillService.performSkillCheck(
+        storyId,
+        'Combat',
+        opponent.combatSkill,
+        `attack ${opponent.name}${options.weapon ? ` with ${options.weapon.name}` : ''}`
+      );
+      round.checks.push(check);
+
+      if (check.success) {
+        let damage = 2 + await weaponDamage(storyId, options.weapon || null) + Math.floor(Math.max(0, check.margin) / 5);
+        if (check.isNat20) damage *= 2;
+        const ended = await woundOpponent(storyId, opponent, damage, round);
+        if (ended) return round;
+      } else {
+        round.lines.push(`You miss ${opponent.name}.`);
+      }
+      break;
+    }
+
+    case 'defend': {
+      const check = await skillService.performSkillCheck(
+        storyId,
+        'Combat',
+        opponent.combatSkill - 2,
+        `defend against ${opponent.name}`
+      );
+      round.checks.push(check);
+      defended = check.success;
+      round.lines.push(defended
+        ? `You brace yourself against ${opponent.name}'s next move.`
+        : 'You try to cover yourself, but leave an opening.');
+      break;
+    }
+
+    case 'flee': {
+      const direction = options.fleeDirection || await pickEscapeRoute(storyId);
+      if (!direction) {
+        round.lines.push('There is nowhere to run!');
+        break;
+      }
+
+      const check = await skillService.performSkillCheck(
+        storyId,
+        'Athletics',
+        opponent.combatSkill,
+        `flee from ${opponent.name}`
+      );
+      round.checks.push(check);
+
+      if (check.success) {
+        await endEncounter(storyId);
+        round.outcome = 'escaped';
+        round.escapeDirection = direction;
+        round.lines.push(`You break away from ${opponent.name} and run ${direction}!`);
+        round.personalitySignal = {
+          dimension: 'N',
+          delta: 3,
+          confidence: 4,
+          reasoning: `Fled from a fight with ${opponent.name}`,
+        };
+        return round;
+      }
+      round.lines.push(`${opponent.name} cuts you off before you can get away.`);
+      break;
+    }
+
+    case 'talk': {
+      // Wounded opponents and ones who like the player are easier to talk down
+      const isWounded = opponent.health < opponent.maxHealth / 2;
+      const difficulty = opponent.combatSkill + 3 - Math.floor(opponent.affinity / 10) - (isWounded ? 5 : 0);
+      const check = await skillService.performSkillCheck(
+        storyId,
+        'Persuasion',
+        difficulty,
+        `talk ${opponent.name} down`
+      );
+      round.checks.push(check);
+
+      round.personalitySignal = {
+        dimension: 'A',
+        delta: check.success ? 5 : 3,
+        confidence: 7,
+        reasoning: `Tried to talk ${opponent.name} down rather than fight`,
+      };
+
+      if (check.success) {
+        await prisma.character.update({
+          where: { id: opponent.id },
+          data: { isHostile: false, stance: 'yielded' },
+        });
+        await affinityService.adjustAffinity(opponent.id, 10, 'talked down');
+        await endEncounter(storyId);
+        round.outcome = 'talked_down';
+        round.lines.push(`${opponent.name} lowers their guard. The fight is over.`);
+        return round;
+      }
+      round.lines.push(`${opponent.name} isn't listening.`);
+      break;
+    }
+  }
+
+  if (!options.opponentFirst) {
+    await opponentAttacks(storyId, opponent, defended, round);
+  }
+
+  return round;
+}
+
+/**
+ * Take the opponent's swing at a player who is busy with something else
+ */
+export async function opponentTurn(storyId: string, opponent: Character): Promise<CombatRound> {
+  const round: CombatRound = { lines: [], checks: [] };
+  await opponentAttacks(storyId, opponent, false, round);
+  return round;
+}
+
+/**
+ * The opponent attacks the player
+ * Returns true if the player went down.
+ */
+async function opponentAttacks(
+  storyId: string,
+  opponent: Character,
+  defended: boolean,
+  round: CombatRound
+): Promise<boolean> {
+  const playerDefense = 10 + await getCombatLevel(storyId) + (defended ? DEFEND_BONUS : 0);
+  const roll = skillService.rollD20();
+  const hits = roll !== 1 && (roll === 20 || roll + (opponent.combatSkill - 10) >= playerDefense);
+
+  if (!hits) {
+    round.lines.push(defended
+      ? `You turn aside ${opponent.name}'s attack.`
+      : `${opponent.name} attacks, but misses.`);
+    return false;
+  }
+
+  const damage = 1 + Math.floor(roll / 6) + (roll === 20 ? 2 : 0);
+  const playerState = await conditionService.changeHealth(storyId, -damage);
+
+  round.lines.push(`${opponent.name} hits you! (Health: ${playerState.health}/${playerState.maxHealth})`);
+
+  // A vicious blow keeps hurting
+  if (roll === 20) {
+    await conditionService.applyCondition(storyId, 'bleeding');
+    round.lines.push('You are bleeding.');
+  }
+
+  if (playerState.health <= 0) {
+    await endEncounter(storyId);
+    round.outcome = 'lost';
+    round.lines.push(`You collapse. ${opponent.name} stands over you.`);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Damage the opponent, who may go down or break and run
+ * Returns true if the encounter is over.
+ */
+async function woundOpponent(
+  storyId: string,
+  opponent: Character,
+  damage: number,
+  round: CombatRound
+): Promise<boolean> {
+  const health = Math.max(0, opponent.health - damage);
+
+  if (health === 0) {
+    await prisma.character.update({
+      where: { id: opponent.id },
+      data: { health, isHostile: false, stance: 'defeated' },
+    });
+    round.lines.push(`You strike ${opponent.name} down!`);
+
+    if (opponent.currentRoomId) {
+      const dropped = await objectService.dropPossessions(opponent.id, opponent.currentRoomId);
+      if (dropped.length > 0) {
+        round.lines.push(`${opponent.name} drops ${dropped.map(o => `the ${o.name}`).join(', ')}.`);
+      }
+    }
+
+    await endEncounter(storyId);
+    round.outcome = 'won';
+    return true;
+  }
+
+  round.lines.push(`You hit ${opponent.name}!`);
+
+  // Badly hurt opponents run for it if they can
+  if (health <= opponent.maxHealth * FLEE_HEALTH_FRACTION && opponent.currentRoomId) {
+    const room = await prisma.room.findUnique({ where: { id: opponent.currentRoomId } });
+    const blocked = await travelService.getBlockedExits(storyId);
+    const exits = room
+      ? roomService.getExits(room).filter(exit => !blocked.has(`${room.id}:${exit.direction}`))
+      : [];
+
+    if (exits.length > 0) {
+      const exit = exits[Math.floor(Math.random() * exits.length)];
+      await prisma.character.update({
+        where: { id: opponent.id },
+        data: { health, stance: 'fled', currentRoomId: exit.roomId },
+      });
+      await endEncounter(storyId);
+      round.outcome = 'opponent_fled';
+      round.lines.push(`${opponent.name}, badly wounded, flees ${exit.direction}!`);
+      return true;
+    }
+  }
+
+  await prisma.character.update({
+    where: { id: opponent.id },
+    data: { health },
+  });
+  return false;
+}
+
+/**
+ * Pick a way out of the player's room for a panicked escape
+ */
+async function pickEscapeRoute(storyId: string): Promise<roomService.Direction | null> {
+  const playerState = await prisma.playerState.findUnique({ where: { storyId } });
+  if (!playerState) return null;
+
+  const room = await prisma.room.findUnique({ where: { id: playerState.currentRoomId } });
+  if (!room) return null;
+
+  const blocked = await travelService.getBlockedExits(storyId);
+  const exits = roomService.getVisibleExits(room)
+    .filter(exit => !blocked.has(`${room.id}:${exit.direction}`));
+
+  return exits.length > 0 ? exits[Math.floor(Math.random() * exits.length)].direction : null;
+}
+
+/**
+ * Check whether a hostile character in the room jumps the player
+ */
+export async function findAmbusher(storyId: string, roomId: string): Promise<Character | null> {
+  return prisma.character.findFirst({
+    where: { storyId, currentRoomId: roomId, isHostile: true, stance: 'hostile' },
+  });
+}
+
+/**
+ * Run the fight between commands
+ * An opponent strikes while the player does anything other than fight, and a
+ * hostile character jumps a player who walks in on them. roundBefore is the
+ * combat round before the command ran (null if no fight was on).
+ */
+export async function tickCombat(
+  storyId: string,
+  roomId: string,
+  roundBefore: number | null
+): Promise<{ narrative: string | null; opponentName?: string; playerDefeated: boolean }> {
+  const playerState = await prisma.playerState.findUnique({ where: { storyId } });
+  if (!playerState) {
+    return { narrative: null, playerDefeated: false };
+  }
+
+  if (playerState.combatWith) {
+    const opponent = await prisma.character.findUnique({ where: { id: playerState.combatWith } });
+    if (!opponent || opponent.currentRoomId !== roomId || opponent.stance !== 'hostile') {
+      await endEncounter(storyId);
+      return { narrative: null, playerDefeated: false };
+    }
+
+    // The player fought this turn - the opponent already answered
+    if (roundBefore === null || playerState.combatRound !== roundBefore) {
+      return { narrative: null, playerDefeated: false };
+    }
+
+    const round = await opponentTurn(storyId, opponent);
+    return {
+      narrative: formatRound(round),
+      opponentName: opponent.name,
+      playerDefeated: round.outcome === 'lost',
+    };
+  }
+
+  const ambusher = await findAmbusher(storyId, roomId);
+  if (!ambusher) {
+    return { narrative: null, playerDefeated: false };
+  }
+
+  const start = await startEncounter(storyId, ambusher, false);
+  if (!start.opponentFirst) {
+    return { narrative: start.line, opponentName: ambusher.name, playerDefeated: false };
+  }
+
+  const round = await opponentTurn(storyId, ambusher);
+  return {
+    narrative: `${start.line}\n${formatRound(round)}`,
+    opponentName: ambusher.name,
+    playerDefeated: round.outcome === 'lost',
+  };
+}
+
+/**
+ * Format a round for display - dice first, then what happened
+ */
+export function formatRound(round: CombatRound): string {
+  const parts = round.checks.map(check => skillService.formatSkillCheckResult(check));
+  parts.push(round.lines.join('\n'));
+  return parts.join('\n');
+}
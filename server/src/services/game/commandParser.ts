@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Character, GameObject } from '@prisma/client';
 import crypto from 'crypto';
 import * as roomService from './roomService';
 import * as objectService from './objectService';
@@ -7,29 +7,70 @@ import * as skillService from './skillService';
 import * as puzzleService from './puzzleService';
 import * as vehicleService from './vehicleService';
 import * as stateService from './stateService';
-import { processCommand as aiProcessCommand, generateSpectacularNarrative, extractAndCreateDiscoveredItems, extractAndCreateDiscoveredPassages, extractAndCreateTimedEvents, updateCharacterPresence } from '../ai/gameAI';
+import * as saveService from './saveService';
+import * as journalService from './journalService';
+import * as referentService from './referentService';
+import * as disambiguationService from './disambiguationService';
+import * as lightService from './lightService';
+import * as conversationService from './conversationService';
+import * as affinityService from './affinityService';
+import * as combatService from './combatService';
+import * as conditionService from './conditionService';
+import * as hintService from './hintService';
+import * as scoringService from './scoringService';
+import { processCommand as aiProcessCommand, generateSpectacularNarrative, generateCharacterReaction, generateCharacterDialogue, extractAndCreateDiscoveredItems, extractAndCreateDiscoveredPassages, extractAndCreateTimedEvents, updateCharacterPresence } from '../ai/gameAI';
 
 const prisma = new PrismaClient();
 
 export type CommandType =
   | 'GO'
+  | 'TRAVEL'
   | 'LOOK'
   | 'EXAMINE'
   | 'TAKE'
   | 'DROP'
+  | 'PUT'
+  | 'OPEN'
+  | 'CLOSE'
+  | 'LOCK'
+  | 'UNLOCK'
+  | 'LIGHT'
+  | 'EXTINGUISH'
   | 'USE'
+  | 'EAT'
+  | 'DRINK'
   | 'INVENTORY'
   | 'TALK'
+  | 'ASK'
+  | 'TELL'
+  | 'SAY'
+  | 'BYE'
+  | 'GIVE'
+  | 'SHOW'
+  | 'ATTACK'
+  | 'DEFEND'
+  | 'FLEE'
+  | 'PACIFY'
   | 'HELP'
   | 'BOARD'
   | 'DISEMBARK'
   | 'LAUNCH'
+  | 'SAVE'
+  | 'RESTORE'
+  | 'SAVES'
+  | 'UNDO'
+  | 'AGAIN'
+  | 'WAIT'
+  | 'EXITS'
+  | 'HINT'
+  | 'SCORE'
   | 'UNKNOWN';
 
 export interface ParsedCommand {
   type: CommandType;
   target?: string;
   modifier?: string;
+  preposition?: string; // "in"/"on" for PUT, "in" for LOOK IN
   rawInput: string;
 }
 
@@ -46,9 +87,13 @@ export interface CommandResult {
     choiceContext?: string;
     alternatives?: string[];
   };
-  // Vehicle-related menu options (for destination selection)
+  // Menu options (vehicle destinations, or objects to choose between)
   menuOptions?: Array<{ id: string; name: string }>;
-  menuType?: 'destination';  // Type of menu for UI handling
+  menuType?: 'destination' | 'disambiguation';  // Type of menu for UI handling
+  // Set when a character spoke - the transcript files the response as their dialogue
+  dialogue?: { characterId: string; characterName: string; playerLine: string };
+  // Set when the player was beaten in a fight
+  gameOver?: { reason: string; narrative: string };
 }
 
 // Direction aliases
@@ -70,8 +115,16 @@ const DIRECTION_ALIASES: Record<string, roomService.Direction> = {
 };
 
 // Command patterns
-const COMMAND_PATTERNS: Array<{ pattern: RegExp; type: CommandType; targetGroup?: number; modifierGroup?: number }> = [
+const COMMAND_PATTERNS: Array<{
+  pattern: RegExp;
+  type: CommandType;
+  targetGroup?: number;
+  modifierGroup?: number;
+  prepositionGroup?: number;
+}> = [
   // Movement
+  { pattern: /^(?:go|walk|head|run)\s+(?:back\s+)?to\s+(?:the\s+)?(.+)$/i, type: 'TRAVEL', targetGroup: 1 },
+  { pattern: /^return\s+to\s+(?:the\s+)?(.+)$/i, type: 'TRAVEL', targetGroup: 1 },
   { pattern: /^go\s+(.+)$/i, type: 'GO', targetGroup: 1 },
   { pattern: /^(north|south|east|west|up|down|n|s|e|w|u|d)$/i, type: 'GO', targetGroup: 1 },
   { pattern: /^walk\s+(.+)$/i, type: 'GO', targetGroup: 1 },
@@ -81,6 +134,7 @@ const COMMAND_PATTERNS: Array<{ pattern: RegExp; type: CommandType; targetGroup?
   { pattern: /^look$/i, type: 'LOOK' },
   { pattern: /^look\s+around$/i, type: 'LOOK' },
   { pattern: /^l$/i, type: 'LOOK' },
+  { pattern: /^(?:look|peer|peek)\s+(in|into|inside)\s+(?:the\s+)?(.+)$/i, type: 'EXAMINE', targetGroup: 2, prepositionGroup: 1 },
   { pattern: /^look\s+at\s+(.+)$/i, type: 'EXAMINE', targetGroup: 1 },
   { pattern: /^look\s+(.+)$/i, type: 'EXAMINE', targetGroup: 1 },
   { pattern: /^examine\s+(.+)$/i, type: 'EXAMINE', targetGroup: 1 },
@@ -89,10 +143,13 @@ const COMMAND_PATTERNS: Array<{ pattern: RegExp; type: CommandType; targetGroup?
   { pattern: /^search\s+(.+)$/i, type: 'EXAMINE', targetGroup: 1 },
 
   // Taking/Dropping
+  { pattern: /^(?:take|get|remove|grab)\s+(?:the\s+)?(.+?)\s+(?:from|out\s+of|off(?:\s+of)?)\s+(?:the\s+)?(.+)$/i, type: 'TAKE', targetGroup: 1, modifierGroup: 2 },
   { pattern: /^take\s+(.+)$/i, type: 'TAKE', targetGroup: 1 },
   { pattern: /^get\s+(.+)$/i, type: 'TAKE', targetGroup: 1 },
   { pattern: /^pick\s+up\s+(.+)$/i, type: 'TAKE', targetGroup: 1 },
   { pattern: /^grab\s+(.+)$/i, type: 'TAKE', targetGroup: 1 },
+  { pattern: /^(?:put|place|insert|stash)\s+(?:the\s+)?(.+?)\s+(in|into|inside)\s+(?:the\s+)?(.+)$/i, type: 'PUT', targetGroup: 1, modifierGroup: 3, prepositionGroup: 2 },
+  { pattern: /^(?:put|place|set|lay)\s+(?:the\s+)?(.+?)\s+(on|onto|upon)\s+(?:the\s+)?(.+)$/i, type: 'PUT', targetGroup: 1, modifierGroup: 3, prepositionGroup: 2 },
   { pattern: /^drop\s+(.+)$/i, type: 'DROP', targetGroup: 1 },
   { pattern: /^put\s+down\s+(.+)$/i, type: 'DROP', targetGroup: 1 },
   { pattern: /^leave\s+(.+)$/i, type: 'DROP', targetGroup: 1 },
@@ -101,23 +158,60 @@ const COMMAND_PATTERNS: Array<{ pattern: RegExp; type: CommandType; targetGroup?
   { pattern: /^use\s+(.+?)\s+on\s+(.+)$/i, type: 'USE', targetGroup: 1, modifierGroup: 2 },
   { pattern: /^use\s+(.+?)\s+with\s+(.+)$/i, type: 'USE', targetGroup: 1, modifierGroup: 2 },
   { pattern: /^use\s+(.+)$/i, type: 'USE', targetGroup: 1 },
-  { pattern: /^open\s+(.+)$/i, type: 'USE', targetGroup: 1 },
-  { pattern: /^close\s+(.+)$/i, type: 'USE', targetGroup: 1 },
-  { pattern: /^unlock\s+(.+)$/i, type: 'USE', targetGroup: 1 },
   { pattern: /^wear\s+(.+)$/i, type: 'USE', targetGroup: 1 },
   { pattern: /^put\s+on\s+(.+)$/i, type: 'USE', targetGroup: 1 },
   { pattern: /^equip\s+(.+)$/i, type: 'USE', targetGroup: 1 },
   { pattern: /^activate\s+(.+)$/i, type: 'USE', targetGroup: 1 },
   { pattern: /^read\s+(.+)$/i, type: 'USE', targetGroup: 1 },
-  { pattern: /^eat\s+(.+)$/i, type: 'USE', targetGroup: 1 },
-  { pattern: /^drink\s+(.+)$/i, type: 'USE', targetGroup: 1 },
+  { pattern: /^(?:eat|consume)\s+(?:the\s+)?(.+)$/i, type: 'EAT', targetGroup: 1 },
+  { pattern: /^drink\s+(?:from\s+)?(?:the\s+)?(.+)$/i, type: 'DRINK', targetGroup: 1 },
+
+  // Doors and locks
+  { pattern: /^open\s+(?:the\s+)?(.+?)\s+with\s+(?:the\s+)?(.+)$/i, type: 'OPEN', targetGroup: 1, modifierGroup: 2 },
+  { pattern: /^open\s+(?:the\s+)?(.+)$/i, type: 'OPEN', targetGroup: 1 },
+  { pattern: /^(?:close|shut)\s+(?:the\s+)?(.+)$/i, type: 'CLOSE', targetGroup: 1 },
+  { pattern: /^unlock\s+(?:the\s+)?(.+?)\s+with\s+(?:the\s+)?(.+)$/i, type: 'UNLOCK', targetGroup: 1, modifierGroup: 2 },
+  { pattern: /^unlock\s+(?:the\s+)?(.+)$/i, type: 'UNLOCK', targetGroup: 1 },
+  { pattern: /^lock\s+(?:the\s+)?(.+?)\s+with\s+(?:the\s+)?(.+)$/i, type: 'LOCK', targetGroup: 1, modifierGroup: 2 },
+  { pattern: /^lock\s+(?:the\s+)?(.+)$/i, type: 'LOCK', targetGroup: 1 },
+
+  // Light sources
+  { pattern: /^(?:light|ignite|kindle)\s+(?:the\s+)?(.+?)\s+with\s+(?:the\s+)?(.+)$/i, type: 'LIGHT', targetGroup: 1, modifierGroup: 2 },
+  { pattern: /^(?:light|ignite|kindle)\s+(?:the\s+)?(.+)$/i, type: 'LIGHT', targetGroup: 1 },
+  { pattern: /^(?:turn|switch)\s+on\s+(?:the\s+)?(.+)$/i, type: 'LIGHT', targetGroup: 1 },
+  { pattern: /^(?:turn|switch)\s+(?:the\s+)?(.+?)\s+on$/i, type: 'LIGHT', targetGroup: 1 },
+  { pattern: /^(?:extinguish|douse|snuff(?:\s+out)?|blow\s+out|put\s+out)\s+(?:the\s+)?(.+)$/i, type: 'EXTINGUISH', targetGroup: 1 },
+  { pattern: /^(?:turn|switch)\s+off\s+(?:the\s+)?(.+)$/i, type: 'EXTINGUISH', targetGroup: 1 },
+  { pattern: /^(?:turn|switch)\s+(?:the\s+)?(.+?)\s+off$/i, type: 'EXTINGUISH', targetGroup: 1 },
 
   // Inventory
   { pattern: /^inventory$/i, type: 'INVENTORY' },
   { pattern: /^inv$/i, type: 'INVENTORY' },
   { pattern: /^i$/i, type: 'INVENTORY' },
 
+  // Fighting
+  { pattern: /^(?:attack|hit|strike|fight|punch|kick|stab|kill)\s+(?:the\s+)?(.+?)\s+with\s+(?:the\s+)?(.+)$/i, type: 'ATTACK', targetGroup: 1, modifierGroup: 2 },
+  { pattern: /^(?:attack|hit|strike|fight|punch|kick|stab|kill)\s+(?:the\s+)?(.+)$/i, type: 'ATTACK', targetGroup: 1 },
+  { pattern: /^(?:attack|fight)$/i, type: 'ATTACK' },
+  { pattern: /^(?:defend|block|parry|dodge|guard)(?:\s+(?:yourself|myself))?$/i, type: 'DEFEND' },
+  { pattern: /^(?:flee|run\s+away|retreat|escape)$/i, type: 'FLEE' },
+  { pattern: /^(?:flee|run|retreat|escape)\s+(north|south|east|west|up|down|n|s|e|w|u|d)$/i, type: 'FLEE', targetGroup: 1 },
+  { pattern: /^talk\s+down\s+(?:the\s+)?(.+)$/i, type: 'PACIFY', targetGroup: 1 },
+  { pattern: /^talk\s+(?:the\s+)?(.+?)\s+down$/i, type: 'PACIFY', targetGroup: 1 },
+  { pattern: /^(?:calm|placate|pacify|soothe)\s+(?:down\s+)?(?:the\s+)?(.+)$/i, type: 'PACIFY', targetGroup: 1 },
+  { pattern: /^reason\s+with\s+(?:the\s+)?(.+)$/i, type: 'PACIFY', targetGroup: 1 },
+
   // Talking
+  { pattern: /^(?:give|hand|offer)\s+(?:the\s+)?(.+?)\s+to\s+(?:the\s+)?(.+)$/i, type: 'GIVE', targetGroup: 1, modifierGroup: 2 },
+  { pattern: /^show\s+(?:the\s+)?(.+?)\s+to\s+(?:the\s+)?(.+)$/i, type: 'SHOW', targetGroup: 1, modifierGroup: 2 },
+  { pattern: /^ask\s+about\s+(?:the\s+)?(.+)$/i, type: 'ASK', modifierGroup: 1 },
+  { pattern: /^ask\s+(?:the\s+)?(.+?)\s+about\s+(?:the\s+)?(.+)$/i, type: 'ASK', targetGroup: 1, modifierGroup: 2 },
+  { pattern: /^tell\s+about\s+(?:the\s+)?(.+)$/i, type: 'TELL', modifierGroup: 1 },
+  { pattern: /^tell\s+(?:the\s+)?(.+?)\s+about\s+(?:the\s+)?(.+)$/i, type: 'TELL', targetGroup: 1, modifierGroup: 2 },
+  { pattern: /^say\s+"?(.+?)"?\s+to\s+(?:the\s+)?(\w[\w\s]*)$/i, type: 'SAY', targetGroup: 2, modifierGroup: 1 },
+  { pattern: /^say\s+"?(.+?)"?$/i, type: 'SAY', modifierGroup: 1 },
+  { pattern: /^"(.+?)"?$/i, type: 'SAY', modifierGroup: 1 },
+  { pattern: /^(?:bye|goodbye|farewell|end\s+conversation)$/i, type: 'BYE' },
   { pattern: /^talk\s+to\s+(.+)$/i, type: 'TALK', targetGroup: 1 },
   { pattern: /^talk\s+(.+)$/i, type: 'TALK', targetGroup: 1 },
   { pattern: /^speak\s+to\s+(.+)$/i, type: 'TALK', targetGroup: 1 },
@@ -150,24 +244,98 @@ const COMMAND_PATTERNS: Array<{ pattern: RegExp; type: CommandType; targetGroup?
   { pattern: /^travel\s+to\s+(.+)$/i, type: 'LAUNCH', targetGroup: 1 },
   { pattern: /^go\s+back$/i, type: 'LAUNCH', targetGroup: 0 },  // Special: go back to previous location
 
+  // Repeating, waiting, orientation
+  { pattern: /^(?:again|g)$/i, type: 'AGAIN' },
+  { pattern: /^(?:wait|z|rest)$/i, type: 'WAIT' },
+  { pattern: /^(?:exits|list\s+exits)$/i, type: 'EXITS' },
+
+  // Save points
+  { pattern: /^save$/i, type: 'SAVE' },
+  { pattern: /^save\s+game$/i, type: 'SAVE' },
+  { pattern: /^save\s+(?:game\s+)?as\s+(.+)$/i, type: 'SAVE', targetGroup: 1 },
+  { pattern: /^save\s+game\s+(.+)$/i, type: 'SAVE', targetGroup: 1 },
+  { pattern: /^restore$/i, type: 'RESTORE' },
+  { pattern: /^restore\s+game$/i, type: 'RESTORE' },
+  { pattern: /^restore\s+(?:game\s+)?(.+?)\s+as\s+(.+)$/i, type: 'RESTORE', targetGroup: 1, modifierGroup: 2 },
+  { pattern: /^restore\s+(?:game\s+)?(.+)$/i, type: 'RESTORE', targetGroup: 1 },
+  { pattern: /^load\s+(?:game\s+)?(.+)$/i, type: 'RESTORE', targetGroup: 1 },
+  { pattern: /^saves$/i, type: 'SAVES' },
+  { pattern: /^(?:list|show)\s+saves$/i, type: 'SAVES' },
+  { pattern: /^undo$/i, type: 'UNDO' },
+
   // Help
   { pattern: /^help$/i, type: 'HELP' },
   { pattern: /^\?$/i, type: 'HELP' },
+  { pattern: /^(?:hint|hints|i'?m\s+stuck)$/i, type: 'HINT' },
+  { pattern: /^(?:score|points)$/i, type: 'SCORE' },
 ];
 
+// Where each object command looks for its target
+const OBJECT_SCOPES: Partial<Record<CommandType, 'room' | 'inventory' | 'both'>> = {
+  EXAMINE: 'both',
+  TAKE: 'room',
+  DROP: 'inventory',
+  PUT: 'both',
+  OPEN: 'both',
+  CLOSE: 'both',
+  LOCK: 'both',
+  UNLOCK: 'both',
+  LIGHT: 'both',
+  EXTINGUISH: 'both',
+  GIVE: 'inventory',
+  SHOW: 'inventory',
+  USE: 'both',
+  EAT: 'both',
+  DRINK: 'both',
+};
+
+// Commands that act on the game itself rather than the world - no time passes
+const META_COMMANDS: CommandType[] = ['SAVE', 'RESTORE', 'SAVES', 'UNDO', 'AGAIN', 'EXITS', 'HINT', 'SCORE'];
+
+// Moves in a fight - the opponent answers these itself, anything else gives them a free swing
+const COMBAT_COMMANDS: CommandType[] = ['ATTACK', 'DEFEND', 'FLEE', 'PACIFY'];
+
+// Commands that need to see (or find) things, refused in a dark room
+const DARKNESS_BLOCKED_COMMANDS: CommandType[] = ['EXAMINE', 'TAKE'];
+
+// How often feeling for an exit in the dark goes wrong
+const DARK_STUMBLE_CHANCE = 0.33;
+
+/**
+ * Check whether a command is a meta command (no turn is taken)
+ */
+export function isMetaCommand(command: ParsedCommand): boolean {
+  return META_COMMANDS.includes(command.type);
+}
+
+/**
+ * Check whether a command is a move in a fight
+ */
+export function isCombatCommand(command: ParsedCommand): boolean {
+  return COMBAT_COMMANDS.includes(command.type);
+}
+
+/**
+ * Collapse preposition variants ("into", "onto", "upon") to "in" or "on"
+ */
+function normalizePreposition(preposition: string): string {
+  return /^(on|onto|upon)$/i.test(preposition) ? 'on' : 'in';
+}
+
 /**
  * Parse a raw player input into a structured command
  */
 export function parseCommand(input: string): ParsedCommand {
   const trimmed = input.trim();
 
-  for (const { pattern, type, targetGroup, modifierGroup } of COMMAND_PATTERNS) {
+  for (const { pattern, type, targetGroup, modifierGroup, prepositionGroup } of COMMAND_PATTERNS) {
     const match = trimmed.match(pattern);
     if (match) {
       return {
         type,
         target: targetGroup ? match[targetGroup]?.toLowerCase() : undefined,
         modifier: modifierGroup ? match[modifierGroup]?.toLowerCase() : undefined,
+        preposition: prepositionGroup ? normalizePreposition(match[prepositionGroup]) : undefined,
         rawInput: trimmed,
       };
     }
@@ -179,6 +347,65 @@ export function parseCommand(input: string): ParsedCommand {
   };
 }
 
+// Separators that always start a new clause: periods, semicolons, "then"
+const HARD_SEPARATORS = /(?:\.(?!\d)|;)+|\bthen\b/i;
+
+// Separators that only split when the next clause is itself a command,
+// so "take salt and pepper" stays whole but "take lamp and go north" splits
+const SOFT_SEPARATORS = /(\s*,\s*|\s+and\s+)/i;
+
+// Speech is said whole - its punctuation doesn't separate commands
+const SPEECH_INPUT = /^(?:say\s|")/i;
+
+/**
+ * Strip dangling conjunctions and commas from the edges of a clause
+ */
+function trimClause(clause: string): string {
+  return clause
+    .trim()
+    .replace(/^(?:,|and\s+)\s*/i, '')
+    .replace(/\s*(?:,|\s+and)$/i, '')
+    .trim();
+}
+
+/**
+ * Split compound input into separate commands
+ * e.g., "open chest. take key, then n" -> ["open chest", "take key", "n"]
+ */
+export function splitCommands(input: string): string[] {
+  if (SPEECH_INPUT.test(input.trim())) {
+    return [input.trim()];
+  }
+
+  const clauses: string[] = [];
+
+  for (const sentence of input.split(HARD_SEPARATORS)) {
+    const cleaned = trimClause(sentence);
+    if (!cleaned) continue;
+
+    // Odd indices hold the separators themselves (capture group)
+    const parts = cleaned.split(SOFT_SEPARATORS);
+    let current = parts[0];
+
+    for (let i = 1; i < parts.length; i += 2) {
+      const separator = parts[i];
+      const next = parts[i + 1]?.trim() || '';
+
+      if (next && parseCommand(next).type !== 'UNKNOWN') {
+        clauses.push(trimClause(current));
+        current = next;
+      } else {
+        current += separator + next;
+      }
+    }
+
+    const last = trimClause(current);
+    if (last) clauses.push(last);
+  }
+
+  return clauses.filter(c => c.length > 0);
+}
+
 /**
  * Generate a hash for caching command responses
  */
@@ -261,6 +488,53 @@ export async function executeCommand(
     };
   }
 
+  // Resolve pronouns ("take it", "talk to her") against recently mentioned things
+  if (!isMetaCommand(command)) {
+    const resolution = await referentService.resolvePronouns(storyId, command);
+
+    if (resolution.unresolved) {
+      return {
+        success: false,
+        response: `I'm not sure what "${resolution.unresolved}" refers to.`,
+      };
+    }
+
+    // "them" over several objects runs the command once per object
+    if (resolution.commands.length > 1) {
+      const results: CommandResult[] = [];
+      for (const resolved of resolution.commands) {
+        results.push(await executeCommand(storyId, resolved));
+      }
+      return {
+        success: results.every(r => r.success),
+        response: results.map(r => r.response).join('\n\n'),
+        roomChanged: results.some(r => r.roomChanged),
+        newRoomId: results.find(r => r.newRoomId)?.newRoomId,
+        personalitySignal: results.find(r => r.personalitySignal)?.personalitySignal,
+      };
+    }
+
+    command = resolution.commands[0];
+  }
+
+  // In a conversation, ASK ABOUT / TELL ABOUT / SAY go to whoever the player is talking with
+  command = await applyConversation(storyId, currentRoom, command);
+
+  // In a fight, walking off is fleeing and talking is trying to talk the opponent down
+  command = await applyCombat(storyId, currentRoom, command);
+
+  // Nothing can be seen or found by touch in the dark
+  const darkness = await checkDarkness(storyId, currentRoom, command);
+  if (darkness) {
+    return darkness;
+  }
+
+  // Ask "Which do you mean...?" rather than guessing between similar objects
+  const question = await checkAmbiguity(storyId, currentRoom, command);
+  if (question) {
+    return question;
+  }
+
   // Handle different command types
   switch (command.type) {
     case 'GO':
@@ -278,15 +552,54 @@ export async function executeCommand(
     case 'DROP':
       return handleDrop(storyId, currentRoom, command);
 
+    case 'PUT':
+      return handlePut(storyId, currentRoom, command);
+
     case 'INVENTORY':
       return handleInventory(storyId);
 
+    case 'OPEN':
+    case 'CLOSE':
+    case 'LOCK':
+    case 'UNLOCK':
+      return handleOpenable(storyId, currentRoom, command);
+
+    case 'LIGHT':
+    case 'EXTINGUISH':
+      return handleLight(storyId, currentRoom, command);
+
     case 'USE':
       return handleUse(storyId, currentRoom, command);
 
+    case 'EAT':
+    case 'DRINK':
+      return handleConsume(storyId, currentRoom, command);
+
     case 'TALK':
+    case 'ASK':
+    case 'TELL':
+    case 'SAY':
       return handleTalk(storyId, currentRoom, command);
 
+    case 'BYE':
+      return handleBye(storyId);
+
+    case 'GIVE':
+    case 'SHOW':
+      return handleGiveOrShow(storyId, currentRoom, command);
+
+    case 'ATTACK':
+      return handleAttack(storyId, currentRoom, command);
+
+    case 'DEFEND':
+      return handleDefend(storyId, currentRoom, command);
+
+    case 'FLEE':
+      return handleFlee(storyId, currentRoom, command);
+
+    case 'PACIFY':
+      return handlePacify(storyId, currentRoom, command);
+
     case 'BOARD':
       return handleBoard(storyId, currentRoom, command);
 
@@ -299,6 +612,46 @@ export async function executeCommand(
     case 'HELP':
       return handleHelp();
 
+    case 'HINT':
+      return {
+        success: true,
+        response: await hintService.getHint(storyId, currentRoom),
+      };
+
+    case 'SCORE':
+      return {
+        success: true,
+        response: scoringService.formatScore(await scoringService.getScoreBreakdown(storyId)),
+      };
+
+    case 'SAVE':
+      return handleSave(storyId, command);
+
+    case 'RESTORE':
+      return handleRestore(storyId, command);
+
+    case 'SAVES':
+      return handleSaves(storyId, playerState.activeBranch);
+
+    case 'UNDO':
+      return handleUndo(storyId);
+
+    case 'AGAIN':
+      // The game engine swaps AGAIN for the last command; reaching here means there wasn't one
+      return {
+        success: false,
+        response: "You haven't done anything to repeat yet.",
+      };
+
+    case 'WAIT':
+      return {
+        success: true,
+        response: command.rawInput.toLowerCase() === 'rest' ? 'You rest for a while.' : 'Time passes.',
+      };
+
+    case 'EXITS':
+      return handleExits(storyId, currentRoom);
+
     case 'UNKNOWN':
     default:
       // Fall through to AI processing
@@ -306,6 +659,167 @@ export async function executeCommand(
   }
 }
 
+/**
+ * Point conversation commands without a character at the current partner
+ * Also ends the conversation if the partner is no longer here.
+ */
+async function applyConversation(
+  storyId: string,
+  currentRoom: roomService.RoomWithDetails,
+  command: ParsedCommand
+): Promise<ParsedCommand> {
+  const partner = await conversationService.getConversationPartner(storyId);
+  if (!partner) return command;
+
+  if (!currentRoom.charactersHere.some(char => char.id === partner.id)) {
+    await conversationService.endConversation(storyId);
+    return command;
+  }
+
+  const isConversational = command.type === 'ASK' || command.type === 'TELL' || command.type === 'SAY';
+  if (!isConversational) return command;
+
+  // "say hello to my friend" names nobody here - it's all said to the partner
+  if (isAddressedHere(currentRoom, command)) return command;
+
+  const modifier = command.type === 'SAY' ? spokenWords(command) : command.modifier;
+  return { ...command, target: partner.name.toLowerCase(), modifier };
+}
+
+/**
+ * Whether a command's target is a character in the room
+ */
+function isAddressedHere(currentRoom: roomService.RoomWithDetails, command: ParsedCommand): boolean {
+  return !!command.target &&
+    currentRoom.charactersHere.some(char => char.name.toLowerCase().includes(command.target!));
+}
+
+/**
+ * The whole of what a SAY command says, "to ..." and all
+ */
+function spokenWords(command: ParsedCommand): string | undefined {
+  if (!command.target) return command.modifier;
+  return command.rawInput.replace(/^say\s+/i, '').replace(/^"|"$/g, '');
+}
+
+/**
+ * Turn commands into fight moves while an encounter is on
+ * Also ends the encounter if the opponent is gone or has stopped fighting.
+ */
+async function applyCombat(
+  storyId: string,
+  currentRoom: roomService.RoomWithDetails,
+  command: ParsedCommand
+): Promise<ParsedCommand> {
+  const opponent = await combatService.getOpponent(storyId);
+  if (!opponent) return command;
+
+  if (opponent.currentRoomId !== currentRoom.id || opponent.stance !== 'hostile') {
+    await combatService.endEncounter(storyId);
+    return command;
+  }
+
+  const name = opponent.name.toLowerCase();
+  const meansOpponent = !command.target || name.includes(command.target);
+
+  switch (command.type) {
+    case 'GO':
+      return { ...command, type: 'FLEE' };
+    case 'ATTACK':
+    case 'PACIFY':
+      return meansOpponent ? { ...command, target: name } : command;
+    case 'TALK':
+    case 'ASK':
+    case 'TELL':
+    case 'SAY':
+      return meansOpponent ? { ...command, type: 'PACIFY', target: name } : command;
+    default:
+      return command;
+  }
+}
+
+/**
+ * Refuse commands that need sight when the room is dark
+ * Returns the refusal, or null if the command can go ahead.
+ */
+async function checkDarkness(
+  storyId: string,
+  currentRoom: roomService.RoomWithDetails,
+  command: ParsedCommand
+): Promise<CommandResult | null> {
+  if (!DARKNESS_BLOCKED_COMMANDS.includes(command.type)) return null;
+  if (await lightService.isRoomLit(storyId, currentRoom.id)) return null;
+
+  return {
+    success: false,
+    response: command.type === 'TAKE'
+      ? 'You grope around in the darkness but can\'t find anything.'
+      : 'It\'s too dark to see.',
+  };
+}
+
+/**
+ * Describe the room when a light comes on or goes out
+ * Returns null when the player could see before and still can (or still can't).
+ */
+async function lightingChangeNarrative(
+  storyId: string,
+  roomId: string,
+  wasLit: boolean
+): Promise<string | null> {
+  const isLit = await lightService.isRoomLit(storyId, roomId);
+  if (isLit === wasLit) return null;
+
+  if (!isLit) {
+    return 'It is now pitch dark.';
+  }
+
+  const room = await roomService.getRoom(roomId);
+  if (!room) return null;
+  const description = room.description || 'You look around but see nothing remarkable.';
+  return roomService.formatRoomDescription(room, description, false);
+}
+
+/**
+ * Check whether a command's target or modifier could mean several objects
+ * Returns a disambiguation prompt, or null if the command is unambiguous.
+ */
+async function checkAmbiguity(
+  storyId: string,
+  currentRoom: roomService.RoomWithDetails,
+  command: ParsedCommand
+): Promise<CommandResult | null> {
+  // TAKE ... FROM can reach into a carried container
+  const scope = command.type === 'TAKE' && command.modifier ? 'both' : OBJECT_SCOPES[command.type];
+  if (!scope) return null;
+
+  const inventory = scope === 'room' ? [] : await objectService.getInventory(storyId);
+  const roomObjects = scope === 'inventory' ? [] : currentRoom.gameObjects;
+  const candidates = [...roomObjects, ...inventory];
+
+  // GIVE/SHOW name a character, not an object, as their modifier
+  const terms = command.type === 'GIVE' || command.type === 'SHOW'
+    ? [command.target]
+    : [command.target, command.modifier];
+
+  for (const term of terms) {
+    if (!term) continue;
+
+    const matches = objectService.findBestMatches(candidates, term);
+    if (matches.length > 1) {
+      const response = await disambiguationService.askWhich(storyId, command.rawInput, term, matches);
+      return {
+        success: false,
+        response,
+        menuOptions: matches.map(m => ({ id: m.id, name: m.name })),
+        menuType: 'disambiguation',
+      };
+    }
+  }
+
+  return null;
+}
+
 /**
  * Handle GO command
  */
@@ -341,20 +855,43 @@ async function handleGo(
     };
   }
 
+  // Feeling for the way out of a dark room doesn't always work
+  if (!await lightService.isRoomLit(storyId, currentRoom.id) && Math.random() < DARK_STUMBLE_CHANCE) {
+    return {
+      success: false,
+      response: 'You stumble about in the darkness, bark your shin on something, and lose your bearings.',
+    };
+  }
+
+  // A door in the way has to be open - unlocked doors are opened on the way through
+  let doorNote = '';
+  const door = await roomService.getDoorForExit(currentRoom, direction);
+  if (door && !door.isOpen) {
+    if (door.isLocked) {
+      return {
+        success: false,
+        response: `The ${door.name} is locked.`,
+      };
+    }
+    const opened = await objectService.openObject(storyId, door.name, door.roomId!, [door]);
+    if (!opened.success) {
+      return opened;
+    }
+    doorNote = `(You open the ${door.name}.)\n\n`;
+  }
+
   // Move to the new room
   const { room: newRoom, isFirstVisit, description } = await roomService.moveToRoom(storyId, targetRoomId);
 
-  const formattedDescription = roomService.formatRoomDescription(newRoom, description, isFirstVisit);
+  const isLit = await lightService.isRoomLit(storyId, newRoom.id);
+  const formattedDescription = roomService.formatRoomDescription(newRoom, description, isFirstVisit, isLit);
 
   // Extract and create any items mentioned in the room description
-  // This is especially important on first visit
+  // This is especially important on first visit (nothing can be noticed in the dark)
   const existingNames = newRoom.gameObjects?.map((o: { name: string }) => o.name) || [];
-  const newItems = await extractAndCreateDiscoveredItems(
-    storyId,
-    newRoom.id,
-    description,
-    existingNames
-  );
+  const newItems = isLit
+    ? await extractAndCreateDiscoveredItems(storyId, newRoom.id, description, existingNames)
+    : [];
 
   // Check for puzzles that auto-discover on room entry
   const roomDiscovery = await puzzleService.discoverPuzzlesOnRoomEntry(storyId, newRoom.id);
@@ -370,10 +907,11 @@ async function handleGo(
   );
 
   // If new items were discovered from the description, append a notice
-  let response = formattedDescription;
+  let response = doorNote + formattedDescription;
   if (newItems.length > 0) {
     const itemNames = newItems.map(i => i.name).join(', ');
     response += `\n\n[You notice: ${itemNames}]`;
+    await referentService.rememberObjects(storyId, newItems);
   }
 
   // Append any puzzle discovery narratives
@@ -394,6 +932,54 @@ async function handleGo(
   };
 }
 
+/**
+ * Handle EXITS command - visible exits, naming rooms already visited
+ */
+async function handleExits(
+  storyId: string,
+  currentRoom: roomService.RoomWithDetails
+): Promise<CommandResult> {
+  if (!await lightService.isRoomLit(storyId, currentRoom.id)) {
+    return {
+      success: false,
+      response: 'It\'s too dark to make out the way out.',
+    };
+  }
+
+  const exits = roomService.getVisibleExits(currentRoom);
+
+  if (exits.length === 0) {
+    return {
+      success: true,
+      response: 'There are no obvious exits.',
+    };
+  }
+
+  const targetRooms = await prisma.room.findMany({
+    where: { id: { in: exits.map(e => e.roomId!) } },
+    select: { id: true, name: true, visitCount: true, firstVisitedAt: true },
+  });
+  const roomsById = new Map(targetRooms.map(r => [r.id, r]));
+
+  const lines: string[] = [];
+  for (const exit of exits) {
+    const target = roomsById.get(exit.roomId!);
+    const visited = target && (target.visitCount > 0 || target.firstVisitedAt !== null);
+    let line = `  ${exit.direction.toUpperCase()}: ${visited ? target.name : 'unexplored'}`;
+
+    const door = await roomService.getDoorForExit(currentRoom, exit.direction);
+    if (door && !door.isOpen) {
+      line += ` (through the ${door.isLocked ? 'locked ' : 'closed '}${door.name})`;
+    }
+    lines.push(line);
+  }
+
+  return {
+    success: true,
+    response: `Exits:\n${lines.join('\n')}`,
+  };
+}
+
 /**
  * Handle LOOK command
  */
@@ -402,6 +988,14 @@ async function handleLook(
   currentRoom: roomService.RoomWithDetails
 ): Promise<CommandResult> {
   const description = currentRoom.description || 'You look around but see nothing remarkable.';
+
+  if (!await lightService.isRoomLit(storyId, currentRoom.id)) {
+    return {
+      success: true,
+      response: roomService.formatRoomDescription(currentRoom, description, false, false),
+    };
+  }
+
   const formattedDescription = roomService.formatRoomDescription(currentRoom, description, false);
 
   // Extract and create any items mentioned in the room description
@@ -419,6 +1013,7 @@ async function handleLook(
   if (newItems.length > 0) {
     const itemNames = newItems.map(i => i.name).join(', ');
     response += `\n\n[You notice: ${itemNames}]`;
+    await referentService.rememberObjects(storyId, newItems);
   }
 
   return {
@@ -442,6 +1037,14 @@ async function handleExamine(
     };
   }
 
+  if (command.preposition === 'in') {
+    const result = await objectService.lookInContainer(storyId, currentRoom.id, command.target);
+    if (result.object) {
+      await referentService.rememberObjects(storyId, [result.object]);
+    }
+    return result;
+  }
+
   // Look for matching object in room or inventory (includes synonym matching)
   const inventory = await objectService.getInventory(storyId);
   const allObjects = [...currentRoom.gameObjects, ...inventory];
@@ -450,6 +1053,8 @@ async function handleExamine(
   );
 
   if (matchingObject) {
+    await referentService.rememberObjects(storyId, [matchingObject]);
+
     // Build description including any discovered details
     const objectState = (matchingObject.state as Record<string, unknown>) || {};
     const discoveredDetails = objectState.discoveredDetails as string[] || [];
@@ -472,7 +1077,15 @@ async function handleExamine(
   );
 
   if (matchingCharacter) {
-    const response = matchingCharacter.description || `You look at ${matchingCharacter.name}.`;
+    await referentService.rememberCharacter(storyId, matchingCharacter);
+
+    let response = matchingCharacter.description || `You look at ${matchingCharacter.name}.`;
+
+    const possessions = await objectService.getPossessions(matchingCharacter.id);
+    if (possessions.length > 0) {
+      response += `\n\n${matchingCharacter.name} is holding: ${possessions.map(o => o.name).join(', ')}`;
+    }
+
     return {
       success: true,
       response,
@@ -497,6 +1110,7 @@ async function handleExamine(
 
   // Update character presence based on AI response
   await updateCharacterPresence(storyId, currentRoom.id, aiResult.response);
+  await rememberReferents(storyId, currentRoom.id, aiResult.response, newItems);
 
   // If items were discovered, append a hint to the response
   let response = aiResult.response;
@@ -527,7 +1141,12 @@ async function handleTake(
     };
   }
 
-  const result = await objectService.takeObject(storyId, currentRoom.id, command.target);
+  const result = command.modifier
+    ? await objectService.takeFromContainer(storyId, currentRoom.id, command.target, command.modifier)
+    : await objectService.takeObject(storyId, currentRoom.id, command.target);
+  if (result.object) {
+    await referentService.rememberObjects(storyId, [result.object]);
+  }
 
   // Append discovery narratives to response if any
   if (result.discoveryNarratives && result.discoveryNarratives.length > 0) {
@@ -568,6 +1187,9 @@ async function handleDrop(
   }
 
   const result = await objectService.dropObject(storyId, currentRoom.id, command.target);
+  if (result.object) {
+    await referentService.rememberObjects(storyId, [result.object]);
+  }
 
   // Check if this action completes any puzzle steps
   const inventory = await objectService.getInventory(storyId);
@@ -588,52 +1210,118 @@ async function handleDrop(
 }
 
 /**
- * Handle INVENTORY command
- */
-async function handleInventory(storyId: string): Promise<CommandResult> {
-  const inventory = await objectService.getInventory(storyId);
-
-  if (inventory.length === 0) {
-    return {
-      success: true,
-      response: 'You are not carrying anything.',
-    };
-  }
-
-  const itemList = inventory.map(obj => `  - ${obj.name}`).join('\n');
-  return {
-    success: true,
-    response: `You are carrying:\n${itemList}`,
-  };
-}
-
-/**
- * Handle USE command
+ * Handle PUT command - place an object in or on a container
  */
-async function handleUse(
+async function handlePut(
   storyId: string,
   currentRoom: roomService.RoomWithDetails,
   command: ParsedCommand
 ): Promise<CommandResult> {
-  if (!command.target) {
+  if (!command.target || !command.modifier) {
     return {
       success: false,
-      response: 'Use what? Try: USE [object] or USE [object] ON [target]',
+      response: 'Put what where? Try: PUT [object] IN [container] or PUT [object] ON [surface]',
     };
   }
 
-  // Find the target object in room or inventory (includes synonym matching)
-  const inventory = await objectService.getInventory(storyId);
-  const allObjects = [...currentRoom.gameObjects, ...inventory];
-  const matchingObject = allObjects.find(
-    obj => objectMatchesName(obj, command.target!)
+  const preposition = command.preposition === 'on' ? 'on' : 'in';
+  const result = await objectService.putObject(
+    storyId,
+    currentRoom.id,
+    command.target,
+    command.modifier,
+    preposition
   );
 
-  // Use AI for creative use/read/open etc.
-  const aiResult = await aiProcessCommand(storyId, command.rawInput, {
-    room: currentRoom,
-    objects: currentRoom.gameObjects,
-    characters: currentRoom.charactersHere,
+  if (!result.object) {
+    return result;
+  }
+
+  await referentService.rememberObjects(storyId, [result.object]);
+
+  // Check puzzle steps against the real names ("place the gem in the idol"),
+  // counting the placed object as still in hand for item requirements
+  const container = await objectService.findObjectInRoom(currentRoom.id, command.modifier) ||
+    await objectService.findObjectInInventory(storyId, command.modifier);
+  const action = `put ${displayObjectName(result.object.name)} ${preposition} ${displayObjectName(container?.name || command.modifier)}`;
+
+  const inventory = await objectService.getInventory(storyId);
+  const inventoryNames = [...inventory.map(obj => obj.name), result.object.name];
+  const puzzleCompletion = await puzzleService.checkPuzzleStepCompletion(
+    storyId,
+    action,
+    currentRoom.id,
+    inventoryNames
+  );
+
+  if (puzzleCompletion.narratives.length > 0) {
+    result.response += '\n\n' + puzzleCompletion.narratives.join('\n');
+  }
+
+  return result;
+}
+
+/**
+ * Strip the discovered-item marker from an object name
+ */
+function displayObjectName(name: string): string {
+  return name.replace(/^\*/, '');
+}
+
+/**
+ * Handle INVENTORY command
+ */
+async function handleInventory(storyId: string): Promise<CommandResult> {
+  const inventory = await objectService.getInventory(storyId);
+
+  if (inventory.length === 0) {
+    return {
+      success: true,
+      response: 'You are not carrying anything.',
+    };
+  }
+
+  // Carried containers list what's in them
+  const itemList = inventory
+    .filter(obj => !obj.containedInId)
+    .map(obj => `  - ${objectService.describeWithContents(obj, inventory)}${obj.isLit ? ' (lit)' : ''}`)
+    .join('\n');
+  return {
+    success: true,
+    response: `You are carrying:\n${itemList}`,
+  };
+}
+
+/**
+ * Handle USE command
+ */
+async function handleUse(
+  storyId: string,
+  currentRoom: roomService.RoomWithDetails,
+  command: ParsedCommand
+): Promise<CommandResult> {
+  if (!command.target) {
+    return {
+      success: false,
+      response: 'Use what? Try: USE [object] or USE [object] ON [target]',
+    };
+  }
+
+  // Find the target object in room or inventory (includes synonym matching)
+  const inventory = await objectService.getInventory(storyId);
+  const allObjects = [...currentRoom.gameObjects, ...inventory];
+  const matchingObject = allObjects.find(
+    obj => objectMatchesName(obj, command.target!)
+  );
+
+  // Throwing a switch or starting a generator can light (or darken) the room
+  const wasLit = await lightService.isRoomLit(storyId, currentRoom.id);
+
+  // Use AI for creative use/read/open etc.
+  const aiResult = await aiProcessCommand(storyId, command.rawInput, {
+    room: currentRoom,
+    objects: currentRoom.gameObjects,
+    characters: currentRoom.charactersHere,
   });
 
   // If we found a matching object and the AI revealed new information, save it
@@ -701,6 +1389,10 @@ async function handleUse(
 
   // Update character presence based on AI response
   await updateCharacterPresence(storyId, currentRoom.id, aiResult.response);
+  await rememberReferents(storyId, currentRoom.id, aiResult.response, newItems);
+  if (matchingObject) {
+    await referentService.rememberObjects(storyId, [matchingObject]);
+  }
 
   // Check if a new passage/room was revealed (e.g., opening a door)
   const newPassage = await extractAndCreateDiscoveredPassages(
@@ -765,6 +1457,11 @@ async function handleUse(
     response += '\n\n' + puzzleCompletion.narratives.join('\n');
   }
 
+  const lightingChange = await lightingChangeNarrative(storyId, currentRoom.id, wasLit);
+  if (lightingChange) {
+    response += '\n\n' + lightingChange;
+  }
+
   return {
     success: true,
     response,
@@ -773,17 +1470,229 @@ async function handleUse(
 }
 
 /**
- * Handle TALK command
+ * Handle OPEN, CLOSE, LOCK and UNLOCK for containers and doors
+ * Anything else ("open the curtains", "open your mind") goes to the AI like USE.
+ */
+async function handleOpenable(
+  storyId: string,
+  currentRoom: roomService.RoomWithDetails,
+  command: ParsedCommand
+): Promise<CommandResult> {
+  if (!command.target) {
+    const verb = command.type.charAt(0) + command.type.slice(1).toLowerCase();
+    return {
+      success: false,
+      response: `${verb} what? Try: ${command.type} [object]`,
+    };
+  }
+
+  const nearbyDoors = await roomService.getDoorsFacingRoom(currentRoom);
+  const object = await objectService.findOpenable(storyId, currentRoom.id, command.target, nearbyDoors);
+  if (!object) {
+    return handleUse(storyId, currentRoom, command);
+  }
+
+  let result: objectService.CommandResult;
+  switch (command.type) {
+    case 'OPEN':
+      // "open the door with the brass key" unlocks it first
+      if (object.isLocked && command.modifier) {
+        const unlocked = await objectService.unlockObject(
+          storyId, command.target, currentRoom.id, command.modifier, nearbyDoors
+        );
+        if (!unlocked.success) {
+          return unlocked;
+        }
+        const opened = await objectService.openObject(storyId, command.target, currentRoom.id, nearbyDoors);
+        result = { ...opened, response: `${unlocked.response} ${opened.response}` };
+      } else {
+        result = await objectService.openObject(storyId, command.target, currentRoom.id, nearbyDoors);
+      }
+      break;
+    case 'CLOSE':
+      result = await objectService.closeObject(storyId, command.target, currentRoom.id, nearbyDoors);
+      break;
+    case 'LOCK':
+      result = await objectService.lockObject(
+        storyId, command.target, currentRoom.id, command.modifier, nearbyDoors
+      );
+      break;
+    default:
+      result = await objectService.unlockObject(
+        storyId, command.target, currentRoom.id, command.modifier, nearbyDoors
+      );
+  }
+
+  if (!result.success) {
+    return result;
+  }
+
+  if (result.object) {
+    await referentService.rememberObjects(storyId, [result.object]);
+  }
+
+  // Opening things can reveal hidden exits, discover puzzles or complete steps
+  const exitDiscovery = await puzzleService.discoverHiddenExits(storyId, currentRoom.id, command.rawInput);
+  const actionDiscovery = await puzzleService.discoverPuzzlesFromAction(storyId, command.rawInput);
+  const inventory = await objectService.getInventory(storyId);
+  const puzzleCompletion = await puzzleService.checkPuzzleStepCompletion(
+    storyId,
+    command.rawInput,
+    currentRoom.id,
+    inventory.map(obj => obj.name)
+  );
+
+  const narratives = [
+    ...exitDiscovery.narratives,
+    ...actionDiscovery.narratives,
+    ...puzzleCompletion.narratives,
+  ];
+  if (narratives.length > 0) {
+    result.response += '\n\n' + narratives.join('\n');
+  }
+
+  return {
+    success: true,
+    response: result.response,
+  };
+}
+
+/**
+ * Handle LIGHT and EXTINGUISH for lamps, torches and candles
+ * Anything else ("turn on the generator") goes to the AI like USE.
+ */
+async function handleLight(
+  storyId: string,
+  currentRoom: roomService.RoomWithDetails,
+  command: ParsedCommand
+): Promise<CommandResult> {
+  if (!command.target) {
+    return {
+      success: false,
+      response: command.type === 'LIGHT'
+        ? 'Light what? Try: LIGHT [lamp, torch, candle...]'
+        : 'Put out what? Try: EXTINGUISH [light]',
+    };
+  }
+
+  const lightSource = await objectService.findLightSource(storyId, currentRoom.id, command.target);
+  if (!lightSource) {
+    return handleUse(storyId, currentRoom, command);
+  }
+
+  const wasLit = await lightService.isRoomLit(storyId, currentRoom.id);
+  const result = command.type === 'LIGHT'
+    ? await objectService.lightObject(storyId, command.target, currentRoom.id, command.modifier)
+    : await objectService.extinguishObject(storyId, command.target, currentRoom.id);
+
+  if (!result.success) {
+    return result;
+  }
+
+  if (result.object) {
+    await referentService.rememberObjects(storyId, [result.object]);
+  }
+
+  const inventory = await objectService.getInventory(storyId);
+  const puzzleCompletion = await puzzleService.checkPuzzleStepCompletion(
+    storyId,
+    command.rawInput,
+    currentRoom.id,
+    inventory.map(obj => obj.name)
+  );
+
+  let response = result.response;
+  const lightingChange = await lightingChangeNarrative(storyId, currentRoom.id, wasLit);
+  if (lightingChange) {
+    response += '\n\n' + lightingChange;
+  }
+  if (puzzleCompletion.narratives.length > 0) {
+    response += '\n\n' + puzzleCompletion.narratives.join('\n');
+  }
+
+  return {
+    success: true,
+    response,
+  };
+}
+
+/**
+ * Handle EAT and DRINK - food and drink ease hunger and fatigue, remedies cure
+ * Anything that isn't obviously food or drink is left to the AI, like USE.
+ */
+async function handleConsume(
+  storyId: string,
+  currentRoom: roomService.RoomWithDetails,
+  command: ParsedCommand
+): Promise<CommandResult> {
+  const action = command.type === 'EAT' ? 'eat' : 'drink';
+
+  if (!command.target) {
+    return {
+      success: false,
+      response: `${action === 'eat' ? 'Eat' : 'Drink'} what?`,
+    };
+  }
+
+  const object = await objectService.findObjectInInventory(storyId, command.target) ||
+    await objectService.findObjectInRoom(currentRoom.id, command.target);
+
+  if (!object || !conditionService.isConsumable(object, action)) {
+    return handleUse(storyId, currentRoom, command);
+  }
+
+  const effects = await conditionService.consume(storyId, object, action);
+  if (conditionService.isUsedUp(object, action)) {
+    await objectService.removeObject(object.id);
+  }
+
+  let response = action === 'eat'
+    ? `You eat the ${displayObjectName(object.name)}.`
+    : `You drink from the ${displayObjectName(object.name)}.`;
+  if (effects.length > 0) {
+    response += '\n' + effects.join('\n');
+  }
+
+  const inventory = await objectService.getInventory(storyId);
+  const puzzleCompletion = await puzzleService.checkPuzzleStepCompletion(
+    storyId,
+    command.rawInput,
+    currentRoom.id,
+    [...inventory.map(obj => obj.name), object.name]
+  );
+  if (puzzleCompletion.narratives.length > 0) {
+    response += '\n\n' + puzzleCompletion.narratives.join('\n');
+  }
+
+  return {
+    success: true,
+    response,
+  };
+}
+
+/**
+ * Handle TALK, ASK, TELL and SAY - a turn of conversation with a character
+ * TALK TO starts a conversation; after that ASK ABOUT / TELL ABOUT need no name.
  */
 async function handleTalk(
   storyId: string,
   currentRoom: roomService.RoomWithDetails,
   command: ParsedCommand
 ): Promise<CommandResult> {
+  // "say we should go to the market" - a trailing "to ..." is only an addressee if they're here
+  if (command.type === 'SAY' && command.target && !isAddressedHere(currentRoom, command)) {
+    command = { ...command, target: undefined, modifier: spokenWords(command) };
+  }
+
   if (!command.target) {
+    const usage: Partial<Record<CommandType, string>> = {
+      ASK: 'Ask whom? Try: ASK [character] ABOUT [topic]',
+      TELL: 'Tell whom? Try: TELL [character] ABOUT [topic]',
+      SAY: 'Say it to whom? Try: TALK TO [character] first',
+    };
     return {
       success: false,
-      response: 'Talk to whom? Try: TALK TO [character name]',
+      response: usage[command.type] || 'Talk to whom? Try: TALK TO [character name]',
     };
   }
 
@@ -799,22 +1708,60 @@ async function handleTalk(
     };
   }
 
-  // Use AI for dialogue
-  const aiResult = await aiProcessCommand(storyId, command.rawInput, {
-    room: currentRoom,
-    objects: currentRoom.gameObjects,
-    characters: currentRoom.charactersHere,
+  if ((command.type === 'ASK' || command.type === 'TELL') && !command.modifier) {
+    return {
+      success: false,
+      response: `${command.type === 'ASK' ? 'Ask' : 'Tell'} ${matchingCharacter.name} about what?`,
+    };
+  }
+
+  const character = await prisma.character.findUnique({
+    where: { id: matchingCharacter.id },
   });
+  if (!character) {
+    return {
+      success: false,
+      response: `You don't see anyone called "${command.target}" here.`,
+    };
+  }
+
+  // Talking to someone new ends the current conversation
+  const partner = await conversationService.getConversationPartner(storyId);
+  if (partner?.id !== character.id) {
+    if (partner) {
+      await conversationService.endConversation(storyId);
+    }
+    await conversationService.startConversation(storyId, character.id);
+  }
+
+  const kind = command.type === 'TALK' ? 'greet' : command.type.toLowerCase() as 'ask' | 'tell' | 'say';
+  const { memory, recentLines } = await conversationService.getDialogueContext(character);
+  const { shareable, guarded } = await affinityService.getCharacterSecrets(character);
+  const aiResult = await generateCharacterDialogue(storyId, character, currentRoom, {
+    kind,
+    topic: command.modifier,
+    memory,
+    recentLines,
+    shareableSecrets: shareable.map(fact => fact.content),
+    guardedHints: guarded.map(fact => fact.deflectionHint).filter((hint): hint is string => !!hint),
+  });
+  await conversationService.updateMemory(character);
+
+  // How the exchange landed, and anything the character let slip
+  await affinityService.adjustAffinity(character.id, aiResult.affinityDelta, `talk: ${command.rawInput}`);
+  await affinityService.revealSecrets(aiResult.revealedSecrets.map(i => shareable[i].id));
 
   // Update character presence based on AI response (in case other characters are mentioned)
   await updateCharacterPresence(storyId, currentRoom.id, aiResult.response);
+  await referentService.rememberFromText(storyId, currentRoom.id, aiResult.response);
+  await referentService.rememberCharacter(storyId, matchingCharacter);
 
   // Check if this conversation completes any puzzle steps
   const inventory = await objectService.getInventory(storyId);
   const inventoryNames = inventory.map(obj => obj.name);
   const puzzleCompletion = await puzzleService.checkPuzzleStepCompletion(
     storyId,
-    command.rawInput,
+    command.type === 'TALK' ? command.rawInput : `talk to ${character.name} about ${command.modifier}`,
     currentRoom.id,
     inventoryNames
   );
@@ -829,9 +1776,359 @@ async function handleTalk(
     success: true,
     response,
     personalitySignal: aiResult.personalitySignal,
+    dialogue: {
+      characterId: character.id,
+      characterName: character.name,
+      playerLine: command.type === 'TALK' ? '(approaches)' : command.rawInput,
+    },
+  };
+}
+
+/**
+ * Handle BYE - leave the current conversation
+ */
+async function handleBye(storyId: string): Promise<CommandResult> {
+  const partner = await conversationService.endConversation(storyId);
+
+  if (!partner) {
+    return {
+      success: false,
+      response: "You aren't talking to anyone.",
+    };
+  }
+
+  return {
+    success: true,
+    response: `You take your leave of ${partner.name}.`,
   };
 }
 
+/**
+ * Handle GIVE and SHOW - hand an item to a character, or just let them see it
+ */
+async function handleGiveOrShow(
+  storyId: string,
+  currentRoom: roomService.RoomWithDetails,
+  command: ParsedCommand
+): Promise<CommandResult> {
+  const verb = command.type === 'GIVE' ? 'give' : 'show';
+
+  if (!command.target || !command.modifier) {
+    return {
+      success: false,
+      response: `${verb === 'give' ? 'Give' : 'Show'} what to whom? Try: ${command.type} [item] TO [character]`,
+    };
+  }
+
+  const matchingCharacter = currentRoom.charactersHere.find(
+    char => char.name.toLowerCase().includes(command.modifier!)
+  );
+
+  if (!matchingCharacter) {
+    return {
+      success: false,
+      response: `You don't see anyone called "${command.modifier}" here.`,
+    };
+  }
+
+  const item = await objectService.findObjectInInventory(storyId, command.target);
+  if (!item) {
+    return {
+      success: false,
+      response: `You're not carrying any "${command.target}".`,
+    };
+  }
+
+  const character = await prisma.character.findUnique({
+    where: { id: matchingCharacter.id },
+  });
+  if (!character) {
+    throw new Error(`Character ${matchingCharacter.id} not found`);
+  }
+
+  let response = '';
+  if (verb === 'give') {
+    const given = await objectService.giveObject(storyId, item.name, character);
+    if (!given.success) {
+      return given;
+    }
+    response = given.response + '\n\n';
+  }
+
+  const reaction = await generateCharacterReaction(storyId, verb, character, item, currentRoom);
+  response += reaction.response;
+  await affinityService.adjustAffinity(character.id, reaction.affinityDelta, `${verb} ${item.name}`);
+
+  await referentService.rememberObjects(storyId, [item]);
+  await referentService.rememberCharacter(storyId, character);
+
+  // Character steps ("bring the oil can to the keeper") complete on the handoff itself;
+  // a given item counts as still in hand for ordinary item requirements
+  const inventory = await objectService.getInventory(storyId);
+  const inventoryNames = [...inventory.map(obj => obj.name), ...(verb === 'give' ? [item.name] : [])];
+  const puzzleCompletion = await puzzleService.checkPuzzleStepCompletion(
+    storyId,
+    `${verb} ${displayObjectName(item.name)} to ${character.name}`,
+    currentRoom.id,
+    inventoryNames,
+    { characterName: character.name, itemNames: [item.name] }
+  );
+
+  if (puzzleCompletion.narratives.length > 0) {
+    response += '\n\n' + puzzleCompletion.narratives.join('\n');
+  }
+
+  // Bringing a character what they needed wins their gratitude
+  if (puzzleCompletion.completedSteps.length > 0) {
+    await affinityService.adjustAffinity(character.id, affinityService.HELPED_BONUS, 'helped');
+  }
+
+  return {
+    success: true,
+    response,
+    personalitySignal: reaction.personalitySignal,
+  };
+}
+
+/**
+ * Find a character in the room by name, with their full record
+ */
+async function findCharacterHere(
+  currentRoom: roomService.RoomWithDetails,
+  name: string
+) {
+  const match = currentRoom.charactersHere.find(
+    char => char.name.toLowerCase().includes(name)
+  );
+  if (!match) return null;
+
+  return prisma.character.findUnique({ where: { id: match.id } });
+}
+
+/**
+ * Handle ATTACK - start a fight, or land a blow in one
+ * Attacking things rather than people is left to the AI.
+ */
+async function handleAttack(
+  storyId: string,
+  currentRoom: roomService.RoomWithDetails,
+  command: ParsedCommand
+): Promise<CommandResult> {
+  if (!command.target) {
+    return {
+      success: false,
+      response: 'Attack whom? Try: ATTACK [character]',
+    };
+  }
+
+  const character = await findCharacterHere(currentRoom, command.target);
+  if (!character) {
+    return handleUnknown(storyId, currentRoom, command);
+  }
+
+  if (character.stance === 'defeated') {
+    return {
+      success: false,
+      response: `${character.name} is in no state to fight.`,
+    };
+  }
+
+  let weapon = null;
+  if (command.modifier) {
+    weapon = await objectService.findObjectInInventory(storyId, command.modifier);
+    if (!weapon) {
+      return {
+        success: false,
+        response: `You're not carrying any "${command.modifier}".`,
+      };
+    }
+  }
+
+  return fightRound(storyId, currentRoom, character, 'attack', command, { weapon });
+}
+
+/**
+ * Handle DEFEND - brace against the opponent's next blow
+ */
+async function handleDefend(
+  storyId: string,
+  currentRoom: roomService.RoomWithDetails,
+  command: ParsedCommand
+): Promise<CommandResult> {
+  const opponent = await combatService.getOpponent(storyId);
+  if (!opponent) {
+    return handleUnknown(storyId, currentRoom, command);
+  }
+
+  return fightRound(storyId, currentRoom, opponent, 'defend', command);
+}
+
+/**
+ * Handle FLEE - try to get away from a fight, in a chosen direction or any way out
+ * Outside a fight, RUN NORTH is just going north.
+ */
+async function handleFlee(
+  storyId: string,
+  currentRoom: roomService.RoomWithDetails,
+  command: ParsedCommand
+): Promise<CommandResult> {
+  const opponent = await combatService.getOpponent(storyId);
+  if (!opponent) {
+    return command.target
+      ? handleGo(storyId, currentRoom, { ...command, type: 'GO' })
+      : handleUnknown(storyId, currentRoom, command);
+  }
+
+  let fleeDirection: roomService.Direction | undefined;
+  if (command.target) {
+    fleeDirection = DIRECTION_ALIASES[command.target];
+    if (!fleeDirection || !roomService.getRoomInDirection(currentRoom, fleeDirection)) {
+      return {
+        success: false,
+        response: `You can't go ${command.target} from here.`,
+      };
+    }
+    const door = await roomService.getDoorForExit(currentRoom, fleeDirection);
+    if (door?.isLocked) {
+      return {
+        success: false,
+        response: `The ${door.name} is locked.`,
+      };
+    }
+  }
+
+  return fightRound(storyId, currentRoom, opponent, 'flee', command, { fleeDirection });
+}
+
+/**
+ * Handle PACIFY - try to talk a hostile character out of fighting
+ */
+async function handlePacify(
+  storyId: string,
+  currentRoom: roomService.RoomWithDetails,
+  command: ParsedCommand
+): Promise<CommandResult> {
+  if (!command.target) {
+    return {
+      success: false,
+      response: 'Talk whom down? Try: TALK [character] DOWN',
+    };
+  }
+
+  const character = await findCharacterHere(currentRoom, command.target);
+  if (!character) {
+    return {
+      success: false,
+      response: `You don't see anyone called "${command.target}" here.`,
+    };
+  }
+
+  // Nothing to talk down - it's just a conversation
+  if (!character.isHostile || character.stance !== 'hostile') {
+    return handleTalk(storyId, currentRoom, { ...command, type: 'TALK' });
+  }
+
+  return fightRound(storyId, currentRoom, character, 'talk', command);
+}
+
+/**
+ * Play one round of a fight, starting the encounter if need be
+ */
+async function fightRound(
+  storyId: string,
+  currentRoom: roomService.RoomWithDetails,
+  character: Character,
+  action: combatService.CombatAction,
+  command: ParsedCommand,
+  options: { weapon?: GameObject | null; fleeDirection?: roomService.Direction } = {}
+): Promise<CommandResult> {
+  let response = '';
+  let opponentFirst = false;
+  let personalitySignal: CommandResult['personalitySignal'];
+
+  const opponent = await combatService.getOpponent(storyId);
+  if (opponent?.id !== character.id) {
+    if (action === 'attack' && character.stance === 'calm') {
+      personalitySignal = {
+        dimension: 'A',
+        delta: -5,
+        confidence: 6,
+        reasoning: `Attacked ${character.name} unprovoked`,
+      };
+    }
+    const start = await combatService.startEncounter(storyId, character, true);
+    response = start.line + '\n';
+    opponentFirst = start.opponentFirst;
+    character = (await prisma.character.findUnique({ where: { id: character.id } })) || character;
+  }
+
+  const round = await combatService.resolveRound(storyId, character, action, { ...options, opponentFirst });
+  response += combatService.formatRound(round);
+  personalitySignal = round.personalitySignal || personalitySignal;
+
+  await referentService.rememberCharacter(storyId, character);
+
+  // Got away - carry on into the next room
+  if (round.outcome === 'escaped' && round.escapeDirection) {
+    const escape = await handleGo(storyId, currentRoom, {
+      type: 'GO',
+      target: round.escapeDirection,
+      rawInput: command.rawInput,
+    });
+    return {
+      ...escape,
+      response: response + '\n\n' + escape.response,
+      personalitySignal,
+    };
+  }
+
+  if (round.outcome === 'lost') {
+    return {
+      success: false,
+      response,
+      personalitySignal,
+      gameOver: {
+        reason: 'combat',
+        narrative: `You were beaten by ${character.name}.`,
+      },
+    };
+  }
+
+  // Overcoming an opponent may be what a puzzle step asks for
+  if (round.outcome === 'won' || round.outcome === 'opponent_fled' || round.outcome === 'talked_down') {
+    const inventory = await objectService.getInventory(storyId);
+    const puzzleCompletion = await puzzleService.checkPuzzleStepCompletion(
+      storyId,
+      `${round.outcome === 'talked_down' ? 'talk down' : 'defeat'} ${character.name}`,
+      currentRoom.id,
+      inventory.map(obj => obj.name)
+    );
+    if (puzzleCompletion.narratives.length > 0) {
+      response += '\n\n' + puzzleCompletion.narratives.join('\n');
+    }
+  }
+
+  return {
+    success: true,
+    response,
+    personalitySignal,
+  };
+}
+
+/**
+ * Remember what an AI narrative mentioned, so the player can follow up with "it" or "her"
+ * Items announced with [You notice: ...] win over things merely named in the text.
+ */
+async function rememberReferents(
+  storyId: string,
+  roomId: string,
+  narrative: string,
+  newItems: Array<{ name: string }>
+): Promise<void> {
+  await referentService.rememberFromText(storyId, roomId, narrative);
+  await referentService.rememberObjects(storyId, newItems);
+}
+
 /**
  * Handle HELP command
  */
@@ -839,12 +2136,23 @@ function handleHelp(): CommandResult {
   const helpText = `
 AVAILABLE COMMANDS:
   Movement:    GO [direction], NORTH, SOUTH, EAST, WEST, UP, DOWN (or N, S, E, W, U, D)
+               GO TO [place], RETURN TO [place] - walk back to anywhere you've been
   Looking:     LOOK, LOOK AT [object], EXAMINE [object] (or X)
   Objects:     TAKE [object], DROP [object], USE [object], USE [object] ON [target]
-  Inventory:   INVENTORY (or I)
-  Characters:  TALK TO [character]
+  Containers:  PUT [object] IN/ON [container], TAKE [object] FROM [container], LOOK IN [container]
+  Doors:       OPEN, CLOSE, LOCK [object], UNLOCK [object] WITH [key]
+  Light:       LIGHT [lamp], TURN ON/OFF [light], EXTINGUISH [light]
+  Inventory:   INVENTORY (or I), EAT [food], DRINK [drink]
+  Characters:  TALK TO [character], GIVE [item] TO [character], SHOW [item] TO [character]
+  Fighting:    ATTACK [character] (WITH [weapon]), DEFEND, FLEE, TALK [character] DOWN
+  Talking:     ASK [character] ABOUT [topic], TELL [character] ABOUT [topic], SAY [words], BYE
+               (once talking, ASK ABOUT [topic] or "[words]" is enough)
   Vehicles:    BOARD [vehicle], DISEMBARK, LAUNCH TO [destination]
-  Help:        HELP (or ?)
+  Time:        WAIT (or Z, REST), AGAIN (or G) to repeat your last command, EXITS
+  Saving:      SAVE, SAVE AS [name], RESTORE [name], RESTORE [name] AS [new branch], SAVES, UNDO
+  Help:        HELP (or ?), HINT - ask again for a clearer hint, SCORE
+
+Chain commands with periods, commas, AND or THEN (e.g., TAKE LAMP AND GO NORTH).
 
 You can also try other actions - Anything goes. There are no limits in this realm.
   `.trim();
@@ -855,6 +2163,120 @@ You can also try other actions - Anything goes. There are no limits in this real
   };
 }
 
+/**
+ * Handle SAVE command - checkpoint the world under a name
+ */
+async function handleSave(
+  storyId: string,
+  command: ParsedCommand
+): Promise<CommandResult> {
+  const savePoint = await saveService.createSavePoint(storyId, command.target || 'quicksave');
+
+  return {
+    success: true,
+    response: `Game saved as "${savePoint.name}" on the ${savePoint.branch} timeline (turn ${savePoint.turnCount}).`,
+  };
+}
+
+/**
+ * Handle RESTORE command - roll the world back to a save point
+ * RESTORE [name] AS [branch] forks a new timeline instead of overwriting this one
+ */
+async function handleRestore(
+  storyId: string,
+  command: ParsedCommand
+): Promise<CommandResult> {
+  const result = await saveService.restoreSavePoint(storyId, command.target, command.modifier);
+
+  if (!result) {
+    return {
+      success: false,
+      response: command.target
+        ? `There's no saved game called "${command.target}". Type SAVES to see your saved games.`
+        : 'There is no saved game to restore. Type SAVE to create one.',
+    };
+  }
+
+  // Turns journaled before the restore no longer describe this world
+  await journalService.clearJournal(storyId);
+
+  const playerState = await prisma.playerState.findUnique({
+    where: { storyId },
+  });
+  const room = playerState ? await roomService.getRoom(playerState.currentRoomId) : null;
+
+  if (!room) {
+    return {
+      success: false,
+      response: 'The save was restored, but your location could not be found.',
+    };
+  }
+
+  let response = `Restored "${result.savePoint.name}".`;
+  if (result.forkedFrom) {
+    response += ` Your ${result.forkedFrom} timeline was kept as "end of ${result.forkedFrom}". You are now on the ${result.branch} timeline.`;
+  }
+
+  const description = room.description || 'You find yourself back where you were.';
+  const isLit = await lightService.isRoomLit(storyId, room.id);
+  response += '\n\n' + roomService.formatRoomDescription(room, description, false, isLit);
+
+  return {
+    success: true,
+    response,
+    roomChanged: true,
+    newRoomId: room.id,
+  };
+}
+
+/**
+ * Handle SAVES command - list save points by timeline
+ */
+async function handleSaves(
+  storyId: string,
+  activeBranch: string
+): Promise<CommandResult> {
+  const saves = await saveService.listSavePoints(storyId);
+
+  return {
+    success: true,
+    response: saveService.formatSaveList(saves, activeBranch),
+  };
+}
+
+/**
+ * Handle UNDO command - revert the last turn from the journal
+ */
+async function handleUndo(storyId: string): Promise<CommandResult> {
+  const result = await journalService.undoLastTurn(storyId);
+
+  if (!result) {
+    return {
+      success: false,
+      response: "There's nothing to undo.",
+    };
+  }
+
+  const playerState = await prisma.playerState.findUnique({
+    where: { storyId },
+  });
+  const room = playerState ? await roomService.getRoom(playerState.currentRoomId) : null;
+
+  let response = `Undone: "${result.playerInput}".`;
+  if (room) {
+    const description = room.description || 'You find yourself back where you were.';
+    const isLit = await lightService.isRoomLit(storyId, room.id);
+    response += '\n\n' + roomService.formatRoomDescription(room, description, false, isLit);
+  }
+
+  return {
+    success: true,
+    response,
+    roomChanged: true,
+    newRoomId: room?.id,
+  };
+}
+
 /**
  * Handle BOARD command - board a vehicle
  */
@@ -954,7 +2376,8 @@ async function handleDisembark(
   const formattedDescription = roomService.formatRoomDescription(
     destRoomWithDetails,
     description,
-    false
+    false,
+    await lightService.isRoomLit(storyId, destRoom.id)
   );
 
   return {
@@ -1203,6 +2626,7 @@ async function handleUnknown(
   // Update character presence based on AI response
   // If AI mentions a character as being present, move them to this room
   await updateCharacterPresence(storyId, currentRoom.id, aiResult.response);
+  await rememberReferents(storyId, currentRoom.id, aiResult.response, newItems);
 
   // Check if a timed event was triggered (e.g., alarm, countdown)
   const newTimedEvent = await extractAndCreateTimedEvents(
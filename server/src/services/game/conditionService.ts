@@ -0,0 +1,379 @@
+/**
+ * Condition Service
+ * The player's health, fatigue, hunger and lingering status effects
+ *
+ * Hunger and fatigue build up a little every turn; conditions ("soaked",
+ * "poisoned", "sprained ankle") last a number of turns or until cured. All of
+ * them weigh on skill checks. Eating, drinking and resting bring them back down.
+ */
+
+import { PrismaClient, Prisma, PlayerState, GameObject } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export interface PlayerCondition {
+  name: string;
+  modifier: number;               // Added to skill check totals (negative hurts)
+  turnsRemaining: number | null;  // null lasts until cured
+  affects?: string[];             // Abilities it applies to (all when absent)
+  healthPerTurn?: number;         // Health lost each turn while it lasts
+}
+
+// Known conditions - anything else is applied with a mild default
+const CONDITION_PRESETS: Record<string, Omit<PlayerCondition, 'name'>> = {
+  'soaked': { modifier: -1, turnsRemaining: 10 },
+  'shaken': { modifier: -1, turnsRemaining: 5 },
+  'bruised': { modifier: -1, turnsRemaining: 15, affects: ['Combat', 'Athletics', 'Acrobatics'] },
+  'sprained ankle': { modifier: -3, turnsRemaining: 30, affects: ['Athletics', 'Acrobatics', 'Stealth'] },
+  'concussed': { modifier: -2, turnsRemaining: 20 },
+  'bleeding': { modifier: -1, turnsRemaining: 8, healthPerTurn: 1 },
+  'poisoned': { modifier: -2, turnsRemaining: null, healthPerTurn: 1 },
+  'burned': { modifier: -1, turnsRemaining: 20 },
+};
+
+const DEFAULT_CONDITION: Omit<PlayerCondition, 'name'> = { modifier: -1, turnsRemaining: 10 };
+
+// What a critical failure leaves behind, by skill
+const NAT1_CONDITIONS: Record<string, string> = {
+  'Athletics': 'sprained ankle',
+  'Acrobatics': 'sprained ankle',
+  'Combat': 'bruised',
+  'Stealth': 'bruised',
+  'Mechanics': 'burned',
+};
+
+// Hunger and fatigue run 0-100, rising one point a turn
+const HUNGER_PER_TURN = 1;
+const FATIGUE_PER_TURN = 1;
+const HUNGRY_AT = 50;
+const STARVING_AT = 80;
+const TIRED_AT = 60;
+const EXHAUSTED_AT = 85;
+
+// Starving costs health now and then; otherwise wounds slowly heal
+const STARVING_DAMAGE_CHANCE = 0.2;
+const HEAL_CHANCE = 0.1;
+
+// Resting (WAIT) and a meal or a drink
+const REST_FATIGUE = 10;
+const MEAL_HUNGER = 40;
+const DRINK_FATIGUE = 10;
+
+// Consumables are free text, so what they do is read from their wording
+const FOOD_PATTERN = /\b(bread|loaf|apple|pear|cheese|meat|stew|ration|rations|biscuit|biscuits|fruit|berries|jerky|cake|pie|food|meal|soup|fish|egg|eggs|sandwich|mushroom|mushrooms|nuts|chocolate|candy|pastry|sausage|ham|carrot|potato|turnip|orange|banana|snack|herb|herbs|pill|pills)\b/i;
+const DRINK_PATTERN = /\b(water|wine|ale|beer|mead|tea|coffee|milk|juice|flask|canteen|waterskin|potion|tonic|elixir|brandy|whisky|whiskey|rum|vodka|cider|soda|spring|fountain|well|stream|antidote|remedy|medicine)\b/i;
+
+// Drinking from these leaves the vessel behind
+const VESSEL_PATTERN = /\b(flask|canteen|waterskin|bottle|jug|cup|mug|goblet|tankard)\b/i;
+
+const REMEDIES: Array<{ pattern: RegExp; cures?: string[]; heal?: number; fatigue?: number }> = [
+  { pattern: /\b(antidote|antivenom|anti-venom|purgative)\b/i, cures: ['poisoned'] },
+  { pattern: /\b(bandage|bandages|medkit|first.aid|salve|poultice|stitches)\b/i, cures: ['bleeding'], heal: 5 },
+  { pattern: /\b(potion|elixir|tonic|remedy|medicine|herb|herbs|pill|pills)\b/i, heal: 8 },
+  { pattern: /\b(coffee|tea|stimulant)\b/i, fatigue: -20 },
+];
+
+/**
+ * Read the player's conditions
+ */
+export function getConditions(playerState: Pick<PlayerState, 'conditions'>): PlayerCondition[] {
+  return Array.isArray(playerState.conditions)
+    ? (playerState.conditions as unknown as PlayerCondition[])
+    : [];
+}
+
+/**
+ * Persist the player's conditions
+ */
+async function saveConditions(storyId: string, conditions: PlayerCondition[]): Promise<void> {
+  await prisma.playerState.update({
+    where: { storyId },
+    data: { conditions: conditions as unknown as Prisma.InputJsonValue },
+  });
+}
+
+/**
+ * Name how hungry, tired and hurt the player is, plus their conditions
+ */
+export function describeCondition(playerState: PlayerState): string[] {
+  const states: string[] = [];
+
+  if (playerState.health <= playerState.maxHealth / 4) states.push('badly wounded');
+  else if (playerState.health < playerState.maxHealth / 2) states.push('wounded');
+
+  if (playerState.hunger >= STARVING_AT) states.push('starving');
+  else if (playerState.hunger >= HUNGRY_AT) states.push('hungry');
+
+  if (playerState.fatigue >= EXHAUSTED_AT) states.push('exhausted');
+  else if (playerState.fatigue >= TIRED_AT) states.push('tired');
+
+  return [...states, ...getConditions(playerState).map(c => c.name)];
+}
+
+/**
+ * Total modifier the player's state puts on a skill check
+ */
+export async function getSkillModifier(storyId: string, abilityName: string): Promise<number> {
+  const playerState = await prisma.playerState.findUnique({ where: { storyId } });
+  if (!playerState) return 0;
+
+  let modifier = 0;
+
+  for (const condition of getConditions(playerState)) {
+    if (!condition.affects || condition.affects.some(a => a.toLowerCase() === abilityName.toLowerCase())) {
+      modifier += condition.modifier;
+    }
+  }
+
+  if (playerState.health <= playerState.maxHealth / 4) modifier -= 2;
+  if (playerState.hunger >= STARVING_AT) modifier -= 2;
+  else if (playerState.hunger >= HUNGRY_AT) modifier -= 1;
+  if (playerState.fatigue >= EXHAUSTED_AT) modifier -= 2;
+  else if (playerState.fatigue >= TIRED_AT) modifier -= 1;
+
+  return modifier;
+}
+
+/**
+ * Give the player a condition (or refresh its duration)
+ */
+export async function applyCondition(
+  storyId: string,
+  name: string,
+  turns?: number | null
+): Promise<PlayerCondition | null> {
+  const playerState = await prisma.playerState.findUnique({ where: { storyId } });
+  if (!playerState) return null;
+
+  const key = name.trim().toLowerCase();
+  const preset = CONDITION_PRESETS[key] || DEFAULT_CONDITION;
+  const condition: PlayerCondition = {
+    name: key,
+    ...preset,
+    turnsRemaining: turns !== undefined ? turns : preset.turnsRemaining,
+  };
+
+  const conditions = getConditions(playerState).filter(c => c.name !== key);
+  await saveConditions(storyId, [...conditions, condition]);
+
+  return condition;
+}
+
+/**
+ * Remove conditions by name
+ * Returns the names actually cured.
+ */
+export async function cureConditions(storyId: string, names: string[]): Promise<string[]> {
+  const playerState = await prisma.playerState.findUnique({ where: { storyId } });
+  if (!playerState) return [];
+
+  const wanted = names.map(n => n.toLowerCase());
+  const conditions = getConditions(playerState);
+  const cured = conditions.filter(c => wanted.includes(c.name)).map(c => c.name);
+
+  if (cured.length > 0) {
+    await saveConditions(storyId, conditions.filter(c => !cured.includes(c.name)));
+  }
+
+  return cured;
+}
+
+/**
+ * Change the player's health, keeping it within 0..maxHealth
+ */
+export async function changeHealth(storyId: string, delta: number): Promise<PlayerState> {
+  const playerState = await prisma.playerState.findUniqueOrThrow({ where: { storyId } });
+  const health = Math.max(0, Math.min(playerState.maxHealth, playerState.health + delta));
+
+  return prisma.playerState.update({
+    where: { storyId },
+    data: { health },
+  });
+}
+
+/**
+ * Leave a lasting mark after a critical failure
+ */
+export async function applyCriticalFailure(storyId: string, abilityName: string): Promise<PlayerCondition | null> {
+  return applyCondition(storyId, NAT1_CONDITIONS[abilityName] || 'shaken');
+}
+
+/**
+ * Apply what a triggered timed event does to the player
+ * Consequence data may carry { amount } health lost and { condition } to apply.
+ * Returns narration, and whether the blow was fatal.
+ */
+export async function applyEventConsequence(
+  storyId: string,
+  data: Record<string, unknown> | undefined
+): Promise<{ lines: string[]; collapsed: boolean }> {
+  const lines: string[] = [];
+  if (!data) return { lines, collapsed: false };
+
+  let collapsed = false;
+  const amount = typeof data.amount === 'number' ? Math.round(data.amount) : 0;
+  if (amount > 0) {
+    const playerState = await changeHealth(storyId, -amount);
+    lines.push(`You are hurt. (Health: ${playerState.health}/${playerState.maxHealth})`);
+    if (playerState.health <= 0) {
+      lines.push('Your strength gives out and you collapse.');
+      collapsed = true;
+    }
+  }
+
+  if (typeof data.condition === 'string' && data.condition.trim()) {
+    const condition = await applyCondition(storyId, data.condition);
+    if (condition) lines.push(`You are ${condition.name}.`);
+  }
+
+  return { lines, collapsed };
+}
+
+// ============================================
+// Per-turn upkeep
+// ============================================
+
+/**
+ * Advance the player's condition by one turn
+ * Returns narration for anything the player should notice, and whether they collapsed.
+ */
+export async function tickConditions(
+  storyId: string,
+  options: { resting?: boolean } = {}
+): Promise<{ narrative: string | null; collapsed: boolean }> {
+  const playerState = await prisma.playerState.findUnique({ where: { storyId } });
+  if (!playerState) {
+    return { narrative: null, collapsed: false };
+  }
+
+  const lines: string[] = [];
+
+  const hunger = Math.min(100, playerState.hunger + HUNGER_PER_TURN);
+  const fatigue = options.resting
+    ? Math.max(0, playerState.fatigue - REST_FATIGUE)
+    : Math.min(100, playerState.fatigue + FATIGUE_PER_TURN);
+
+  if (playerState.hunger < HUNGRY_AT && hunger >= HUNGRY_AT) lines.push('Your stomach growls.');
+  if (playerState.hunger < STARVING_AT && hunger >= STARVING_AT) lines.push('You are weak with hunger.');
+  if (playerState.fatigue < TIRED_AT && fatigue >= TIRED_AT) lines.push('You are getting tired.');
+  if (playerState.fatigue < EXHAUSTED_AT && fatigue >= EXHAUSTED_AT) lines.push('You can barely keep your eyes open.');
+
+  // Conditions wear off, some doing harm while they last
+  let healthLoss = 0;
+  const remaining: PlayerCondition[] = [];
+  for (const condition of getConditions(playerState)) {
+    healthLoss += condition.healthPerTurn || 0;
+    const turnsRemaining = condition.turnsRemaining === null ? null : condition.turnsRemaining - 1;
+    if (turnsRemaining !== null && turnsRemaining <= 0) {
+      lines.push(`You are no longer ${condition.name}.`);
+    } else {
+      remaining.push({ ...condition, turnsRemaining });
+    }
+  }
+
+  if (hunger >= STARVING_AT && Math.random() < STARVING_DAMAGE_CHANCE) {
+    healthLoss += 1;
+  }
+
+  let health = playerState.health - healthLoss;
+  // Nobody recovers from 0 - that is a collapse, not a rest
+  if (healthLoss === 0 && health > 0 && hunger < STARVING_AT && Math.random() < HEAL_CHANCE) {
+    health += 1;
+  }
+  health = Math.max(0, Math.min(playerState.maxHealth, health));
+
+  if (healthLoss > 0) {
+    lines.push(`You feel yourself weakening. (Health: ${health}/${playerState.maxHealth})`);
+  }
+
+  await prisma.playerState.update({
+    where: { storyId },
+    data: {
+      hunger,
+      fatigue,
+      health,
+      conditions: remaining as unknown as Prisma.InputJsonValue,
+    },
+  });
+
+  const collapsed = health <= 0;
+  if (collapsed) {
+    lines.push('Your strength gives out and you collapse.');
+  }
+
+  return { narrative: lines.length > 0 ? lines.join('\n') : null, collapsed };
+}
+
+// ============================================
+// Eating and drinking
+// ============================================
+
+/**
+ * Check whether an object can be eaten or drunk
+ */
+export function isConsumable(object: GameObject, action: 'eat' | 'drink'): boolean {
+  const text = `${object.name} ${object.description || ''}`;
+  return (action === 'eat' ? FOOD_PATTERN : DRINK_PATTERN).test(text);
+}
+
+/**
+ * Check whether eating or drinking an object uses it up
+ * Fixtures (a fountain, a well) and drinking vessels stay put.
+ */
+export function isUsedUp(object: GameObject, action: 'eat' | 'drink'): boolean {
+  if (!object.isTakeable || object.isContainer) return false;
+  return action === 'eat' || !VESSEL_PATTERN.test(object.name);
+}
+
+/**
+ * Eat or drink something, applying its effects
+ * Returns what the player notices - the caller handles removing the object.
+ */
+export async function consume(
+  storyId: string,
+  object: GameObject,
+  action: 'eat' | 'drink'
+): Promise<string[]> {
+  const playerState = await prisma.playerState.findUniqueOrThrow({ where: { storyId } });
+  const lines: string[] = [];
+  const text = `${object.name} ${object.description || ''}`;
+
+  let hunger = playerState.hunger;
+  let fatigue = playerState.fatigue;
+  let health = playerState.health;
+  let cures: string[] = [];
+
+  if (action === 'eat') {
+    hunger = Math.max(0, hunger - MEAL_HUNGER);
+    if (playerState.hunger >= HUNGRY_AT) lines.push('That takes the edge off your hunger.');
+  } else {
+    fatigue = Math.max(0, fatigue - DRINK_FATIGUE);
+    hunger = Math.max(0, hunger - Math.floor(MEAL_HUNGER / 4));
+  }
+
+  for (const remedy of REMEDIES) {
+    if (!remedy.pattern.test(text)) continue;
+    if (remedy.heal) health = Math.min(playerState.maxHealth, health + remedy.heal);
+    if (remedy.fatigue) fatigue = Math.max(0, fatigue + remedy.fatigue);
+    if (remedy.cures) cures = [...cures, ...remedy.cures];
+  }
+
+  if (health > playerState.health) {
+    lines.push(`You feel better. (Health: ${health}/${playerState.maxHealth})`);
+  }
+  if (fatigue < playerState.fatigue - DRINK_FATIGUE) {
+    lines.push('You feel more alert.');
+  }
+
+  await prisma.playerState.update({
+    where: { storyId },
+    data: { hunger, fatigue, health },
+  });
+
+  const cured = await cureConditions(storyId, cures);
+  for (const name of cured) {
+    lines.push(`You are no longer ${name}.`);
+  }
+
+  return lines;
+}
@@ -0,0 +1,333 @@
+/**
+ * Consequence Service
+ * Carries out what a timed event does when its countdown runs out
+ *
+ * A triggered event's consequence used to be narration only. Here each
+ * consequence type changes the world: the player is dragged elsewhere,
+ * belongings are lost, exits are barred or collapse, characters arrive,
+ * systems fail. Puzzle steps linked to the event fail with it - the
+ * chance to stop it has passed. game_over is left to the engine.
+ *
+ * Every effect only touches rows a world snapshot captures (saveService), so
+ * UNDO, RESTORE and RETRY BEAT take it back - a character an event brought in
+ * is gone again. A new kind of effect needs its rows captured there first.
+ */
+
+import { PrismaClient, TimedEvent } from '@prisma/client';
+import * as roomService from './roomService';
+import * as objectService from './objectService';
+import * as conditionService from './conditionService';
+import * as puzzleService from './puzzleService';
+import type { EventConsequence } from './timedEventService';
+
+const prisma = new PrismaClient();
+
+export interface ConsequenceEffect {
+  type: EventConsequence['type'] | 'puzzle_failed';
+  summary: string;        // What changed, for the transcript
+  narrative?: string;     // What the player is told, if anything beyond the trigger narrative
+  newRoomId?: string;     // Set when the player was moved
+  collapsed?: boolean;    // Set when the player was hurt past bearing
+}
+
+/**
+ * Find a room by name, falling back to a partial match
+ */
+async function findRoomByName(storyId: string, name: unknown): Promise<{ id: string; name: string } | null> {
+  if (typeof name !== 'string' || !name.trim()) return null;
+
+  return await prisma.room.findFirst({
+    where: { storyId, name: { equals: name, mode: 'insensitive' } },
+    select: { id: true, name: true },
+  }) || prisma.room.findFirst({
+    where: { storyId, name: { contains: name, mode: 'insensitive' } },
+    select: { id: true, name: true },
+  });
+}
+
+/**
+ * Read a list of names from consequence data (a string or an array of strings)
+ */
+function readNames(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.filter((v): v is string => typeof v === 'string');
+  return [];
+}
+
+// ============================================
+// Effects
+// ============================================
+
+/**
+ * Forcibly move the player - { roomName }
+ */
+async function movePlayer(storyId: string, data: Record<string, unknown>): Promise<ConsequenceEffect[]> {
+  const room = await findRoomByName(storyId, data.roomName);
+  const playerState = await prisma.playerState.findUnique({ where: { storyId } });
+  if (!room || !playerState || room.id === playerState.currentRoomId) return [];
+
+  // Whatever the player was in the middle of is over
+  await prisma.playerState.update({
+    where: { storyId },
+    data: { conversationWith: null, combatWith: null, combatRound: 0 },
+  });
+  const moved = await roomService.moveToRoom(storyId, room.id);
+
+  return [{
+    type: 'room_change',
+    summary: `Player moved to ${room.name}`,
+    narrative: `${room.name}\n${moved.description}`,
+    newRoomId: room.id,
+  }];
+}
+
+/**
+ * Take items from the player - { items: [names], moveTo?: roomName }
+ * With no items named, one thing the player carries is lost.
+ */
+async function loseItems(storyId: string, data: Record<string, unknown>): Promise<ConsequenceEffect[]> {
+  const inventory = (await objectService.getInventory(storyId)).filter(o => !o.isStoryCritical);
+  if (inventory.length === 0) return [];
+
+  const names = readNames(data.items ?? data.itemName);
+  const lost = names.length > 0
+    ? inventory.filter(o => names.some(n => o.name.toLowerCase().includes(n.toLowerCase())))
+    : [inventory[Math.floor(Math.random() * inventory.length)]];
+
+  const destination = await findRoomByName(storyId, data.moveTo);
+  const effects: ConsequenceEffect[] = [];
+
+  for (const object of lost) {
+    // Anything inside another lost thing goes with it
+    if (lost.some(o => o.id === object.containedInId)) continue;
+
+    const name = object.name.replace(/^\*/, '');
+    if (destination) {
+      await objectService.moveWithContents(object.id, destination.id, null);
+      effects.push({ type: 'item_lost', summary: `${name} moved to ${destination.name}`, narrative: `The ${name} is gone.` });
+    } else {
+      await objectService.removeWithContents(object.id);
+      effects.push({ type: 'item_lost', summary: `${name} destroyed`, narrative: `The ${name} is lost.` });
+    }
+  }
+
+  return effects;
+}
+
+/**
+ * Bar or collapse an exit - { roomName?, direction, change: "locked" | "collapsed", blockedBy? }
+ * Defaults to the event's room (or the player's).
+ */
+async function changeExit(
+  storyId: string,
+  event: TimedEvent,
+  data: Record<string, unknown>
+): Promise<ConsequenceEffect[]> {
+  const direction = data.direction as roomService.Direction;
+  if (!['north', 'south', 'east', 'west', 'up', 'down'].includes(direction)) return [];
+
+  const named = await findRoomByName(storyId, data.roomName);
+  const playerState = await prisma.playerState.findUnique({ where: { storyId } });
+  const roomId = named?.id || event.roomId || playerState?.currentRoomId;
+  const room = roomId ? await prisma.room.findUnique({ where: { id: roomId } }) : null;
+  if (!room) return [];
+
+  const targetRoomId = roomService.getRoomInDirection(room, direction);
+  if (!targetRoomId) return [];
+
+  if (data.change === 'collapsed') {
+    const opposite = roomService.getOppositeDirection(direction);
+    await prisma.room.update({ where: { id: room.id }, data: { [`${direction}RoomId`]: null } });
+    await prisma.room.update({ where: { id: targetRoomId }, data: { [`${opposite}RoomId`]: null } });
+    return [{
+      type: 'exit_change',
+      summary: `Exit ${direction} from ${room.name} collapsed`,
+      narrative: `The way ${direction} is gone.`,
+    }];
+  }
+
+  // Locked - the door in the way is shut and locked, or something new bars it
+  const door = await roomService.getDoorForExit(room, direction);
+  if (door) {
+    await prisma.gameObject.update({
+      where: { id: door.id },
+      data: { isOpen: false, isLocked: true },
+    });
+  } else {
+    await prisma.gameObject.create({
+      data: {
+        storyId,
+        roomId: room.id,
+        name: typeof data.blockedBy === 'string' && data.blockedBy ? data.blockedBy : 'barred door',
+        description: `It bars the way ${direction}.`,
+        isTakeable: false,
+        isOpen: false,
+        isLocked: true,
+        blocksExit: direction,
+      },
+    });
+  }
+
+  return [{
+    type: 'exit_change',
+    summary: `Exit ${direction} from ${room.name} locked`,
+    narrative: `The way ${direction} is barred.`,
+  }];
+}
+
+/**
+ * Bring a character onto the scene - { characterName, roomName?, hostile?, description? }
+ * A character who doesn't exist yet is created.
+ */
+async function moveCharacter(
+  storyId: string,
+  event: TimedEvent,
+  data: Record<string, unknown>
+): Promise<ConsequenceEffect[]> {
+  if (typeof data.characterName !== 'string' || !data.characterName.trim()) return [];
+
+  const named = await findRoomByName(storyId, data.roomName);
+  const playerState = await prisma.playerState.findUnique({ where: { storyId } });
+  const roomId = named?.id || event.roomId || playerState?.currentRoomId;
+  if (!roomId) return [];
+
+  const hostile = data.hostile === true;
+  const existing = await prisma.character.findFirst({
+    where: { storyId, name: { equals: data.characterName, mode: 'insensitive' } },
+  });
+
+  if (existing) {
+    await prisma.character.update({
+      where: { id: existing.id },
+      data: {
+        currentRoomId: roomId,
+        ...(hostile ? { isHostile: true, stance: 'hostile' } : {}),
+      },
+    });
+  } else {
+    await prisma.character.create({
+      data: {
+        storyId,
+        name: data.characterName,
+        description: typeof data.description === 'string' ? data.description : null,
+        currentRoomId: roomId,
+        homeRoomId: roomId,
+        isHostile: hostile,
+        stance: hostile ? 'hostile' : 'calm',
+      },
+    });
+  }
+
+  const here = roomId === playerState?.currentRoomId;
+  return [{
+    type: 'character_action',
+    summary: `${data.characterName} ${existing ? 'moved' : 'appeared'}${hostile ? ' (hostile)' : ''}`,
+    narrative: here ? `${data.characterName} is here.` : undefined,
+  }];
+}
+
+/**
+ * Change the state of an object system - { systemName, state }
+ */
+async function changeSystem(storyId: string, data: Record<string, unknown>): Promise<ConsequenceEffect[]> {
+  if (typeof data.systemName !== 'string' || typeof data.state !== 'string') return [];
+
+  const system = await prisma.objectSystem.findFirst({
+    where: { storyId, name: { contains: data.systemName, mode: 'insensitive' } },
+  });
+  if (!system) return [];
+
+  await prisma.objectSystem.update({
+    where: { id: system.id },
+    data: { systemState: data.state },
+  });
+
+  return [{
+    type: 'system_change',
+    summary: `${system.name}: ${data.state}`,
+  }];
+}
+
+/**
+ * Fail the puzzles whose steps were racing this event
+ */
+async function failLinkedPuzzles(event: TimedEvent): Promise<ConsequenceEffect[]> {
+  const steps = await prisma.puzzleStep.findMany({
+    where: { timedEventId: event.id, isCompleted: false, puzzle: { status: { in: ['active', 'pending'] } } },
+    include: { puzzle: { select: { id: true, name: true } } },
+  });
+
+  const effects: ConsequenceEffect[] = [];
+  const failed = new Set<string>();
+  for (const step of steps) {
+    if (failed.has(step.puzzle.id)) continue;
+    failed.add(step.puzzle.id);
+
+    await puzzleService.failPuzzle(step.puzzle.id);
+    effects.push({
+      type: 'puzzle_failed',
+      summary: `Objective failed: ${step.puzzle.name}`,
+      narrative: `[Objective failed: ${step.puzzle.name}]`,
+    });
+  }
+
+  return effects;
+}
+
+// ============================================
+// Executor
+// ============================================
+
+/**
+ * Carry out a triggered event's consequence
+ */
+export async function executeConsequence(
+  storyId: string,
+  event: TimedEvent,
+  consequence: EventConsequence
+): Promise<ConsequenceEffect[]> {
+  const data = consequence.data || {};
+  const effects: ConsequenceEffect[] = [];
+
+  switch (consequence.type) {
+    case 'damage': {
+      const { lines, collapsed } = await conditionService.applyEventConsequence(storyId, data);
+      if (lines.length > 0) {
+        effects.push({ type: 'damage', summary: lines.join(' '), narrative: lines.join('\n'), collapsed });
+      }
+      break;
+    }
+
+    case 'room_change':
+      effects.push(...await movePlayer(storyId, data));
+      break;
+
+    case 'item_lost':
+      effects.push(...await loseItems(storyId, data));
+      break;
+
+    case 'exit_change':
+      effects.push(...await changeExit(storyId, event, data));
+      break;
+
+    case 'character_action':
+      effects.push(...await moveCharacter(storyId, event, data));
+      break;
+
+    case 'system_change':
+      effects.push(...await changeSystem(storyId, data));
+      break;
+
+    // game_over is handled by the engine; story_branch and custom are narration only
+    default:
+      break;
+  }
+
+  effects.push(...await failLinkedPuzzles(event));
+
+  if (effects.length > 0) {
+    console.log(`[Consequence] ${event.name}: ${effects.map(e => e.summary).join('; ')}`);
+  }
+
+  return effects;
+}
@@ -0,0 +1,143 @@
+/**
+ * Conversation Service
+ * Per-character dialogue memory and the sticky conversation mode
+ *
+ * Dialogue lives in the game transcript (messageType 'dialogue', speaker
+ * 'character:{name}', metadata { characterId, playerLine }). Older lines are
+ * folded into Character.conversationMemory so prompts stay short while the
+ * character keeps straight what they've already said.
+ */
+
+import { PrismaClient, Character } from '@prisma/client';
+import { summarizeConversation } from '../ai/gameAI';
+
+const prisma = new PrismaClient();
+
+// Lines quoted verbatim in dialogue prompts
+const RECENT_LINES = 6;
+
+// Older lines are folded into memory once this many build up
+const SUMMARIZE_AFTER = 10;
+
+export interface DialogueLine {
+  player: string;
+  character: string;
+}
+
+export interface DialogueMetadata {
+  characterId: string;
+  playerLine: string;
+}
+
+/**
+ * Get the character the player is currently talking with
+ */
+export async function getConversationPartner(storyId: string): Promise<Character | null> {
+  const playerState = await prisma.playerState.findUnique({
+    where: { storyId },
+    select: { conversationWith: true },
+  });
+
+  if (!playerState?.conversationWith) {
+    return null;
+  }
+
+  return prisma.character.findUnique({
+    where: { id: playerState.conversationWith },
+  });
+}
+
+/**
+ * Enter conversation mode with a character
+ */
+export async function startConversation(storyId: string, characterId: string): Promise<void> {
+  await prisma.playerState.update({
+    where: { storyId },
+    data: { conversationWith: characterId },
+  });
+}
+
+/**
+ * Leave conversation mode, folding the whole conversation into memory
+ */
+export async function endConversation(storyId: string): Promise<Character | null> {
+  const partner = await getConversationPartner(storyId);
+
+  await prisma.playerState.update({
+    where: { storyId },
+    data: { conversationWith: null },
+  });
+
+  if (partner) {
+    await updateMemory(partner, true);
+  }
+
+  return partner;
+}
+
+/**
+ * Get dialogue lines not yet folded into the character's memory, oldest first
+ */
+async function getUnsummarizedLines(
+  character: Character
+): Promise<Array<{ turnNumber: number; line: DialogueLine }>> {
+  const entries = await prisma.gameTranscript.findMany({
+    where: {
+      storyId: character.storyId,
+      messageType: 'dialogue',
+      isUndone: false,
+      turnNumber: { gt: character.memoryThroughTurn },
+      metadata: { path: ['characterId'], equals: character.id },
+    },
+    orderBy: { turnNumber: 'asc' },
+  });
+
+  return entries.map(entry => ({
+    turnNumber: entry.turnNumber,
+    line: {
+      player: (entry.metadata as unknown as DialogueMetadata).playerLine || '',
+      character: entry.content,
+    },
+  }));
+}
+
+/**
+ * Get what a character remembers: the memory summary plus the latest lines verbatim
+ */
+export async function getDialogueContext(
+  character: Character
+): Promise<{ memory: string | null; recentLines: DialogueLine[] }> {
+  const lines = await getUnsummarizedLines(character);
+
+  return {
+    memory: character.conversationMemory,
+    recentLines: lines.slice(-RECENT_LINES).map(l => l.line),
+  };
+}
+
+/**
+ * Fold older dialogue into the character's rolling memory
+ * Runs once enough lines build up, or for everything when a conversation ends.
+ */
+export async function updateMemory(character: Character, foldAll: boolean = false): Promise<void> {
+  const lines = await getUnsummarizedLines(character);
+
+  const toFold = foldAll ? lines : lines.slice(0, Math.max(0, lines.length - RECENT_LINES));
+  if (toFold.length === 0 || (!foldAll && lines.length < SUMMARIZE_AFTER)) {
+    return;
+  }
+
+  const memory = await summarizeConversation(
+    character.name,
+    character.conversationMemory,
+    toFold.map(l => l.line)
+  );
+
+  await prisma.character.update({
+    where: { id: character.id },
+    data: {
+      conversationMemory: memory,
+      memoryThroughTurn: toFold[toFold.length - 1].turnNumber,
+    },
+  });
+}
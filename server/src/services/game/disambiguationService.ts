@@ -0,0 +1,136 @@
+/**
+ * Disambiguation Service
+ * Asks "Which do you mean...?" when a name fits several objects,
+ * and accepts a bare answer ("brass", "the iron one", "2") on the next turn
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export interface QuestionOption {
+  id: string;
+  name: string;
+}
+
+export interface PendingQuestion {
+  kind: 'disambiguation';
+  rawInput: string;   // The command that was ambiguous, e.g. "take key"
+  term: string;       // The ambiguous part, e.g. "key"
+  options: QuestionOption[];
+}
+
+export interface AnswerMatch {
+  choice?: QuestionOption;
+  narrowed?: QuestionOption[]; // Answer still fits several options
+}
+
+// Words players wrap around a bare answer: "the brass one", "I mean the iron key"
+const ANSWER_FILLER = /^(?:i\s+mean\s+|the\s+)+|\s+one$/gi;
+
+/**
+ * Strip the discovered-item marker for display
+ */
+function displayName(name: string): string {
+  return name.replace(/^\*/, '');
+}
+
+/**
+ * Phrase the question: "Which do you mean: the brass key or the iron key?"
+ */
+export function formatQuestion(options: QuestionOption[]): string {
+  const names = options.map(o => `the ${displayName(o.name)}`);
+  const list = names.length === 2
+    ? `${names[0]} or ${names[1]}`
+    : `${names.slice(0, -1).join(', ')}, or ${names[names.length - 1]}`;
+  return `Which do you mean: ${list}?`;
+}
+
+/**
+ * Store a question for the next turn and return its text
+ */
+export async function askWhich(
+  storyId: string,
+  rawInput: string,
+  term: string,
+  options: QuestionOption[]
+): Promise<string> {
+  const question: PendingQuestion = {
+    kind: 'disambiguation',
+    rawInput,
+    term,
+    options: options.map(o => ({ id: o.id, name: o.name })),
+  };
+
+  await prisma.playerState.update({
+    where: { storyId },
+    data: { pendingQuestion: question as unknown as Prisma.InputJsonValue },
+  });
+
+  return formatQuestion(question.options);
+}
+
+/**
+ * Get the question waiting for an answer, if any
+ */
+export async function getPendingQuestion(storyId: string): Promise<PendingQuestion | null> {
+  const playerState = await prisma.playerState.findUnique({
+    where: { storyId },
+    select: { pendingQuestion: true },
+  });
+
+  return (playerState?.pendingQuestion as unknown as PendingQuestion) || null;
+}
+
+/**
+ * Forget the pending question
+ */
+export async function clearPendingQuestion(storyId: string): Promise<void> {
+  await prisma.playerState.update({
+    where: { storyId },
+    data: { pendingQuestion: Prisma.DbNull },
+  });
+}
+
+/**
+ * Match a player's reply against the options of a pending question
+ */
+export function matchAnswer(question: PendingQuestion, input: string): AnswerMatch {
+  const answer = input.trim().toLowerCase().replace(/[.!?]+$/, '').replace(ANSWER_FILLER, '').trim();
+  if (!answer) return {};
+
+  // Numbered answers refer to the order the options were listed in
+  const ordinal = parseInt(answer, 10);
+  if (!isNaN(ordinal) && String(ordinal) === answer) {
+    const choice = question.options[ordinal - 1];
+    return choice ? { choice } : {};
+  }
+
+  const exact = question.options.find(o => displayName(o.name).toLowerCase() === answer);
+  if (exact) return { choice: exact };
+
+  // Every word of the answer must appear in the option's name
+  const words = answer.split(/\s+/);
+  const matches = question.options.filter(o => {
+    const nameLower = displayName(o.name).toLowerCase();
+    return words.every(word => nameLower.includes(word));
+  });
+
+  if (matches.length === 1) return { choice: matches[0] };
+  if (matches.length > 1) return { narrowed: matches };
+  return {};
+}
+
+/**
+ * Rewrite the original command with the chosen object spelled out
+ */
+export function applyAnswer(question: PendingQuestion, choice: QuestionOption): string {
+  const name = displayName(choice.name);
+  const escaped = question.term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const pattern = new RegExp(escaped, 'i');
+
+  if (pattern.test(question.rawInput)) {
+    return question.rawInput.replace(pattern, name);
+  }
+  return `${question.rawInput} ${name}`;
+}
@@ -0,0 +1,313 @@
+/**
+ * Ending Service
+ * How a story ends - resolving its final beat, or death, defeat, time running out
+ *
+ * When the last story beat resolves, an epilogue is written from the
+ * resolutions the player chose and the moments that defined them, and the
+ * story is completed.
+ *
+ * A game over puts the story in the failed state with an epitaph. From there
+ * the player can RESTORE the last autosave, RETRY BEAT from the start of the
+ * story beat they were working towards, or ACCEPT the ending and go on to
+ * the analysis with the failure on the record. Autosaves are taken as the
+ * player goes so there is always somewhere to return to.
+ */
+
+import { PrismaClient, StoryBeat } from '@prisma/client';
+import * as saveService from './saveService';
+import { generateEpitaph, generateEpilogue } from '../ai/gameAI';
+
+const prisma = new PrismaClient();
+
+export const AUTOSAVE_NAME = 'autosave';
+
+// Moves between rolling autosaves (turnCount only counts moves)
+const AUTOSAVE_EVERY_MOVES = 5;
+
+// Personality events worth recalling in the epilogue
+const EPILOGUE_KEY_MOMENTS = 6;
+
+// Shown in place of an epilogue that couldn't be written - never stored
+const EPILOGUE_FALLBACK = 'And so it was done. The world you leave behind is not the one you found.';
+
+export type GameOverChoice = 'restore' | 'retry' | 'accept';
+
+export interface GameOver {
+  reason: string;
+  narrative: string;
+  epitaph?: string;
+  canRestore?: boolean;
+  canRetry?: boolean;
+}
+
+/**
+ * The beat the player is working towards - the first one not yet completed
+ */
+async function getCurrentBeat(storyId: string): Promise<StoryBeat | null> {
+  return prisma.storyBeat.findFirst({
+    where: { storyId, isCompleted: false },
+    orderBy: { beatOrder: 'asc' },
+  });
+}
+
+/**
+ * Name of the autosave taken when a beat begins
+ */
+function beatSaveName(beat: StoryBeat): string {
+  return `start of beat ${beat.beatOrder}`;
+}
+
+/**
+ * Find a save by name on the active branch only
+ */
+async function findOnActiveBranch(storyId: string, name: string) {
+  const playerState = await prisma.playerState.findUnique({
+    where: { storyId },
+    select: { activeBranch: true },
+  });
+  return prisma.savePoint.findUnique({
+    where: { storyId_branch_name: { storyId, branch: playerState?.activeBranch || 'main', name } },
+  });
+}
+
+// ============================================
+// AUTOSAVES
+// ============================================
+
+/**
+ * Take the autosaves due before a turn is played
+ * One when a new beat begins (for RETRY BEAT) and a rolling one every few moves (for RESTORE).
+ * The turn's opening snapshot is the world as it stands, so that is what's saved.
+ */
+export async function autosave(storyId: string, snapshot: saveService.WorldSnapshot): Promise<void> {
+  const playerState = await prisma.playerState.findUnique({ where: { storyId } });
+  if (!playerState) return;
+
+  const beat = await getCurrentBeat(storyId);
+  if (beat && !(await findOnActiveBranch(storyId, beatSaveName(beat)))) {
+    await saveService.createSavePoint(storyId, beatSaveName(beat), { isAutosave: true, snapshot });
+  }
+
+  const last = await findOnActiveBranch(storyId, AUTOSAVE_NAME);
+  if (!last || playerState.turnCount - last.turnCount >= AUTOSAVE_EVERY_MOVES) {
+    await saveService.createSavePoint(storyId, AUTOSAVE_NAME, { isAutosave: true, snapshot });
+  }
+}
+
+// ============================================
+// COMPLETION
+// ============================================
+
+/**
+ * Describe the option a dilemma was resolved with
+ */
+function describeChoice(dilemma: {
+  chosenOption: string | null;
+  playerResponse: string | null;
+  optionA: unknown;
+  optionB: unknown;
+  optionC: unknown;
+} | null): string | null {
+  if (!dilemma?.chosenOption) return null;
+  if (dilemma.chosenOption === 'OTHER') return dilemma.playerResponse;
+
+  const option = { A: dilemma.optionA, B: dilemma.optionB, C: dilemma.optionC }[dilemma.chosenOption] as
+    { description?: string } | null | undefined;
+  return option?.description || dilemma.playerResponse;
+}
+
+/**
+ * Write the epilogue from the resolved beats and the player's key moments
+ * Only a written epilogue is kept - if writing fails, the next call tries again.
+ */
+async function writeEpilogue(storyId: string): Promise<string | null> {
+  const beats = await prisma.storyBeat.findMany({
+    where: { storyId },
+    include: { dilemma: true },
+    orderBy: { beatOrder: 'asc' },
+  });
+
+  const events = await prisma.personalityEvent.findMany({
+    where: { storyId },
+    orderBy: [{ isKeyMoment: 'desc' }, { confidence: 'desc' }, { createdAt: 'asc' }],
+    take: EPILOGUE_KEY_MOMENTS,
+  });
+
+  const epilogue = await generateEpilogue(
+    storyId,
+    beats.map(b => ({ beat: b.name, description: b.description, choice: describeChoice(b.dilemma) })),
+    events.map(e => ({ action: e.playerAction, context: e.choiceContext, reasoning: e.reasoning }))
+  );
+  if (!epilogue) return null;
+
+  await prisma.story.update({
+    where: { id: storyId },
+    data: { epilogue },
+  });
+
+  return epilogue;
+}
+
+/**
+ * Complete the story if its final beat has resolved
+ * Returns the closing words the first time, null otherwise.
+ */
+export async function completeStory(storyId: string): Promise<string | null> {
+  const story = await prisma.story.findUnique({
+    where: { id: storyId },
+    select: { completedAt: true },
+  });
+  if (!story || story.completedAt) return null;
+
+  const beats = await prisma.storyBeat.findMany({
+    where: { storyId },
+    select: { isCompleted: true },
+  });
+  if (beats.length === 0 || beats.some(b => !b.isCompleted)) return null;
+
+  await prisma.story.update({
+    where: { id: storyId },
+    data: { status: 'completed', completedAt: new Date() },
+  });
+
+  console.log(`[Ending] Story ${storyId} completed after ${beats.length} beats`);
+
+  return await writeEpilogue(storyId) || EPILOGUE_FALLBACK;
+}
+
+/**
+ * Get a completed story's epilogue, writing it if it couldn't be written at the end
+ */
+export async function getEpilogue(storyId: string): Promise<string | null> {
+  const story = await prisma.story.findUnique({
+    where: { id: storyId },
+    select: { status: true, epilogue: true },
+  });
+  if (!story || story.status !== 'completed') return null;
+
+  return story.epilogue || writeEpilogue(storyId);
+}
+
+/**
+ * Format the epilogue for the final turn
+ */
+export function formatEpilogue(epilogue: string): string {
+  return `*** EPILOGUE ***\n\n${epilogue}\n\n*** THE END ***`;
+}
+
+// ============================================
+// GAME OVER
+// ============================================
+
+/**
+ * End the story in failure, writing its epitaph
+ */
+export async function enterGameOver(
+  storyId: string,
+  gameOver: { reason: string; narrative: string }
+): Promise<GameOver> {
+  const epitaph = await generateEpitaph(storyId, gameOver.reason, gameOver.narrative);
+
+  await prisma.story.update({
+    where: { id: storyId },
+    data: { status: 'failed', endReason: gameOver.reason, epitaph },
+  });
+
+  console.log(`[Ending] Story ${storyId} failed (${gameOver.reason})`);
+
+  return { ...gameOver, epitaph, ...(await getChoices(storyId)) };
+}
+
+/**
+ * Which ways back the player has
+ */
+async function getChoices(storyId: string): Promise<{ canRestore: boolean; canRetry: boolean }> {
+  const beat = await getCurrentBeat(storyId);
+  const [autosave, beatSave] = await Promise.all([
+    saveService.findSavePoint(storyId, AUTOSAVE_NAME),
+    beat ? saveService.findSavePoint(storyId, beatSaveName(beat)) : null,
+  ]);
+  return { canRestore: !!autosave, canRetry: !!beatSave };
+}
+
+/**
+ * Get the game over the story is waiting on, if it has failed
+ * Accepted endings are final - there is nothing left to choose.
+ */
+export async function getGameOver(storyId: string): Promise<GameOver | null> {
+  const story = await prisma.story.findUnique({
+    where: { id: storyId },
+    select: { status: true, completedAt: true, endReason: true, epitaph: true },
+  });
+  if (!story || story.status !== 'failed' || story.completedAt) return null;
+
+  const lastWords = await prisma.gameTranscript.findFirst({
+    where: { storyId, speaker: 'narrator' },
+    orderBy: { turnNumber: 'desc' },
+    select: { content: true },
+  });
+
+  return {
+    reason: story.endReason || 'unknown',
+    narrative: lastWords?.content || '',
+    epitaph: story.epitaph || undefined,
+    ...(await getChoices(storyId)),
+  };
+}
+
+/**
+ * Whether the story is over for good - completed, or its failure accepted
+ */
+export async function isStoryOver(storyId: string): Promise<boolean> {
+  const story = await prisma.story.findUnique({
+    where: { id: storyId },
+    select: { completedAt: true },
+  });
+  return !!story?.completedAt;
+}
+
+/**
+ * Read a game over choice from typed input
+ */
+export function parseChoice(input: string): GameOverChoice | null {
+  const text = input.trim().toLowerCase();
+  if (/^(?:restore|load)(?:\s+(?:game|autosave))?$/.test(text)) return 'restore';
+  if (/^retry(?:\s+beat)?$/.test(text)) return 'retry';
+  if (/^accept$/.test(text)) return 'accept';
+  return null;
+}
+
+/**
+ * Name of the save a choice returns to, or null if there isn't one
+ */
+export async function getChoiceSave(storyId: string, choice: 'restore' | 'retry'): Promise<string | null> {
+  if (choice === 'restore') {
+    return (await saveService.findSavePoint(storyId, AUTOSAVE_NAME))?.name || null;
+  }
+
+  const beat = await getCurrentBeat(storyId);
+  if (!beat) return null;
+  return (await saveService.findSavePoint(storyId, beatSaveName(beat)))?.name || null;
+}
+
+/**
+ * Bring a failed story back into play
+ */
+export async function revive(storyId: string): Promise<void> {
+  await prisma.story.update({
+    where: { id: storyId },
+    data: { status: 'in_progress', endReason: null, epitaph: null },
+  });
+}
+
+/**
+ * Let the failure stand - the story is over
+ */
+export async function acceptEnding(storyId: string): Promise<void> {
+  await prisma.story.update({
+    where: { id: storyId },
+    data: { completedAt: new Date() },
+  });
+
+  console.log(`[Ending] Story ${storyId} ending accepted`);
+}
@@ -2,9 +2,22 @@ import { PrismaClient } from '@prisma/client';
 import * as roomService from './roomService';
 import * as objectService from './objectService';
 import * as commandParser from './commandParser';
-import { generateDilemma } from '../ai/gameAI';
+import { generateDilemma, judgeTimedEventPrevention } from '../ai/gameAI';
 import * as timedEventService from './timedEventService';
 import * as puzzleService from './puzzleService';
+import * as journalService from './journalService';
+import * as disambiguationService from './disambiguationService';
+import * as travelService from './travelService';
+import * as lightService from './lightService';
+import * as npcService from './npcService';
+import * as affinityService from './affinityService';
+import * as combatService from './combatService';
+import * as conditionService from './conditionService';
+import * as hintService from './hintService';
+import * as scoringService from './scoringService';
+import * as achievementService from './achievementService';
+import * as consequenceService from './consequenceService';
+import * as endingService from './endingService';
 
 const prisma = new PrismaClient();
 
@@ -39,9 +52,11 @@ export interface GameResponse {
       consequence: timedEventService.EventConsequence;
     }>;
   };
-  gameOver?: {
-    reason: string;
-    narrative: string;
+  gameOver?: endingService.GameOver;
+  storyEnded?: boolean; // The story is over - time for the analysis
+  menu?: {
+    type: 'destination' | 'disambiguation';
+    options: Array<{ id: string; name: string }>;
   };
 }
 
@@ -108,13 +123,313 @@ export async function initializeGame(
   };
 }
 
+// Commands that only look around - never worth asking whether they stopped a countdown
+const PASSIVE_COMMANDS: commandParser.CommandType[] = ['LOOK', 'EXAMINE', 'INVENTORY', 'WAIT', 'HELP', 'EXITS'];
+
+// Command types whose room change is the point of the command, not a surprise
+const EXPECTED_ROOM_CHANGE: commandParser.CommandType[] = [
+  'GO', 'TRAVEL', 'BOARD', 'DISEMBARK', 'LAUNCH', 'RESTORE', 'UNDO',
+];
+
 /**
  * Process a player's turn
+ * Compound input ("open chest. take key, then n") runs clause by clause,
+ * each clause taking its own turn, until one fails or something surprising happens.
  */
 export async function processTurn(
   storyId: string,
   playerInput: string
 ): Promise<GameResponse> {
+  // A story that has ended only takes the game over choices
+  if (await endingService.isStoryOver(storyId)) {
+    return endedResponse(storyId, 'This story has ended.');
+  }
+  const gameOver = await endingService.getGameOver(storyId);
+  if (gameOver) {
+    const choice = endingService.parseChoice(playerInput);
+    if (choice) {
+      return resolveGameOver(storyId, choice);
+    }
+    return gameOverResponse(storyId, gameOver, gameOverPrompt(gameOver));
+  }
+
+  // A bare answer to "Which do you mean...?" completes the command that asked
+  const question = await disambiguationService.getPendingQuestion(storyId);
+  if (question) {
+    await disambiguationService.clearPendingQuestion(storyId);
+    const answer = disambiguationService.matchAnswer(question, playerInput);
+
+    if (answer.choice) {
+      return processTurn(storyId, disambiguationService.applyAnswer(question, answer.choice));
+    }
+
+    if (answer.narrowed) {
+      return askAgain(storyId, playerInput, question, answer.narrowed);
+    }
+  }
+
+  const clauses = commandParser.splitCommands(playerInput);
+
+  if (clauses.length <= 1) {
+    return processPlayerClause(storyId, playerInput);
+  }
+
+  const responses: GameResponse[] = [];
+  let stoppedAt = clauses.length;
+
+  for (let i = 0; i < clauses.length; i++) {
+    const response = await processPlayerClause(storyId, clauses[i]);
+    responses.push(response);
+
+    if (shouldStopChain(clauses[i], response) && i < clauses.length - 1) {
+      stoppedAt = i + 1;
+      break;
+    }
+  }
+
+  return combineChainResponses(clauses, responses, stoppedAt);
+}
+
+/**
+ * Process a clause the player typed
+ * AGAIN is swapped for the last command; any other non-meta command becomes the new last command.
+ */
+async function processPlayerClause(
+  storyId: string,
+  clause: string
+): Promise<GameResponse> {
+  const command = commandParser.parseCommand(clause);
+  if (command.type === 'AGAIN') {
+    const playerState = await prisma.playerState.findUnique({
+      where: { storyId },
+      select: { lastCommand: true },
+    });
+    return processClause(storyId, playerState?.lastCommand || clause);
+  }
+
+  const response = await processClause(storyId, clause);
+
+  // Repeating a save, restore or undo is never what AGAIN means
+  if (!commandParser.isMetaCommand(command)) {
+    await prisma.playerState.update({
+      where: { storyId },
+      data: { lastCommand: clause },
+    });
+  }
+
+  return response;
+}
+
+/**
+ * Repeat a disambiguation question when the answer still fits several options
+ */
+async function askAgain(
+  storyId: string,
+  playerInput: string,
+  question: disambiguationService.PendingQuestion,
+  options: disambiguationService.QuestionOption[]
+): Promise<GameResponse> {
+  const narrative = await disambiguationService.askWhich(
+    storyId,
+    question.rawInput,
+    question.term,
+    options
+  );
+
+  const playerState = await prisma.playerState.findUnique({
+    where: { storyId },
+  });
+  if (!playerState) {
+    throw new Error('Player state not found');
+  }
+  const currentRoom = await roomService.getRoom(playerState.currentRoomId);
+
+  await addToTranscript(storyId, 'player', playerInput, 'command', playerState.currentRoomId);
+  await addToTranscript(storyId, 'narrator', narrative, 'narrative', playerState.currentRoomId);
+
+  return {
+    success: false,
+    narrative,
+    roomChanged: false,
+    gameState: {
+      roomName: currentRoom?.name || '',
+      turnCount: playerState.turnCount,
+      score: playerState.score,
+    },
+    menu: { type: 'disambiguation', options },
+  };
+}
+
+/**
+ * Decide whether a chained command should stop after this clause
+ */
+function shouldStopChain(clause: string, response: GameResponse): boolean {
+  if (!response.success || response.menu) return true;
+  if (response.dilemmaTriggered || response.gameOver) return true;
+  if (response.timedEvents && response.timedEvents.triggered.length > 0) return true;
+
+  // Being moved by something other than a movement command is a surprise
+  const commandType = commandParser.parseCommand(clause).type;
+  if (response.roomChanged && !EXPECTED_ROOM_CHANGE.includes(commandType)) return true;
+
+  return false;
+}
+
+/**
+ * Merge the responses of a chained command into one
+ */
+function combineChainResponses(
+  clauses: string[],
+  responses: GameResponse[],
+  stoppedAt: number
+): GameResponse {
+  let narrative = responses
+    .map((r, i) => `> ${clauses[i]}\n${r.narrative}`)
+    .join('\n\n');
+
+  const skipped = clauses.slice(stoppedAt);
+  if (skipped.length > 0) {
+    narrative += `\n\n[Stopped before: ${skipped.join(', ')}]`;
+  }
+
+  return mergeResponses(responses, narrative);
+}
+
+/**
+ * Merge several turns' responses under one narrative - the last turn's state wins
+ */
+function mergeResponses(responses: GameResponse[], narrative: string): GameResponse {
+  const last = responses[responses.length - 1];
+
+  const combined: GameResponse = {
+    success: responses.every(r => r.success),
+    narrative,
+    roomChanged: responses.some(r => r.roomChanged),
+    newRoomId: [...responses].reverse().find(r => r.newRoomId)?.newRoomId,
+    gameState: last.gameState,
+    dilemmaTriggered: last.dilemmaTriggered,
+    gameOver: last.gameOver,
+    menu: last.menu,
+  };
+
+  const withEvents = responses.filter(r => r.timedEvents);
+  if (withEvents.length > 0) {
+    combined.timedEvents = {
+      activeCount: withEvents[withEvents.length - 1].timedEvents!.activeCount,
+      narratives: withEvents.flatMap(r => r.timedEvents!.narratives),
+      triggered: withEvents.flatMap(r => r.timedEvents!.triggered),
+    };
+  }
+
+  return combined;
+}
+
+/**
+ * Walk a GO TO route one room at a time
+ * Every step is a full turn (timed events tick, dilemmas can trigger), and the
+ * walk stops early if anything interrupts or someone is met along the way.
+ */
+async function processTravel(
+  storyId: string,
+  playerInput: string,
+  command: commandParser.ParsedCommand
+): Promise<GameResponse> {
+  const playerState = await prisma.playerState.findUnique({
+    where: { storyId },
+  });
+  if (!playerState) {
+    throw new Error('Player state not found');
+  }
+
+  const { route, error } = await travelService.findRoute(
+    storyId,
+    playerState.currentRoomId,
+    command.target || ''
+  );
+
+  if (!route) {
+    const narrative = error || 'You can\'t find a way there.';
+    const currentRoom = await roomService.getRoom(playerState.currentRoomId);
+
+    await addToTranscript(storyId, 'player', playerInput, 'command', playerState.currentRoomId);
+    await addToTranscript(storyId, 'narrator', narrative, 'narrative', playerState.currentRoomId);
+
+    return {
+      success: false,
+      narrative,
+      roomChanged: false,
+      gameState: {
+        roomName: currentRoom?.name || '',
+        turnCount: playerState.turnCount,
+        score: playerState.score,
+      },
+    };
+  }
+
+  const steps: GameResponse[] = [];
+  let interruption: string | null = null;
+
+  for (let i = 0; i < route.directions.length; i++) {
+    const clause = `go ${route.directions[i]}`;
+    const step = await processClause(storyId, clause);
+    steps.push(step);
+
+    if (i === route.directions.length - 1) break;
+
+    if (shouldStopChain(clause, step)) {
+      interruption = `[Stopped on the way to the ${route.destination.name}]`;
+      break;
+    }
+
+    // Meeting someone along the way is worth stopping for
+    const room = step.newRoomId ? await roomService.getRoom(step.newRoomId) : null;
+    if (room && room.charactersHere.length > 0) {
+      const names = room.charactersHere.map(c => c.name).join(', ');
+      interruption = `[Stopped on the way to the ${route.destination.name} - ${names} ${room.charactersHere.length === 1 ? 'is' : 'are'} here]`;
+      break;
+    }
+  }
+
+  // Rooms passed through get one line; where the walk ends gets the full description
+  const lines = steps.map((step, i) => {
+    if (i === steps.length - 1) return step.narrative;
+    const passing = `You pass through the ${step.gameState.roomName}.`;
+    const eventNarratives = step.timedEvents?.narratives || [];
+    return [passing, ...eventNarratives].join('\n');
+  });
+
+  if (interruption) {
+    lines.push(interruption);
+  }
+
+  return mergeResponses(steps, lines.join('\n\n'));
+}
+
+/**
+ * Process a single command as one turn
+ */
+async function processClause(
+  storyId: string,
+  playerInput: string
+): Promise<GameResponse> {
+  // Parse the command
+  const command = commandParser.parseCommand(playerInput);
+
+  // GO TO walks a route, taking one turn per room
+  if (command.type === 'TRAVEL') {
+    return processTravel(storyId, playerInput, command);
+  }
+
+  // Journal the turn so it can be undone (meta commands aren't journaled)
+  const pendingTurn = commandParser.isMetaCommand(command)
+    ? null
+    : await journalService.beginTurn(storyId);
+
+  // Somewhere to come back to if this turn goes badly
+  if (pendingTurn) {
+    await endingService.autosave(storyId, pendingTurn.before);
+  }
+
   // Get current room before processing (for transcript)
   const playerStateBefore = await prisma.playerState.findUnique({
     where: { storyId },
@@ -129,12 +444,14 @@ export async function processTurn(
     playerStateBefore?.currentRoomId
   );
 
-  // Parse the command
-  const command = commandParser.parseCommand(playerInput);
-
   // Execute the command
+  const stepsBefore = await hintService.countCompletedSteps(storyId);
   const result = await commandParser.executeCommand(storyId, command);
 
+  // Countdowns only answer to actions that did something - looking around or failing doesn't count
+  const actedOnWorld = !!pendingTurn && result.success && !PASSIVE_COMMANDS.includes(command.type) &&
+    await journalService.hasWorldChanged(storyId, pendingTurn);
+
   // Get updated player state
   const playerState = await prisma.playerState.findUnique({
     where: { storyId },
@@ -150,14 +467,46 @@ export async function processTurn(
     throw new Error('Current room not found');
   }
 
-  // Log narrator response to transcript
-  await addToTranscript(
-    storyId,
-    'narrator',
-    result.response,
-    'narrative',
-    currentRoom.id
-  );
+  // Log narrator response to transcript - character replies are filed as their dialogue
+  if (result.dialogue) {
+    await addToTranscript(
+      storyId,
+      `character:${result.dialogue.characterName}`,
+      result.response,
+      'dialogue',
+      currentRoom.id,
+      { characterId: result.dialogue.characterId, playerLine: result.dialogue.playerLine }
+    );
+  } else {
+    await addToTranscript(
+      storyId,
+      'narrator',
+      result.response,
+      'narrative',
+      currentRoom.id
+    );
+  }
+
+  const menu = result.menuType && result.menuOptions
+    ? { type: result.menuType, options: result.menuOptions }
+    : undefined;
+
+  // Meta commands (save, restore, undo) act on the game, not the world - no time passes.
+  // Neither does asking the player which object they meant.
+  if (commandParser.isMetaCommand(command) || result.menuType === 'disambiguation') {
+    return {
+      success: result.success,
+      narrative: result.response,
+      roomChanged: result.roomChanged || false,
+      newRoomId: result.newRoomId,
+      gameState: {
+        roomName: currentRoom.name,
+        turnCount: playerState.turnCount,
+        score: playerState.score,
+      },
+      menu,
+    };
+  }
 
   // Record personality signal if present
   if (result.personalitySignal) {
@@ -166,7 +515,7 @@ export async function processTurn(
 
   // Check for puzzle step completion
   const inventory = await prisma.gameObject.findMany({
-    where: { storyId, roomId: null },
+    where: { storyId, roomId: null, ownerCharacterId: null },
     select: { name: true },
   });
   const inventoryNames = inventory.map(i => i.name);
@@ -178,9 +527,54 @@ export async function processTurn(
     inventoryNames
   );
 
+  // A player who hasn't moved a step forward in a while gets a nudge
+  const nudge = await hintService.trackProgress(
+    storyId,
+    currentRoom,
+    await hintService.countCompletedSteps(storyId) > stepsBefore
+  );
+
+  // Characters go about their schedules
+  const npcMovements = await npcService.tickCharacters(storyId);
+  const npcNarrative = npcService.formatMovements(
+    npcMovements,
+    currentRoom.id,
+    await lightService.isRoomLit(storyId, currentRoom.id)
+  );
+
+  // The fight goes on - opponents strike at a player busy with something else
+  const combat = await combatService.tickCombat(
+    storyId,
+    currentRoom.id,
+    playerStateBefore?.combatWith ? playerStateBefore.combatRound : null
+  );
+
+  // Countdowns the player's action dealt with stop (or slow) before they tick
+  const preventionNarrative = await resolvePreventions(storyId, currentRoom.id, command, result, actedOnWorld);
+
+  // Hunger, fatigue and lingering conditions
+  const condition = await conditionService.tickConditions(storyId, {
+    resting: command.type === 'WAIT',
+  });
+
   // Tick all active timed events
   const tickResults = await timedEventService.tickEvents(storyId, currentRoom.id);
-  const tickNarrative = timedEventService.formatTickResults(tickResults);
+  let tickNarrative = timedEventService.formatTickResults(tickResults);
+
+  // Triggered events change the world
+  const consequenceEffects: consequenceService.ConsequenceEffect[] = [];
+  for (const tick of tickResults) {
+    if (tick.triggered && tick.consequence) {
+      const effects = await consequenceService.executeConsequence(storyId, tick.event, tick.consequence);
+      consequenceEffects.push(...effects);
+      const narrative = effects.filter(e => e.narrative).map(e => e.narrative).join('\n');
+      if (narrative) {
+        tickNarrative = [tickNarrative, narrative].filter(Boolean).join('\n\n');
+      }
+    }
+  }
+  const forcedMove = [...consequenceEffects].reverse().find(e => e.newRoomId);
+  const roomAfter = forcedMove?.newRoomId ? await roomService.getRoom(forcedMove.newRoomId) : null;
   const gameOverCheck = timedEventService.checkForGameOver(tickResults);
 
   // Get active event count for display
@@ -194,7 +588,10 @@ export async function processTurn(
       tickNarrative,
       'system',
       currentRoom.id,
-      { timedEvents: tickResults.map(r => ({ name: r.event.name, triggered: r.triggered })) }
+      {
+        timedEvents: tickResults.map(r => ({ name: r.event.name, triggered: r.triggered })),
+        consequences: consequenceEffects.map(e => ({ type: e.type, summary: e.summary })),
+      }
     );
   }
 
@@ -213,6 +610,13 @@ export async function processTurn(
     );
   }
 
+  // Points for anything achieved this turn
+  const awards = await scoringService.awardNewPoints(storyId);
+  const awardNarrative = scoringService.formatAward(awards);
+  const achievementNarrative = achievementService.formatEarned(
+    await achievementService.checkAchievements(storyId)
+  );
+
   // Build narrative with puzzle and timed event info appended
   let finalNarrative = result.response;
 
@@ -221,21 +625,50 @@ export async function processTurn(
     finalNarrative += '\n\n' + puzzleResult.narratives.join('\n');
   }
 
+  if (npcNarrative) {
+    finalNarrative += '\n\n' + npcNarrative;
+  }
+
+  if (combat.narrative) {
+    finalNarrative += '\n\n' + combat.narrative;
+  }
+
+  if (condition.narrative) {
+    finalNarrative += '\n\n' + condition.narrative;
+  }
+
+  if (preventionNarrative) {
+    finalNarrative += '\n\n' + preventionNarrative;
+  }
+
   if (tickNarrative) {
     finalNarrative += '\n\n' + tickNarrative;
   }
 
+  if (nudge) {
+    finalNarrative += '\n\n' + nudge;
+  }
+
+  if (awardNarrative) {
+    finalNarrative += '\n\n' + awardNarrative;
+  }
+
+  if (achievementNarrative) {
+    finalNarrative += '\n\n' + achievementNarrative;
+  }
+
   // Build response
   const response: GameResponse = {
     success: result.success,
     narrative: finalNarrative,
-    roomChanged: result.roomChanged || false,
-    newRoomId: result.newRoomId,
+    roomChanged: result.roomChanged || !!roomAfter,
+    newRoomId: roomAfter?.id || result.newRoomId,
     gameState: {
-      roomName: currentRoom.name,
+      roomName: roomAfter?.name || currentRoom.name,
       turnCount: playerState.turnCount,
-      score: playerState.score,
+      score: playerState.score + awards.reduce((sum, a) => sum + a.points, 0),
     },
+    menu,
   };
 
   // Add timed events info
@@ -253,21 +686,107 @@ export async function processTurn(
     };
   }
 
-  // Handle game over from timed events
+  // Handle game over from timed events - ending the story outright, or hurting the player past bearing
+  const fatalEffect = consequenceEffects.find(e => e.collapsed);
   if (gameOverCheck.isGameOver) {
     response.gameOver = {
       reason: 'timed_event',
       narrative: gameOverCheck.narrative || 'Time ran out.',
     };
+  } else if (fatalEffect) {
+    response.gameOver = {
+      reason: 'timed_event',
+      narrative: fatalEffect.narrative || 'Your strength gives out.',
+    };
+  }
+
+  // Handle game over from a lost fight
+  if (result.gameOver) {
+    response.gameOver = result.gameOver;
+  } else if (combat.playerDefeated) {
+    response.gameOver = {
+      reason: 'combat',
+      narrative: `You were beaten by ${combat.opponentName}.`,
+    };
+  } else if (condition.collapsed) {
+    response.gameOver = {
+      reason: 'condition',
+      narrative: condition.narrative || 'Your strength gives out.',
+    };
+  }
+
+  // The story ends here unless the player chooses a way back
+  if (response.gameOver) {
+    response.gameOver = await endingService.enterGameOver(storyId, response.gameOver);
+    response.narrative += '\n\n' + gameOverPrompt(response.gameOver);
+  } else {
+    // Resolving the final beat ends the story
+    const epilogue = await endingService.completeStory(storyId);
+    if (epilogue) {
+      const ending = endingService.formatEpilogue(epilogue);
+      await addToTranscript(storyId, 'narrator', ending, 'narrative', currentRoom.id, { epilogue: true });
+      response.narrative += '\n\n' + ending;
+      response.storyEnded = true;
+    }
   }
 
   if (triggeredDilemma) {
     response.dilemmaTriggered = triggeredDilemma;
   }
 
+  if (pendingTurn) {
+    await journalService.commitTurn(storyId, pendingTurn, playerInput);
+  }
+
   return response;
 }
 
+/**
+ * Stop or stall countdowns the player's action dealt with
+ * Completed puzzle steps linked to an event settle it first; the AI judges the rest,
+ * but only for actions that changed the world. Each countdown can be stalled once.
+ */
+async function resolvePreventions(
+  storyId: string,
+  roomId: string,
+  command: commandParser.ParsedCommand,
+  result: commandParser.CommandResult,
+  actedOnWorld: boolean
+): Promise<string | null> {
+  const lines: string[] = [];
+
+  const resolved = await timedEventService.getEventsResolvedBySteps(storyId, roomId);
+  for (const event of resolved) {
+    await timedEventService.cancelEvent(event.id);
+    lines.push(timedEventService.formatPrevention(event, 'prevented'));
+  }
+
+  if (!actedOnWorld) {
+    return lines.length > 0 ? lines.join('\n\n') : null;
+  }
+
+  // An event that hasn't ticked yet was started by this very action
+  const remaining = (await timedEventService.getActiveEvents(storyId, roomId))
+    .filter(e => e.canBePrevented && e.turnsRemaining < e.totalTurns && !resolved.some(r => r.id === e.id));
+  const judgements = await judgeTimedEventPrevention(storyId, remaining, command.rawInput, result.response);
+
+  for (const judgement of judgements) {
+    const event = remaining.find(e => e.id === judgement.eventId);
+    if (!event) continue;
+
+    if (judgement.outcome === 'prevented') {
+      await timedEventService.cancelEvent(event.id);
+    } else if (event.isDelayed) {
+      continue;
+    } else {
+      await timedEventService.extendEvent(event.id, judgement.extraTurns);
+    }
+    lines.push(timedEventService.formatPrevention(event, judgement.outcome, judgement.narrative, judgement.extraTurns));
+  }
+
+  return lines.length > 0 ? lines.join('\n\n') : null;
+}
+
 /**
  * Record a personality event from gameplay
  */
@@ -392,6 +911,100 @@ async function checkDilemmaTriggers(
   };
 }
 
+/**
+ * Tell the player how the story ended and which ways back they have
+ */
+function gameOverPrompt(gameOver: endingService.GameOver): string {
+  const lines = ['*** THE STORY HAS ENDED ***'];
+  if (gameOver.epitaph) {
+    lines.push('', gameOver.epitaph);
+  }
+
+  const choices = [
+    gameOver.canRestore ? 'RESTORE to return to your last autosave' : null,
+    gameOver.canRetry ? 'RETRY BEAT to begin this part of the story again' : null,
+    'ACCEPT to let the ending stand',
+  ].filter(Boolean);
+  lines.push('', `You may ${choices.join(', or ')}.`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Build a response that leaves the world as it is
+ */
+async function stillResponse(storyId: string, narrative: string, success: boolean): Promise<GameResponse> {
+  const gameState = await getGameState(storyId);
+  return {
+    success,
+    narrative,
+    roomChanged: false,
+    gameState: {
+      roomName: gameState?.currentRoom.name || '',
+      turnCount: gameState?.turnCount || 0,
+      score: gameState?.score || 0,
+    },
+  };
+}
+
+/**
+ * Answer anything but a game over choice while the story waits on one
+ */
+async function gameOverResponse(
+  storyId: string,
+  gameOver: endingService.GameOver,
+  narrative: string
+): Promise<GameResponse> {
+  return { ...(await stillResponse(storyId, narrative, false)), gameOver };
+}
+
+/**
+ * Answer a story whose ending has been accepted
+ */
+async function endedResponse(storyId: string, narrative: string): Promise<GameResponse> {
+  return { ...(await stillResponse(storyId, narrative, true)), storyEnded: true };
+}
+
+/**
+ * Act on the player's choice after a game over
+ * RESTORE and RETRY BEAT bring the story back and replay a save; ACCEPT ends it.
+ */
+export async function resolveGameOver(
+  storyId: string,
+  choice: endingService.GameOverChoice
+): Promise<GameResponse> {
+  const gameOver = await endingService.getGameOver(storyId);
+  if (!gameOver) {
+    return (await endingService.isStoryOver(storyId))
+      ? endedResponse(storyId, 'This story has ended.')
+      : stillResponse(storyId, 'The story goes on.', false);
+  }
+
+  if (choice === 'accept') {
+    await endingService.acceptEnding(storyId);
+    await addToTranscript(storyId, 'system', 'The ending was accepted.', 'system', undefined, {
+      gameOver: { reason: gameOver.reason, epitaph: gameOver.epitaph },
+    });
+    return endedResponse(storyId, gameOver.epitaph || 'And so the story ends.');
+  }
+
+  const saveName = await endingService.getChoiceSave(storyId, choice);
+  if (!saveName) {
+    const missing = choice === 'restore'
+      ? 'There is no autosave to return to.'
+      : 'There is no saved start for this part of the story.';
+    return gameOverResponse(storyId, gameOver, `${missing}\n\n${gameOverPrompt(gameOver)}`);
+  }
+
+  await endingService.revive(storyId);
+  const restored = await processClause(storyId, `restore ${saveName}`);
+  const intro = choice === 'restore'
+    ? 'You are given another chance.'
+    : 'The story winds back to where this part began.';
+
+  return { ...restored, narrative: `${intro}\n\n${restored.narrative}` };
+}
+
 /**
  * Handle player's response to a dilemma
  */
@@ -400,7 +1013,7 @@ export async function handleDilemmaResponse(
   dilemmaId: string,
   chosenOption: string, // 'A', 'B', 'C', or 'OTHER'
   playerResponse: string
-): Promise<{ outcomeNarrative: string }> {
+): Promise<{ outcomeNarrative: string; storyEnded?: boolean }> {
   const dilemma = await prisma.dilemmaPoint.findUnique({
     where: { id: dilemmaId },
   });
@@ -429,9 +1042,15 @@ export async function handleDilemmaResponse(
   });
 
   // Calculate personality signal based on choice
-  const optionA = dilemma.optionA as { description: string; personalityImplication: string; outcomeNarrative?: string };
-  const optionB = dilemma.optionB as { description: string; personalityImplication: string; outcomeNarrative?: string };
-  const optionC = dilemma.optionC as { description: string; personalityImplication: string; outcomeNarrative?: string } | null;
+  type DilemmaOption = {
+    description: string;
+    personalityImplication: string;
+    outcomeNarrative?: string;
+    affinityChanges?: Array<{ characterName: string; delta: number }>;
+  };
+  const optionA = dilemma.optionA as DilemmaOption;
+  const optionB = dilemma.optionB as DilemmaOption;
+  const optionC = dilemma.optionC as DilemmaOption | null;
 
   let delta = 0;
   let reasoning = '';
@@ -463,6 +1082,32 @@ export async function handleDilemmaResponse(
       break;
   }
 
+  // The choice resolves the story beat it belongs to
+  if (dilemma.storyBeatId) {
+    await puzzleService.completeStoryBeat(
+      dilemma.storyBeatId,
+      chosenOption === 'OTHER' ? 'other' : `option_${chosenOption.toLowerCase()}`
+    );
+    const awardNarrative = scoringService.formatAward(await scoringService.awardNewPoints(storyId));
+    const achievementNarrative = achievementService.formatEarned(
+      await achievementService.checkAchievements(storyId)
+    );
+    for (const line of [awardNarrative, achievementNarrative]) {
+      if (line) outcomeNarrative += '\n\n' + line;
+    }
+  }
+
+  // Characters caught up in the choice remember which side the player took
+  const chosen = { A: optionA, B: optionB, C: optionC }[chosenOption];
+  for (const change of chosen?.affinityChanges || []) {
+    await affinityService.adjustAffinityByName(
+      storyId,
+      change.characterName,
+      change.delta,
+      `dilemma: ${dilemma.description}`
+    );
+  }
+
   // Log the outcome narrative to transcript
   await addToTranscript(
     storyId,
@@ -493,7 +1138,15 @@ export async function handleDilemmaResponse(
     });
   }
 
-  return { outcomeNarrative };
+  // That may have been the final beat - the choice just made is part of the epilogue
+  const epilogue = await endingService.completeStory(storyId);
+  if (epilogue) {
+    const ending = endingService.formatEpilogue(epilogue);
+    await addToTranscript(storyId, 'narrator', ending, 'narrative', dilemma.roomId || undefined, { epilogue: true });
+    outcomeNarrative += '\n\n' + ending;
+  }
+
+  return { outcomeNarrative, storyEnded: !!epilogue };
 }
 
 /**
@@ -550,7 +1203,8 @@ export async function getOpeningNarrative(storyId: string): Promise<string> {
   const { currentRoom } = gameState;
   const description = currentRoom.description || 'You find yourself in an unfamiliar place.';
 
-  const narrative = roomService.formatRoomDescription(currentRoom, description, true);
+  const isLit = await lightService.isRoomLit(storyId, currentRoom.id);
+  const narrative = roomService.formatRoomDescription(currentRoom, description, true, isLit);
 
   // Log opening to transcript
   await addToTranscript(storyId, 'narrator', narrative, 'narrative', currentRoom.id);
@@ -598,6 +1252,7 @@ export async function getTranscript(storyId: string): Promise<Array<{
   speaker: string;
   content: string;
   messageType: string;
+  isUndone: boolean;
   createdAt: Date;
 }>> {
   return prisma.gameTranscript.findMany({
@@ -608,6 +1263,7 @@ export async function getTranscript(storyId: string): Promise<Array<{
       speaker: true,
       content: true,
       messageType: true,
+      isUndone: true,
       createdAt: true,
     },
   });
@@ -0,0 +1,175 @@
+/**
+ * Hint Service
+ * Escalating hints for the step the player is stuck on
+ *
+ * Each HINT on the same step climbs a tier: a cryptic nudge, then the
+ * step's stored hint, then the explicit next action built from its
+ * completion requirements. Hints used are counted per step.
+ */
+
+import { PrismaClient, PuzzleStep } from '@prisma/client';
+import * as timedEventService from './timedEventService';
+
+const prisma = new PrismaClient();
+
+export const HINT_TIERS = 3;
+
+// Turns without completing a step before the game offers a nudge unasked
+const NUDGE_AFTER_TURNS = 20;
+
+// Cryptic first-tier nudges by what the step revolves around
+const NUDGES: Record<string, string> = {
+  character: 'Someone you have met may know more than they have said.',
+  object: 'Something within reach deserves a closer look.',
+  location: 'There is a place you have not yet looked at properly.',
+  action: 'Think about what you carry, and where it might make a difference.',
+};
+
+/**
+ * Find the step the player should be working on
+ * Prefers active puzzles, then puzzles that start in the current room.
+ */
+async function getStuckStep(storyId: string, currentRoomId: string): Promise<PuzzleStep | null> {
+  const puzzles = await prisma.puzzle.findMany({
+    where: {
+      storyId,
+      isDiscovered: true,
+      status: { in: ['active', 'pending'] },
+    },
+    include: {
+      steps: {
+        where: { isRevealed: true, isCompleted: false },
+        orderBy: { stepNumber: 'asc' },
+      },
+    },
+    orderBy: { displayOrder: 'asc' },
+  });
+
+  const candidates = puzzles
+    .filter(p => p.steps.length > 0)
+    .sort((a, b) =>
+      Number(b.status === 'active') - Number(a.status === 'active') ||
+      Number(b.roomId === currentRoomId) - Number(a.roomId === currentRoomId)
+    );
+
+  return candidates[0]?.steps[0] || null;
+}
+
+/**
+ * Tier 1 - point in the right direction without naming anything
+ */
+function crypticNudge(step: PuzzleStep, currentRoomName: string): string {
+  if (step.requiredRoom && step.requiredRoom.toLowerCase() !== currentRoomName.toLowerCase()) {
+    return 'Whatever comes next, it will not happen here.';
+  }
+  return NUDGES[step.nodeType] || NUDGES.action;
+}
+
+/**
+ * Tier 3 - spell out what to do
+ */
+function explicitAction(step: PuzzleStep): string {
+  const lines: string[] = [];
+
+  if (step.completionAction) {
+    lines.push(`Try: ${step.completionAction.toUpperCase()}`);
+  } else if (step.targetName) {
+    lines.push(`Focus on the ${step.targetName}.`);
+  } else {
+    lines.push(step.description);
+  }
+
+  const requiredItems = (step.requiredItems as string[] | null) || [];
+  if (requiredItems.length > 0) {
+    lines.push(`You will need: ${requiredItems.join(', ')}.`);
+  }
+  if (step.requiredRoom) {
+    lines.push(`It has to be done in the ${step.requiredRoom}.`);
+  }
+
+  return lines.join(' ');
+}
+
+/**
+ * Get the hint text for a tier (1-based)
+ */
+function hintForTier(step: PuzzleStep, tier: number, currentRoomName: string): string {
+  if (tier <= 1) return crypticNudge(step, currentRoomName);
+  if (tier === 2) return step.hint || (step.targetName ? `Think about the ${step.targetName}.` : crypticNudge(step, currentRoomName));
+  return explicitAction(step);
+}
+
+/**
+ * Give the player the next hint, escalating on repeat requests
+ */
+export async function getHint(
+  storyId: string,
+  currentRoom: { id: string; name: string }
+): Promise<string> {
+  const lines: string[] = [];
+
+  // A countdown the player can still stop comes first
+  const urgent = (await timedEventService.getActiveEvents(storyId, currentRoom.id))
+    .find(e => e.canBePrevented && e.preventionHint);
+  if (urgent) {
+    lines.push(`Time is short: ${urgent.preventionHint}`);
+  }
+
+  const step = await getStuckStep(storyId, currentRoom.id);
+  if (!step) {
+    if (lines.length === 0) {
+      lines.push('Explore, examine what you find, and talk to the people you meet. Something will turn up.');
+    }
+    return lines.join('\n\n');
+  }
+
+  const tier = Math.min(HINT_TIERS, step.hintsUsed + 1);
+  await prisma.puzzleStep.update({
+    where: { id: step.id },
+    data: { hintsUsed: tier },
+  });
+
+  lines.push(`[Hint ${tier} of ${HINT_TIERS}] ${hintForTier(step, tier, currentRoom.name)}`);
+  if (tier < HINT_TIERS) {
+    lines.push('(Type HINT again for a clearer hint.)');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Count completed steps across the story
+ */
+export async function countCompletedSteps(storyId: string): Promise<number> {
+  return prisma.puzzleStep.count({
+    where: { puzzle: { storyId }, isCompleted: true },
+  });
+}
+
+/**
+ * Track turns without progress, offering a gentle nudge when the player seems stuck
+ * The nudge is free - it doesn't count as a hint used.
+ */
+export async function trackProgress(
+  storyId: string,
+  currentRoom: { id: string; name: string },
+  progressed: boolean
+): Promise<string | null> {
+  const playerState = await prisma.playerState.findUnique({ where: { storyId } });
+  if (!playerState) return null;
+
+  const turnsWithoutProgress = progressed ? 0 : playerState.turnsWithoutProgress + 1;
+  const stuck = turnsWithoutProgress >= NUDGE_AFTER_TURNS;
+
+  await prisma.playerState.update({
+    where: { storyId },
+    data: { turnsWithoutProgress: stuck ? 0 : turnsWithoutProgress },
+  });
+
+  if (!stuck) return null;
+
+  const step = await getStuckStep(storyId, currentRoom.id);
+  if (!step) return null;
+
+  return `You pause to gather your thoughts. ${crypticNudge(step, currentRoom.name)} (Type HINT if you're stuck.)`;
+}
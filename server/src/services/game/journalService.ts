@@ -0,0 +1,414 @@
+/**
+ * Journal Service
+ * Per-turn record of changed rows, used to UNDO the last turn
+ *
+ * Each turn is bracketed by two world snapshots. Only the difference is stored:
+ * the "before" version of updated rows, ids of created rows, and full copies
+ * of deleted rows, which is everything needed to put the world back.
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import * as saveService from './saveService';
+import logger from '../../utils/logger.js';
+
+const prisma = new PrismaClient();
+
+// How many turns can be undone in a row
+const MAX_JOURNAL_ENTRIES = 50;
+
+type SnapshotRow = saveService.SnapshotRow;
+type JournalTable = Exclude<keyof saveService.WorldSnapshot, 'version' | 'capturedAt'>;
+
+export interface TableChanges {
+  updated: SnapshotRow[]; // Rows as they were before the turn
+  created: string[];      // Ids of rows the turn created
+  deleted: SnapshotRow[]; // Rows the turn deleted
+}
+
+export type JournalChanges = Partial<Record<JournalTable, TableChanges>>;
+
+export interface PendingTurn {
+  before: saveService.WorldSnapshot;
+  transcriptFrom: number;
+  fingerprint: string;
+}
+
+export interface UndoResult {
+  playerInput: string;
+}
+
+/**
+ * Get rows for a table from a snapshot (single-row tables become a list)
+ */
+function tableRows(snapshot: saveService.WorldSnapshot, table: JournalTable): SnapshotRow[] {
+  const value = snapshot[table];
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Compute the changes between two snapshots
+ */
+function diffSnapshots(
+  before: saveService.WorldSnapshot,
+  after: saveService.WorldSnapshot
+): JournalChanges {
+  const tables = Object.keys(before).filter(
+    key => key !== 'version' && key !== 'capturedAt'
+  ) as JournalTable[];
+
+  const changes: JournalChanges = {};
+
+  for (const table of tables) {
+    const beforeRows = new Map(tableRows(before, table).map(r => [r.id, r]));
+    const afterRows = new Map(tableRows(after, table).map(r => [r.id, r]));
+
+    const updated: SnapshotRow[] = [];
+    const deleted: SnapshotRow[] = [];
+    const created: string[] = [];
+
+    for (const [id, row] of beforeRows) {
+      const afterRow = afterRows.get(id);
+      if (!afterRow) {
+        deleted.push(row);
+      } else if (JSON.stringify(row) !== JSON.stringify(afterRow)) {
+        updated.push(row);
+      }
+    }
+
+    for (const id of afterRows.keys()) {
+      if (!beforeRows.has(id)) created.push(id);
+    }
+
+    if (updated.length > 0 || created.length > 0 || deleted.length > 0) {
+      changes[table] = { updated, created, deleted };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Get the turn number the next transcript entry will use
+ */
+async function nextTranscriptNumber(storyId: string): Promise<number> {
+  const lastEntry = await prisma.gameTranscript.findFirst({
+    where: { storyId },
+    orderBy: { turnNumber: 'desc' },
+    select: { turnNumber: true },
+  });
+  return (lastEntry?.turnNumber ?? -1) + 1;
+}
+
+/**
+ * Sum up the world the player acts on - where they are, and how many objects,
+ * characters, rooms and systems there are and when they last changed
+ * Far cheaper than a snapshot, and any change the player makes moves it.
+ */
+async function worldFingerprint(storyId: string): Promise<string> {
+  const [playerState, objects, characters, rooms, systems] = await Promise.all([
+    prisma.playerState.findUnique({ where: { storyId }, select: { currentRoomId: true } }),
+    prisma.gameObject.aggregate({ where: { storyId }, _count: true, _max: { updatedAt: true } }),
+    prisma.character.aggregate({ where: { storyId }, _count: true, _max: { updatedAt: true } }),
+    prisma.room.aggregate({ where: { storyId }, _count: true, _max: { updatedAt: true } }),
+    prisma.objectSystem.aggregate({ where: { storyId }, _count: true, _max: { updatedAt: true } }),
+  ]);
+
+  return JSON.stringify([
+    playerState?.currentRoomId,
+    ...[objects, characters, rooms, systems].map(t => [t._count, t._max.updatedAt]),
+  ]);
+}
+
+/**
+ * Start journaling a turn - call before the turn changes anything
+ */
+export async function beginTurn(storyId: string): Promise<PendingTurn> {
+  const [before, transcriptFrom, fingerprint] = await Promise.all([
+    saveService.captureWorldState(storyId),
+    nextTranscriptNumber(storyId),
+    worldFingerprint(storyId),
+  ]);
+  return { before, transcriptFrom, fingerprint };
+}
+
+/**
+ * Whether the turn has changed the world so far
+ * The player's own bookkeeping (turn count, referents) doesn't count; moving does.
+ */
+export async function hasWorldChanged(storyId: string, pending: PendingTurn): Promise<boolean> {
+  return await worldFingerprint(storyId) !== pending.fingerprint;
+}
+
+/**
+ * Finish journaling a turn - stores what changed since beginTurn
+ */
+export async function commitTurn(
+  storyId: string,
+  pending: PendingTurn,
+  playerInput: string
+): Promise<void> {
+  const [after, transcriptNext] = await Promise.all([
+    saveService.captureWorldState(storyId),
+    nextTranscriptNumber(storyId),
+  ]);
+
+  await prisma.turnJournal.create({
+    data: {
+      storyId,
+      playerInput,
+      transcriptFrom: pending.transcriptFrom,
+      transcriptTo: transcriptNext - 1,
+      changes: diffSnapshots(pending.before, after) as unknown as Prisma.InputJsonValue,
+    },
+  });
+
+  // Prune old entries beyond the undo limit
+  const stale = await prisma.turnJournal.findMany({
+    where: { storyId },
+    orderBy: { createdAt: 'desc' },
+    skip: MAX_JOURNAL_ENTRIES,
+    select: { id: true },
+  });
+  if (stale.length > 0) {
+    await prisma.turnJournal.deleteMany({
+      where: { id: { in: stale.map(s => s.id) } },
+    });
+  }
+}
+
+/**
+ * Forget all journaled turns (after a restore, old journals no longer apply)
+ */
+export async function clearJournal(storyId: string): Promise<void> {
+  await prisma.turnJournal.deleteMany({ where: { storyId } });
+}
+
+/**
+ * Revert the most recent turn that hasn't been undone yet
+ */
+export async function undoLastTurn(storyId: string): Promise<UndoResult | null> {
+  const entry = await prisma.turnJournal.findFirst({
+    where: { storyId, isUndone: false },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (!entry) return null;
+
+  const changes = entry.changes as unknown as JournalChanges;
+
+  await prisma.$transaction(async (tx) => {
+    await revertChanges(tx, storyId, changes);
+
+    await tx.gameTranscript.updateMany({
+      where: {
+        storyId,
+        turnNumber: { gte: entry.transcriptFrom, lte: entry.transcriptTo },
+      },
+      data: { isUndone: true },
+    });
+
+    await tx.turnJournal.update({
+      where: { id: entry.id },
+      data: { isUndone: true },
+    });
+  }, {
+    timeout: 30000,
+  });
+
+  logger.info('JOURNAL_SERVICE', `Undid turn "${entry.playerInput}"`, {
+    storyId,
+    tables: Object.keys(changes),
+  });
+
+  return { playerInput: entry.playerInput };
+}
+
+/**
+ * Split a journal row into its id and the fields to write back
+ */
+function splitRow(row: SnapshotRow): { id: string; data: Record<string, unknown> } {
+  const { id, ...data } = row;
+  return { id, data };
+}
+
+/**
+ * Write the "before" side of a journal entry back to the database
+ */
+async function revertChanges(
+  tx: Prisma.TransactionClient,
+  storyId: string,
+  changes: JournalChanges
+): Promise<void> {
+  // Characters who left the world come back before anything is handed back to them
+  const characters = changes.characters;
+  for (const row of characters?.deleted || []) {
+    const { id, data } = splitRow(row);
+    await tx.character.create({
+      data: { id, ...data } as Prisma.CharacterUncheckedCreateInput,
+    });
+  }
+
+  // Game objects - created rows go, deleted rows come back, containment last
+  const objects = changes.gameObjects;
+  if (objects) {
+    if (objects.created.length > 0) {
+      await tx.gameObject.updateMany({
+        where: { containedInId: { in: objects.created } },
+        data: { containedInId: null },
+      });
+      await tx.gameObject.deleteMany({ where: { id: { in: objects.created } } });
+    }
+    for (const row of objects.deleted) {
+      const { id, data } = splitRow({ ...row, containedInId: null });
+      await tx.gameObject.create({
+        data: { id, ...data } as Prisma.GameObjectUncheckedCreateInput,
+      });
+    }
+    for (const row of [...objects.updated, ...objects.deleted]) {
+      const { id, data } = splitRow(row);
+      await tx.gameObject.update({
+        where: { id },
+        data: data as Prisma.GameObjectUncheckedUpdateInput,
+      });
+    }
+  }
+
+  // Timed events
+  const events = changes.timedEvents;
+  if (events) {
+    if (events.created.length > 0) {
+      await tx.puzzleStep.updateMany({
+        where: { timedEventId: { in: events.created } },
+        data: { timedEventId: null },
+      });
+      await tx.timedEvent.deleteMany({ where: { id: { in: events.created } } });
+    }
+    for (const row of events.deleted) {
+      const { id, data } = splitRow(row);
+      await tx.timedEvent.create({
+        data: { id, ...data } as Prisma.TimedEventUncheckedCreateInput,
+      });
+    }
+    for (const row of events.updated) {
+      const { id, data } = splitRow(row);
+      await tx.timedEvent.update({
+        where: { id },
+        data: data as Prisma.TimedEventUncheckedUpdateInput,
+      });
+    }
+  }
+
+  // Story facts
+  const facts = changes.storyFacts;
+  if (facts) {
+    if (facts.created.length > 0) {
+      await tx.storyFact.deleteMany({ where: { id: { in: facts.created } } });
+    }
+    for (const row of facts.deleted) {
+      const { id, data } = splitRow(row);
+      await tx.storyFact.create({
+        data: { id, ...data } as Prisma.StoryFactUncheckedCreateInput,
+      });
+    }
+    for (const row of facts.updated) {
+      const { id, data } = splitRow(row);
+      await tx.storyFact.update({
+        where: { id },
+        data: data as Prisma.StoryFactUncheckedUpdateInput,
+      });
+    }
+  }
+
+  // Personality events - the turn's choices no longer count
+  const personalityEvents = changes.personalityEvents;
+  if (personalityEvents) {
+    if (personalityEvents.created.length > 0) {
+      await tx.personalityEvent.deleteMany({ where: { id: { in: personalityEvents.created } } });
+    }
+    for (const row of personalityEvents.deleted) {
+      const { id, data } = splitRow(row);
+      await tx.personalityEvent.create({
+        data: { id, ...data } as Prisma.PersonalityEventUncheckedCreateInput,
+      });
+    }
+  }
+
+  for (const row of changes.rooms?.updated || []) {
+    const { id, data } = splitRow(row);
+    await tx.room.update({ where: { id }, data: data as Prisma.RoomUncheckedUpdateInput });
+  }
+
+  // Characters the turn brought in go, once nothing is left in their hands
+  if (characters) {
+    if (characters.created.length > 0) {
+      await tx.gameObject.updateMany({
+        where: { ownerCharacterId: { in: characters.created } },
+        data: { ownerCharacterId: null },
+      });
+      await tx.character.deleteMany({ where: { id: { in: characters.created } } });
+    }
+    for (const row of characters.updated) {
+      const { id, data } = splitRow(row);
+      await tx.character.update({ where: { id }, data: data as Prisma.CharacterUncheckedUpdateInput });
+    }
+  }
+
+  for (const row of changes.objectSystems?.updated || []) {
+    const { id, data } = splitRow(row);
+    await tx.objectSystem.update({ where: { id }, data: data as Prisma.ObjectSystemUncheckedUpdateInput });
+  }
+
+  for (const row of changes.puzzles?.updated || []) {
+    const { id, data } = splitRow(row);
+    await tx.puzzle.update({ where: { id }, data: data as Prisma.PuzzleUncheckedUpdateInput });
+  }
+
+  for (const row of changes.puzzleSteps?.updated || []) {
+    const { id, data } = splitRow(row);
+    await tx.puzzleStep.update({ where: { id }, data: data as Prisma.PuzzleStepUncheckedUpdateInput });
+  }
+
+  for (const row of changes.dilemmaPoints?.updated || []) {
+    const { id, data } = splitRow(row);
+    await tx.dilemmaPoint.update({ where: { id }, data: data as Prisma.DilemmaPointUncheckedUpdateInput });
+  }
+
+  for (const row of changes.storyBeats?.updated || []) {
+    const { id, data } = splitRow(row);
+    await tx.storyBeat.update({ where: { id }, data: data as Prisma.StoryBeatUncheckedUpdateInput });
+  }
+
+  for (const row of changes.personalityScores?.updated || []) {
+    const { data } = splitRow(row);
+    await tx.personalityScores.update({
+      where: { storyId },
+      data: data as Prisma.PersonalityScoresUncheckedUpdateInput,
+    });
+  }
+
+  for (const row of changes.playerState?.updated || []) {
+    const { data } = splitRow(row);
+    await tx.playerState.update({
+      where: { storyId },
+      data: data as Prisma.PlayerStateUncheckedUpdateInput,
+    });
+  }
+
+  // Rooms the turn generated (e.g., a newly opened passage) - remove them if nothing
+  // else is left inside, so repeating the action can generate them again
+  const createdRooms = changes.rooms?.created || [];
+  if (createdRooms.length > 0) {
+    await tx.room.deleteMany({
+      where: {
+        id: { in: createdRooms },
+        gameObjects: { none: {} },
+        charactersHere: { none: {} },
+        timedEvents: { none: {} },
+        dilemmaPoints: { none: {} },
+        puzzles: { none: {} },
+        dockedVehicles: { none: {} },
+      },
+    });
+  }
+}
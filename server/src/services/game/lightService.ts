@@ -0,0 +1,73 @@
+/**
+ * Light Service
+ * Decides whether the player can see in a room
+ *
+ * Rooms flagged isDark need light: a lit lamp or torch in the room or in the
+ * player's inventory, or a powered object system (a manor's electrical grid)
+ * with one of its objects in the room. Everything else is lit by default.
+ */
+
+import { PrismaClient, GameObject } from '@prisma/client';
+import { filterVisible } from './objectService';
+
+const prisma = new PrismaClient();
+
+// systemState is free text written by the AI, so power is read from its wording
+const POWERED_PATTERN = /\b(on|powered|running|lit|active|working|humming)\b/i;
+const UNPOWERED_PATTERN = /\b(off|unpowered|dead|broken|out|dark|inactive|failed|cut)\b/i;
+
+/**
+ * Check whether a system state description means the system is powered
+ */
+export function isSystemPowered(systemState: string | null): boolean {
+  if (!systemState) return false;
+  return POWERED_PATTERN.test(systemState) && !UNPOWERED_PATTERN.test(systemState);
+}
+
+/**
+ * Check whether any of these objects gives off light the player can see by
+ */
+export function hasVisibleLight(objects: GameObject[]): boolean {
+  return filterVisible(objects).some(obj => obj.isLightSource && obj.isLit);
+}
+
+/**
+ * Check whether the player can see in a room
+ */
+export async function isRoomLit(storyId: string, roomId: string): Promise<boolean> {
+  const room = await prisma.room.findUnique({
+    where: { id: roomId },
+    select: { isDark: true },
+  });
+
+  if (!room || !room.isDark) {
+    return true;
+  }
+
+  // Lamps and torches, whether lying here or carried
+  const nearby = await prisma.gameObject.findMany({
+    where: {
+      storyId,
+      OR: [
+        { roomId },
+        { roomId: null, ownerCharacterId: null },
+      ],
+    },
+  });
+
+  if (hasVisibleLight(nearby.filter(o => o.roomId === roomId)) ||
+      hasVisibleLight(nearby.filter(o => o.roomId === null))) {
+    return true;
+  }
+
+  // Wired-in lighting - any object here belonging to a powered system
+  const systems = await prisma.objectSystem.findMany({
+    where: {
+      storyId,
+      objects: { some: { roomId } },
+    },
+    select: { systemState: true },
+  });
+
+  return systems.some(system => isSystemPowered(system.systemState));
+}
@@ -0,0 +1,176 @@
+/**
+ * NPC Service
+ * Deterministic NPC movement, ticked once per turn
+ *
+ * Each character has a home room and an optional schedule - a loop of stops,
+ * staying a number of turns at each. Characters walk real exits one room per
+ * turn (they know hidden passages, but not through locked doors). Characters
+ * without a schedule stay home, and walk back if something drew them away.
+ */
+
+import { PrismaClient, Character } from '@prisma/client';
+import * as roomService from './roomService';
+import * as travelService from './travelService';
+
+const prisma = new PrismaClient();
+
+export interface ScheduleStop {
+  roomId: string;
+  turns: number; // How long the character stays once there
+}
+
+export interface NpcMovement {
+  characterId: string;
+  name: string;
+  fromRoomId: string;
+  toRoomId: string;
+  direction: roomService.Direction;
+}
+
+// "Ada leaves to the north." / "Ada arrives from below."
+const LEAVE_PHRASES: Record<roomService.Direction, string> = {
+  north: 'to the north',
+  south: 'to the south',
+  east: 'to the east',
+  west: 'to the west',
+  up: 'going up',
+  down: 'going down',
+};
+
+const ARRIVE_PHRASES: Record<roomService.Direction, string> = {
+  north: 'from the north',
+  south: 'from the south',
+  east: 'from the east',
+  west: 'from the west',
+  up: 'from above',
+  down: 'from below',
+};
+
+/**
+ * Read a character's schedule, falling back to staying at home
+ */
+function getStops(character: Character): ScheduleStop[] {
+  const schedule = (character.schedule as unknown as ScheduleStop[]) || [];
+  if (schedule.length > 0) return schedule;
+  return character.homeRoomId ? [{ roomId: character.homeRoomId, turns: 0 }] : [];
+}
+
+/**
+ * Work out where a character is heading this turn
+ * Returns the room to walk toward (null to stay put) and the schedule progress to save.
+ */
+export function planTurn(character: Character): {
+  targetRoomId: string | null;
+  scheduleIndex: number;
+  turnsAtStop: number;
+} {
+  const stops = getStops(character);
+  if (stops.length === 0) {
+    return { targetRoomId: null, scheduleIndex: 0, turnsAtStop: 0 };
+  }
+
+  const index = character.scheduleIndex % stops.length;
+  const stop = stops[index];
+
+  if (character.currentRoomId !== stop.roomId) {
+    return { targetRoomId: stop.roomId, scheduleIndex: index, turnsAtStop: 0 };
+  }
+
+  // At the stop - linger, then set off for the next one
+  if (stops.length === 1 || character.turnsAtStop + 1 < stop.turns) {
+    return { targetRoomId: null, scheduleIndex: index, turnsAtStop: character.turnsAtStop + 1 };
+  }
+
+  const nextIndex = (index + 1) % stops.length;
+  return { targetRoomId: stops[nextIndex].roomId, scheduleIndex: nextIndex, turnsAtStop: 0 };
+}
+
+/**
+ * Move every scheduled character one step
+ */
+export async function tickCharacters(storyId: string): Promise<NpcMovement[]> {
+  const [characters, playerState] = await Promise.all([
+    prisma.character.findMany({ where: { storyId, currentRoomId: { not: null } } }),
+    prisma.playerState.findUnique({ where: { storyId }, select: { conversationWith: true, combatWith: true } }),
+  ]);
+  if (characters.length === 0) return [];
+
+  const allRooms = await prisma.room.findMany({ where: { storyId } });
+  const rooms = allRooms.filter(r => !r.isVehicle);
+  const roomsById = new Map(rooms.map(r => [r.id, r]));
+  const blocked = await travelService.getBlockedExits(storyId);
+
+  const movements: NpcMovement[] = [];
+
+  for (const character of characters) {
+    // Nobody walks off mid-conversation or mid-fight, and the defeated lie where they fell
+    if (character.id === playerState?.conversationWith || character.id === playerState?.combatWith) continue;
+    if (character.stance === 'defeated') continue;
+
+    const currentRoom = roomsById.get(character.currentRoomId!);
+    if (!currentRoom) continue; // Aboard a vehicle, or somewhere off the map
+
+    const plan = planTurn(character);
+    let nextRoomId: string | null = null;
+    let direction: roomService.Direction | null = null;
+
+    if (plan.targetRoomId && plan.targetRoomId !== currentRoom.id) {
+      const path = travelService.shortestPath(rooms, blocked, currentRoom.id, plan.targetRoomId, true);
+      if (path && path.length > 0) {
+        direction = path[0];
+        nextRoomId = roomService.getRoomInDirection(currentRoom, direction);
+      }
+    }
+
+    const scheduleChanged = plan.scheduleIndex !== character.scheduleIndex ||
+      plan.turnsAtStop !== character.turnsAtStop;
+    if (!nextRoomId && !scheduleChanged) continue;
+
+    await prisma.character.update({
+      where: { id: character.id },
+      data: {
+        scheduleIndex: plan.scheduleIndex,
+        turnsAtStop: plan.turnsAtStop,
+        ...(nextRoomId ? { currentRoomId: nextRoomId } : {}),
+      },
+    });
+
+    if (nextRoomId && direction) {
+      movements.push({
+        characterId: character.id,
+        name: character.name,
+        fromRoomId: currentRoom.id,
+        toRoomId: nextRoomId,
+        direction,
+      });
+    }
+  }
+
+  return movements;
+}
+
+/**
+ * Describe the comings and goings the player can see (or hear, in the dark)
+ */
+export function formatMovements(
+  movements: NpcMovement[],
+  playerRoomId: string,
+  isLit: boolean = true
+): string | null {
+  const lines: string[] = [];
+
+  for (const move of movements) {
+    if (move.fromRoomId === playerRoomId) {
+      lines.push(isLit
+        ? `${move.name} leaves ${LEAVE_PHRASES[move.direction]}.`
+        : `You hear footsteps moving away ${LEAVE_PHRASES[move.direction].replace(/^going /, '')}.`);
+    } else if (move.toRoomId === playerRoomId) {
+      const from = roomService.getOppositeDirection(move.direction);
+      lines.push(isLit
+        ? `${move.name} arrives ${ARRIVE_PHRASES[from]}.`
+        : `You hear someone approach ${ARRIVE_PHRASES[from]}.`);
+    }
+  }
+
+  return lines.length > 0 ? lines.join('\n') : null;
+}
@@ -13,27 +13,270 @@ export interface CommandResult {
     reasoning: string;
   };
   discoveryNarratives?: string[];
+  object?: { id: string; name: string }; // The object acted on, when there was one
 }
 
 /**
- * Get all objects in a room
+ * Minimal object interface for containment - what's needed to decide visibility
+ */
+interface ContainableObject {
+  id: string;
+  name: string;
+  containedInId: string | null;
+  isContainer: boolean;
+  isOpen: boolean;
+  isSurface: boolean;
+}
+
+/**
+ * Check whether other objects can be seen and reached inside (or on) an object
+ */
+export function contentsAccessible(obj: ContainableObject): boolean {
+  return obj.isSurface || (obj.isContainer && obj.isOpen);
+}
+
+/**
+ * Drop objects hidden inside closed containers
+ * Contained objects share their outermost container's roomId, so the
+ * whole chain of containers is always in the same list.
+ */
+export function filterVisible<T extends ContainableObject>(objects: T[]): T[] {
+  const byId = new Map(objects.map(o => [o.id, o]));
+
+  const isVisible = (obj: T, depth = 0): boolean => {
+    if (!obj.containedInId) return true;
+    const container = byId.get(obj.containedInId);
+    if (!container || depth > 10) return false;
+    return contentsAccessible(container) && isVisible(container, depth + 1);
+  };
+
+  return objects.filter(obj => isVisible(obj));
+}
+
+/**
+ * Describe an object with whatever can be seen in or on it
+ * e.g., "wooden table (on it: brass lamp, chest (in it: gold coin))"
+ */
+export function describeWithContents<T extends ContainableObject>(obj: T, objects: T[]): string {
+  if (!contentsAccessible(obj)) {
+    return obj.name;
+  }
+
+  const contents = objects.filter(o => o.containedInId === obj.id);
+  if (contents.length === 0) {
+    return obj.name;
+  }
+
+  const preposition = obj.isSurface ? 'on' : 'in';
+  const names = contents.map(o => describeWithContents(o, objects)).join(', ');
+  return `${obj.name} (${preposition} it: ${names})`;
+}
+
+/**
+ * Get all objects in a room, including the visible contents of containers
  */
 export async function getObjectsInRoom(roomId: string): Promise<GameObject[]> {
-  return prisma.gameObject.findMany({
+  const objects = await prisma.gameObject.findMany({
     where: { roomId },
   });
+
+  return filterVisible(objects);
 }
 
 /**
- * Get player's inventory (objects with null roomId)
+ * Get player's inventory (objects with null roomId that no character holds)
+ * Includes the visible contents of carried containers.
  */
 export async function getInventory(storyId: string): Promise<GameObject[]> {
-  return prisma.gameObject.findMany({
+  const objects = await prisma.gameObject.findMany({
     where: {
       storyId,
       roomId: null,
+      ownerCharacterId: null,
     },
   });
+
+  return filterVisible(objects);
+}
+
+/**
+ * Get the ids of everything nested inside an object, at any depth
+ */
+async function getContentIds(objectId: string): Promise<string[]> {
+  const contentIds: string[] = [];
+
+  let parentIds = [objectId];
+  for (let depth = 0; depth < 10 && parentIds.length > 0; depth++) {
+    const children = await prisma.gameObject.findMany({
+      where: { containedInId: { in: parentIds } },
+      select: { id: true },
+    });
+
+    parentIds = children.map(c => c.id);
+    contentIds.push(...parentIds);
+  }
+
+  return contentIds;
+}
+
+/**
+ * Move an object and everything nested inside it to a room (or inventory with null)
+ * Whoever holds the object holds its contents too - no one, unless an owner is given.
+ */
+export async function moveWithContents(
+  objectId: string,
+  roomId: string | null,
+  containedInId: string | null,
+  ownerCharacterId: string | null = null
+): Promise<void> {
+  await prisma.gameObject.update({
+    where: { id: objectId },
+    data: { roomId, containedInId, ownerCharacterId },
+  });
+
+  const contentIds = await getContentIds(objectId);
+  if (contentIds.length > 0) {
+    await prisma.gameObject.updateMany({
+      where: { id: { in: contentIds } },
+      data: { roomId, ownerCharacterId },
+    });
+  }
+}
+
+// ============================================
+// Carrying limits
+// ============================================
+
+// What the player can manage, in the same rough units objects are generated with
+const MAX_CARRY_WEIGHT = 40;
+const MAX_CARRY_BULK = 10; // What fits in hands and pockets - bags add their capacity on top
+
+/**
+ * Get everything the player carries, including the contents of closed containers
+ */
+async function getCarriedObjects(storyId: string): Promise<GameObject[]> {
+  return prisma.gameObject.findMany({
+    where: { storyId, roomId: null, ownerCharacterId: null },
+  });
+}
+
+/**
+ * Drop an object and everything nested inside it from a list
+ */
+function withoutSubtree(objects: GameObject[], objectId: string): GameObject[] {
+  const removed = new Set([objectId]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const obj of objects) {
+      if (obj.containedInId && removed.has(obj.containedInId) && !removed.has(obj.id)) {
+        removed.add(obj.id);
+        grew = true;
+      }
+    }
+  }
+  return objects.filter(obj => !removed.has(obj.id));
+}
+
+/**
+ * Weight of an object plus everything nested inside it
+ */
+function totalWeight(obj: GameObject, objects: GameObject[]): number {
+  const contents = objects.filter(o => o.containedInId === obj.id);
+  return obj.weight + contents.reduce((sum, o) => sum + totalWeight(o, objects), 0);
+}
+
+/**
+ * Bulk taken up by a container's direct contents
+ */
+function bulkInside(containerId: string, objects: GameObject[]): number {
+  return objects
+    .filter(o => o.containedInId === containerId)
+    .reduce((sum, o) => sum + o.bulk, 0);
+}
+
+/**
+ * Bulk the player holds directly - anything not stowed in a bag with a capacity
+ */
+function handBulk(carried: GameObject[]): number {
+  const byId = new Map(carried.map(o => [o.id, o]));
+
+  const isStowed = (obj: GameObject, depth = 0): boolean => {
+    if (!obj.containedInId || depth > 10) return false;
+    const container = byId.get(obj.containedInId);
+    if (!container) return false;
+    return container.capacity > 0 || isStowed(container, depth + 1);
+  };
+
+  return carried.filter(obj => !isStowed(obj)).reduce((sum, o) => sum + o.bulk, 0);
+}
+
+/**
+ * Check whether an object fits in a container with a capacity
+ */
+function fitsInContainer(container: GameObject, object: GameObject, objects: GameObject[]): boolean {
+  if (container.capacity <= 0) return true;
+  return bulkInside(container.id, objects) + object.bulk <= container.capacity;
+}
+
+/**
+ * Check whether the player could bear the weight of an object on top of their load
+ * Returns the refusal, or null if the weight is fine.
+ */
+function checkCarryWeight(object: GameObject, nearby: GameObject[], carried: GameObject[]): string | null {
+  const objectWeight = totalWeight(object, nearby);
+
+  if (objectWeight > MAX_CARRY_WEIGHT) {
+    return `The ${object.name} is far too heavy for you to carry.`;
+  }
+
+  const carriedWeight = carried
+    .filter(o => !o.containedInId)
+    .reduce((sum, o) => sum + totalWeight(o, carried), 0);
+  if (carriedWeight + objectWeight > MAX_CARRY_WEIGHT) {
+    return `The ${object.name} is too heavy to carry along with everything else. You'll have to drop something first.`;
+  }
+
+  return null;
+}
+
+/**
+ * Check whether the player can pick up an object
+ * If their hands are full, a carried bag with room is used instead (stowIn).
+ */
+async function checkCarryLimit(
+  storyId: string,
+  object: GameObject
+): Promise<{ allowed: boolean; response?: string; stowIn?: GameObject }> {
+  const allCarried = await getCarriedObjects(storyId);
+  const carried = withoutSubtree(allCarried, object.id);
+  const nearby = object.roomId === null
+    ? allCarried
+    : await prisma.gameObject.findMany({ where: { roomId: object.roomId } });
+
+  const tooHeavy = checkCarryWeight(object, nearby, carried);
+  if (tooHeavy) {
+    return { allowed: false, response: tooHeavy };
+  }
+
+  if (handBulk(carried) + object.bulk <= MAX_CARRY_BULK) {
+    return { allowed: true };
+  }
+
+  // Hands are full - make room in a bag (never the one it just came out of)
+  const bag = carried.find(o =>
+    o.isContainer && o.isOpen && o.capacity > 0 &&
+    o.id !== object.containedInId &&
+    fitsInContainer(o, object, carried)
+  );
+  if (bag) {
+    return { allowed: true, stowIn: bag };
+  }
+
+  return {
+    allowed: false,
+    response: `Your hands are full - the ${object.name} is too bulky to carry with everything else. Drop something, or find a bag to carry things in.`,
+  };
 }
 
 /**
@@ -67,6 +310,42 @@ export function objectMatchesName(obj: MatchableObject, searchTerm: string): boo
   return false;
 }
 
+/**
+ * Check if an object's name or a synonym is exactly the search term
+ */
+function objectNameIsExactly(obj: MatchableObject, searchTerm: string): boolean {
+  const searchLower = searchTerm.toLowerCase().trim();
+  if (obj.name.toLowerCase().replace(/^\*/, '') === searchLower) {
+    return true;
+  }
+  const synonyms = (obj.synonyms as string[]) || [];
+  return synonyms.some(synonym => synonym.toLowerCase() === searchLower);
+}
+
+/**
+ * Find every object a search term could mean
+ * An exact name or synonym match beats partial ones ("key" vs "key ring"),
+ * and objects sharing the same name count as one candidate.
+ */
+export function findBestMatches<T extends MatchableObject>(objects: T[], searchTerm: string): T[] {
+  let matches = objects.filter(obj => objectMatchesName(obj, searchTerm));
+
+  if (matches.length > 1) {
+    const exact = matches.filter(obj => objectNameIsExactly(obj, searchTerm));
+    if (exact.length > 0) {
+      matches = exact;
+    }
+  }
+
+  const seenNames = new Set<string>();
+  return matches.filter(obj => {
+    const nameLower = obj.name.toLowerCase();
+    if (seenNames.has(nameLower)) return false;
+    seenNames.add(nameLower);
+    return true;
+  });
+}
+
 /**
  * Find an object by name in a room
  */
@@ -74,11 +353,9 @@ export async function findObjectInRoom(
   roomId: string,
   objectName: string
 ): Promise<GameObject | null> {
-  const objects = await prisma.gameObject.findMany({
-    where: { roomId },
-  });
+  const objects = await getObjectsInRoom(roomId);
 
-  return objects.find(obj => objectMatchesName(obj, objectName)) || null;
+  return findBestMatches(objects, objectName)[0] || null;
 }
 
 /**
@@ -90,7 +367,7 @@ export async function findObjectInInventory(
 ): Promise<GameObject | null> {
   const inventory = await getInventory(storyId);
 
-  return inventory.find(obj => objectMatchesName(obj, objectName)) || null;
+  return findBestMatches(inventory, objectName)[0] || null;
 }
 
 /**
@@ -117,11 +394,16 @@ export async function takeObject(
     };
   }
 
-  // Move object to inventory (roomId = null)
-  await prisma.gameObject.update({
-    where: { id: object.id },
-    data: { roomId: null },
-  });
+  const carry = await checkCarryLimit(storyId, object);
+  if (!carry.allowed) {
+    return {
+      success: false,
+      response: carry.response!,
+    };
+  }
+
+  // Move object to inventory (roomId = null), out of any container it was in
+  await moveWithContents(object.id, null, carry.stowIn?.id || null);
 
   // Check if this item triggers puzzle discovery
   const discoveryResult = await puzzleService.discoverPuzzlesFromItem(storyId, object.name);
@@ -139,7 +421,10 @@ export async function takeObject(
 
   return {
     success: true,
-    response: `You take the ${object.name}.`,
+    response: carry.stowIn
+      ? `You take the ${object.name} and put it in the ${carry.stowIn.name}.`
+      : `You take the ${object.name}.`,
+    object: { id: object.id, name: object.name },
     personalitySignal,
     discoveryNarratives: discoveryResult.narratives.length > 0 ? discoveryResult.narratives : undefined,
   };
@@ -162,11 +447,8 @@ export async function dropObject(
     };
   }
 
-  // Move object to room
-  await prisma.gameObject.update({
-    where: { id: object.id },
-    data: { roomId },
-  });
+  // Move object to room, out of any carried container it was in
+  await moveWithContents(object.id, roomId, null);
 
   // Check if dropping a story-critical item
   let personalitySignal: CommandResult['personalitySignal'];
@@ -182,185 +464,801 @@ export async function dropObject(
   return {
     success: true,
     response: `You drop the ${object.name}.`,
+    object: { id: object.id, name: object.name },
     personalitySignal,
   };
 }
 
+// ============================================
+// Containers
+// ============================================
+
 /**
- * Create a new game object in a room
+ * Find an object by name in the room or inventory (room first)
  */
-export async function createObject(data: {
-  storyId: string;
-  roomId: string;
-  name: string;
-  description?: string;
-  isTakeable?: boolean;
-  isContainer?: boolean;
-  isStoryCritical?: boolean;
-  state?: object;
-}): Promise<GameObject> {
-  return prisma.gameObject.create({
-    data: {
-      storyId: data.storyId,
-      roomId: data.roomId,
-      name: data.name,
-      description: data.description,
-      isTakeable: data.isTakeable ?? true,
-      isContainer: data.isContainer ?? false,
-      isStoryCritical: data.isStoryCritical ?? false,
-      state: data.state ?? {},
-    },
-  });
+async function findObjectInReach(
+  storyId: string,
+  roomId: string,
+  objectName: string
+): Promise<GameObject | null> {
+  return (await findObjectInRoom(roomId, objectName)) ||
+    (await findObjectInInventory(storyId, objectName));
 }
 
 /**
- * Update an object's state
+ * Check whether one object is nested (at any depth) inside another
  */
-export async function updateObjectState(
-  objectId: string,
-  stateChanges: Record<string, unknown>
-): Promise<GameObject> {
-  const object = await prisma.gameObject.findUnique({
-    where: { id: objectId },
-  });
-
-  if (!object) {
-    throw new Error(`Object ${objectId} not found`);
+async function isNestedInside(objectId: string, possibleAncestorId: string): Promise<boolean> {
+  let currentId: string | null = objectId;
+  for (let depth = 0; currentId && depth < 10; depth++) {
+    const current: { containedInId: string | null } | null = await prisma.gameObject.findUnique({
+      where: { id: currentId },
+      select: { containedInId: true },
+    });
+    if (!current?.containedInId) return false;
+    if (current.containedInId === possibleAncestorId) return true;
+    currentId = current.containedInId;
   }
-
-  const currentState = (object.state as Record<string, unknown>) || {};
-  const newState = { ...currentState, ...stateChanges };
-
-  return prisma.gameObject.update({
-    where: { id: objectId },
-    data: { state: newState as object },
-  });
+  return false;
 }
 
 /**
- * Open a container or door
+ * Put an object in or on a container
+ * The object can be carried or lying in the room (it's picked up first).
  */
-export async function openObject(
+export async function putObject(
   storyId: string,
+  roomId: string,
   objectName: string,
-  roomId: string
+  containerName: string,
+  preposition: 'in' | 'on'
 ): Promise<CommandResult> {
-  // Check room first
-  let object = await findObjectInRoom(roomId, objectName);
+  const object = (await findObjectInInventory(storyId, objectName)) ||
+    (await findObjectInRoom(roomId, objectName));
 
-  // Then check inventory
   if (!object) {
-    object = await findObjectInInventory(storyId, objectName);
+    return {
+      success: false,
+      response: `You don't have any "${objectName}".`,
+    };
   }
 
-  if (!object) {
+  if (object.roomId !== null && !object.isTakeable) {
     return {
       success: false,
-      response: `You don't see any "${objectName}" to open.`,
+      response: `You can't move the ${object.name}.`,
     };
   }
 
-  if (!object.isContainer) {
+  const container = await findObjectInReach(storyId, roomId, containerName);
+
+  if (!container) {
     return {
       success: false,
-      response: `The ${object.name} can't be opened.`,
+      response: `You don't see any "${containerName}" here.`,
     };
   }
 
-  if (object.isOpen) {
+  if (container.id === object.id) {
     return {
       success: false,
-      response: `The ${object.name} is already open.`,
+      response: `You can't put the ${object.name} ${preposition} itself.`,
     };
   }
 
-  if (object.isLocked) {
+  const fits = preposition === 'on' ? container.isSurface : container.isContainer;
+  if (!fits) {
     return {
       success: false,
-      response: `The ${object.name} is locked.`,
+      response: `You can't put things ${preposition} the ${container.name}.`,
     };
   }
 
-  await prisma.gameObject.update({
-    where: { id: object.id },
-    data: { isOpen: true },
-  });
+  if (preposition === 'in' && !container.isOpen) {
+    return {
+      success: false,
+      response: `The ${container.name} is closed.`,
+    };
+  }
 
-  // Check for contained objects
-  const containedObjects = await prisma.gameObject.findMany({
-    where: { containedInId: object.id },
-  });
+  if (await isNestedInside(container.id, object.id)) {
+    return {
+      success: false,
+      response: `The ${container.name} is ${object.isSurface ? 'on' : 'in'} the ${object.name}.`,
+    };
+  }
 
-  if (containedObjects.length > 0) {
-    const itemList = containedObjects.map(obj => obj.name).join(', ');
+  if (object.containedInId === container.id) {
     return {
-      success: true,
-      response: `You open the ${object.name}. Inside you find: ${itemList}`,
+      success: false,
+      response: `The ${object.name} is already ${preposition} the ${container.name}.`,
+    };
+  }
+
+  const siblings = await prisma.gameObject.findMany({
+    where: { containedInId: container.id },
+  });
+  if (!fitsInContainer(container, object, siblings)) {
+    return {
+      success: false,
+      response: `The ${object.name} won't fit ${preposition} the ${container.name}.`,
     };
   }
 
+  // Putting something from the room into a carried bag means carrying its weight
+  if (container.roomId === null && object.roomId !== null) {
+    const nearby = await prisma.gameObject.findMany({ where: { roomId: object.roomId } });
+    const tooHeavy = checkCarryWeight(object, nearby, await getCarriedObjects(storyId));
+    if (tooHeavy) {
+      return {
+        success: false,
+        response: tooHeavy,
+      };
+    }
+  }
+
+  await moveWithContents(object.id, container.roomId, container.id);
+
   return {
     success: true,
-    response: `You open the ${object.name}. It's empty.`,
+    response: `You put the ${object.name} ${preposition} the ${container.name}.`,
+    object: { id: object.id, name: object.name },
   };
 }
 
 /**
- * Unlock an object with a key
+ * Take an object out of (or off) a container
  */
-export async function unlockObject(
+export async function takeFromContainer(
   storyId: string,
+  roomId: string,
   objectName: string,
-  roomId: string
+  containerName: string
 ): Promise<CommandResult> {
-  // Find the locked object
-  let object = await findObjectInRoom(roomId, objectName);
+  const container = await findObjectInReach(storyId, roomId, containerName);
 
-  if (!object) {
+  if (!container) {
     return {
       success: false,
-      response: `You don't see any "${objectName}" to unlock.`,
+      response: `You don't see any "${containerName}" here.`,
     };
   }
 
-  if (!object.isLocked) {
+  if (!container.isContainer && !container.isSurface) {
     return {
       success: false,
-      response: `The ${object.name} isn't locked.`,
+      response: `There's nothing in the ${container.name}.`,
     };
   }
 
-  // Check if player has the key
-  if (object.keyObjectId) {
-    const key = await prisma.gameObject.findUnique({
-      where: { id: object.keyObjectId },
-    });
-
-    // Check if key is in inventory
-    const inventory = await getInventory(storyId);
-    const hasKey = inventory.some(obj => obj.id === object.keyObjectId);
-
-    if (!hasKey) {
-      return {
-        success: false,
-        response: `You need something to unlock the ${object.name}.`,
-      };
-    }
-
-    // Unlock it
-    await prisma.gameObject.update({
-      where: { id: object.id },
-      data: { isLocked: false },
-    });
-
+  if (!contentsAccessible(container)) {
     return {
-      success: true,
-      response: `You unlock the ${object.name} with the ${key?.name || 'key'}.`,
+      success: false,
+      response: `The ${container.name} is closed.`,
     };
   }
 
-  return {
-    success: false,
-    response: `You can't figure out how to unlock the ${object.name}.`,
+  const contents = await prisma.gameObject.findMany({
+    where: { containedInId: container.id },
+  });
+  const object = findBestMatches(contents, objectName)[0];
+  const preposition = container.isSurface ? 'on' : 'in';
+
+  if (!object) {
+    return {
+      success: false,
+      response: `There's no "${objectName}" ${preposition} the ${container.name}.`,
+    };
+  }
+
+  if (!object.isTakeable) {
+    return {
+      success: false,
+      response: `You can't take the ${object.name}.`,
+    };
+  }
+
+  const carry = await checkCarryLimit(storyId, object);
+  if (!carry.allowed) {
+    return {
+      success: false,
+      response: carry.response!,
+    };
+  }
+
+  await moveWithContents(object.id, null, carry.stowIn?.id || null);
+
+  const discoveryResult = await puzzleService.discoverPuzzlesFromItem(storyId, object.name);
+  const stowNote = carry.stowIn ? ` and put it in the ${carry.stowIn.name}` : '';
+
+  return {
+    success: true,
+    response: `You take the ${object.name} ${preposition === 'on' ? 'off' : 'out of'} the ${container.name}${stowNote}.`,
+    object: { id: object.id, name: object.name },
+    discoveryNarratives: discoveryResult.narratives.length > 0 ? discoveryResult.narratives : undefined,
+  };
+}
+
+/**
+ * Look inside (or on) a container, listing nested contents
+ */
+export async function lookInContainer(
+  storyId: string,
+  roomId: string,
+  containerName: string
+): Promise<CommandResult> {
+  const container = await findObjectInReach(storyId, roomId, containerName);
+
+  if (!container) {
+    return {
+      success: false,
+      response: `You don't see any "${containerName}" here.`,
+    };
+  }
+
+  if (!container.isContainer && !container.isSurface) {
+    return {
+      success: false,
+      response: `You can't see inside the ${container.name}.`,
+    };
+  }
+
+  if (!contentsAccessible(container)) {
+    return {
+      success: false,
+      response: `The ${container.name} is closed.`,
+    };
+  }
+
+  const nearby = await prisma.gameObject.findMany({
+    where: { storyId, roomId: container.roomId },
+  });
+  const visible = filterVisible(nearby);
+  const contents = visible.filter(o => o.containedInId === container.id);
+  const preposition = container.isSurface ? 'On' : 'In';
+
+  if (contents.length === 0) {
+    return {
+      success: true,
+      response: `${preposition} the ${container.name} there is nothing.`,
+      object: { id: container.id, name: container.name },
+    };
+  }
+
+  const itemList = contents.map(o => `  - ${describeWithContents(o, visible)}`).join('\n');
+  return {
+    success: true,
+    response: `${preposition} the ${container.name} you see:\n${itemList}`,
+    object: { id: container.id, name: container.name },
+  };
+}
+
+// ============================================
+// Characters
+// ============================================
+
+/**
+ * Hand a carried object to a character - it leaves the inventory for good
+ */
+export async function giveObject(
+  storyId: string,
+  objectName: string,
+  character: { id: string; name: string }
+): Promise<CommandResult> {
+  const object = await findObjectInInventory(storyId, objectName);
+
+  if (!object) {
+    return {
+      success: false,
+      response: `You're not carrying any "${objectName}".`,
+    };
+  }
+
+  await moveWithContents(object.id, null, null, character.id);
+
+  return {
+    success: true,
+    response: `You give the ${object.name} to ${character.name}.`,
+    object: { id: object.id, name: object.name },
+  };
+}
+
+/**
+ * Get what a character is holding (not what's inside it)
+ */
+export async function getPossessions(characterId: string): Promise<GameObject[]> {
+  return prisma.gameObject.findMany({
+    where: { ownerCharacterId: characterId, containedInId: null },
+  });
+}
+
+/**
+ * Drop everything a character is holding into a room (a beaten foe lets go of it all)
+ */
+export async function dropPossessions(characterId: string, roomId: string): Promise<GameObject[]> {
+  const possessions = await getPossessions(characterId);
+
+  for (const object of possessions) {
+    await moveWithContents(object.id, roomId, null);
+  }
+
+  return possessions;
+}
+
+/**
+ * Remove an object from the world for good (eaten, drunk, used up)
+ * Anything inside it is left where the object was.
+ */
+export async function removeObject(objectId: string): Promise<void> {
+  const object = await prisma.gameObject.findUnique({ where: { id: objectId } });
+  if (!object) return;
+
+  const contents = await prisma.gameObject.findMany({
+    where: { containedInId: objectId },
+    select: { id: true },
+  });
+  for (const item of contents) {
+    await moveWithContents(item.id, object.roomId, object.containedInId, object.ownerCharacterId);
+  }
+
+  await prisma.gameObject.delete({ where: { id: objectId } });
+}
+
+/**
+ * Remove an object and everything inside it from the world (swept away, burnt)
+ */
+export async function removeWithContents(objectId: string): Promise<void> {
+  const contentIds = await getContentIds(objectId);
+  await prisma.gameObject.deleteMany({ where: { id: { in: [objectId, ...contentIds] } } });
+}
+
+/**
+ * Create a new game object in a room
+ */
+export async function createObject(data: {
+  storyId: string;
+  roomId: string;
+  name: string;
+  description?: string;
+  isTakeable?: boolean;
+  isContainer?: boolean;
+  isStoryCritical?: boolean;
+  state?: object;
+}): Promise<GameObject> {
+  return prisma.gameObject.create({
+    data: {
+      storyId: data.storyId,
+      roomId: data.roomId,
+      name: data.name,
+      description: data.description,
+      isTakeable: data.isTakeable ?? true,
+      isContainer: data.isContainer ?? false,
+      isStoryCritical: data.isStoryCritical ?? false,
+      state: data.state ?? {},
+    },
+  });
+}
+
+/**
+ * Update an object's state
+ */
+export async function updateObjectState(
+  objectId: string,
+  stateChanges: Record<string, unknown>
+): Promise<GameObject> {
+  const object = await prisma.gameObject.findUnique({
+    where: { id: objectId },
+  });
+
+  if (!object) {
+    throw new Error(`Object ${objectId} not found`);
+  }
+
+  const currentState = (object.state as Record<string, unknown>) || {};
+  const newState = { ...currentState, ...stateChanges };
+
+  return prisma.gameObject.update({
+    where: { id: objectId },
+    data: { state: newState as object },
+  });
+}
+
+// ============================================
+// Doors and locks
+// ============================================
+
+/**
+ * Check whether an object can be opened and closed (containers and doors)
+ */
+export function isOpenable(obj: { isContainer: boolean; blocksExit: string | null }): boolean {
+  return obj.isContainer || !!obj.blocksExit;
+}
+
+/**
+ * Describe whether an object is open, closed or locked
+ */
+function openStateDescription(obj: GameObject, isOpen: boolean, isLocked: boolean): string {
+  const name = obj.name.replace(/^\*/, '');
+  if (isOpen) return `The ${name} is open.`;
+  return isLocked ? `The ${name} is closed and locked.` : `The ${name} is closed.`;
+}
+
+/**
+ * Find something that can be opened, closed or locked
+ * Looks in the room, the inventory, and doors in neighbouring rooms that face this one.
+ */
+export async function findOpenable(
+  storyId: string,
+  roomId: string,
+  objectName: string,
+  nearbyDoors: GameObject[] = []
+): Promise<GameObject | null> {
+  const [roomObjects, inventory] = await Promise.all([
+    getObjectsInRoom(roomId),
+    getInventory(storyId),
+  ]);
+
+  const candidates = [...roomObjects, ...inventory, ...nearbyDoors].filter(isOpenable);
+  return findBestMatches(candidates, objectName)[0] || null;
+}
+
+/**
+ * Find the key to use on a lock
+ * A named key must be carried; otherwise the lock's own key is used if carried.
+ */
+async function findKey(
+  storyId: string,
+  object: GameObject,
+  keyName?: string
+): Promise<{ key: GameObject | null; response?: string }> {
+  const inventory = await getInventory(storyId);
+
+  if (keyName) {
+    const key = findBestMatches(inventory, keyName)[0];
+    if (!key) {
+      return { key: null, response: `You're not carrying any "${keyName}".` };
+    }
+    if (key.id !== object.keyObjectId) {
+      return { key: null, response: `The ${key.name} doesn't fit the ${object.name}.` };
+    }
+    return { key };
+  }
+
+  const key = inventory.find(obj => obj.id === object.keyObjectId);
+  if (!key) {
+    return { key: null, response: `You need a key for the ${object.name}.` };
+  }
+  return { key };
+}
+
+/**
+ * Open a container or door
+ */
+export async function openObject(
+  storyId: string,
+  objectName: string,
+  roomId: string,
+  nearbyDoors: GameObject[] = []
+): Promise<CommandResult> {
+  const object = await findOpenable(storyId, roomId, objectName, nearbyDoors);
+
+  if (!object) {
+    return {
+      success: false,
+      response: `You don't see any "${objectName}" to open.`,
+    };
+  }
+
+  if (object.isOpen) {
+    return {
+      success: false,
+      response: `The ${object.name} is already open.`,
+    };
+  }
+
+  if (object.isLocked) {
+    return {
+      success: false,
+      response: `The ${object.name} is locked.`,
+    };
+  }
+
+  await prisma.gameObject.update({
+    where: { id: object.id },
+    data: {
+      isOpen: true,
+      stateDescription: openStateDescription(object, true, false),
+    },
+  });
+
+  const result = { success: true, object: { id: object.id, name: object.name } };
+
+  if (!object.isContainer) {
+    return { ...result, response: `You open the ${object.name}.` };
+  }
+
+  // Check for contained objects
+  const containedObjects = await prisma.gameObject.findMany({
+    where: { containedInId: object.id },
+  });
+
+  if (containedObjects.length > 0) {
+    const itemList = containedObjects.map(obj => obj.name).join(', ');
+    return {
+      ...result,
+      response: `You open the ${object.name}. Inside you find: ${itemList}`,
+    };
+  }
+
+  return {
+    ...result,
+    response: `You open the ${object.name}. It's empty.`,
+  };
+}
+
+/**
+ * Close a container or door
+ */
+export async function closeObject(
+  storyId: string,
+  objectName: string,
+  roomId: string,
+  nearbyDoors: GameObject[] = []
+): Promise<CommandResult> {
+  const object = await findOpenable(storyId, roomId, objectName, nearbyDoors);
+
+  if (!object) {
+    return {
+      success: false,
+      response: `You don't see any "${objectName}" to close.`,
+    };
+  }
+
+  if (!object.isOpen) {
+    return {
+      success: false,
+      response: `The ${object.name} is already closed.`,
+    };
+  }
+
+  await prisma.gameObject.update({
+    where: { id: object.id },
+    data: {
+      isOpen: false,
+      stateDescription: openStateDescription(object, false, object.isLocked),
+    },
+  });
+
+  return {
+    success: true,
+    response: `You close the ${object.name}.`,
+    object: { id: object.id, name: object.name },
+  };
+}
+
+/**
+ * Unlock an object with a key (the named one, or the right one if carried)
+ */
+export async function unlockObject(
+  storyId: string,
+  objectName: string,
+  roomId: string,
+  keyName?: string,
+  nearbyDoors: GameObject[] = []
+): Promise<CommandResult> {
+  const object = await findOpenable(storyId, roomId, objectName, nearbyDoors);
+
+  if (!object) {
+    return {
+      success: false,
+      response: `You don't see any "${objectName}" to unlock.`,
+    };
+  }
+
+  if (!object.isLocked) {
+    return {
+      success: false,
+      response: `The ${object.name} isn't locked.`,
+    };
+  }
+
+  if (!object.keyObjectId) {
+    return {
+      success: false,
+      response: `You can't figure out how to unlock the ${object.name}.`,
+    };
+  }
+
+  const { key, response } = await findKey(storyId, object, keyName);
+  if (!key) {
+    return { success: false, response: response! };
+  }
+
+  await prisma.gameObject.update({
+    where: { id: object.id },
+    data: {
+      isLocked: false,
+      stateDescription: openStateDescription(object, object.isOpen, false),
+    },
+  });
+
+  return {
+    success: true,
+    response: `You unlock the ${object.name} with the ${key.name}.`,
+    object: { id: object.id, name: object.name },
+  };
+}
+
+/**
+ * Lock an object with its key - it must be closed first
+ */
+export async function lockObject(
+  storyId: string,
+  objectName: string,
+  roomId: string,
+  keyName?: string,
+  nearbyDoors: GameObject[] = []
+): Promise<CommandResult> {
+  const object = await findOpenable(storyId, roomId, objectName, nearbyDoors);
+
+  if (!object) {
+    return {
+      success: false,
+      response: `You don't see any "${objectName}" to lock.`,
+    };
+  }
+
+  if (object.isLocked) {
+    return {
+      success: false,
+      response: `The ${object.name} is already locked.`,
+    };
+  }
+
+  if (!object.keyObjectId) {
+    return {
+      success: false,
+      response: `The ${object.name} has no lock.`,
+    };
+  }
+
+  if (object.isOpen) {
+    return {
+      success: false,
+      response: `You'll have to close the ${object.name} first.`,
+    };
+  }
+
+  const { key, response } = await findKey(storyId, object, keyName);
+  if (!key) {
+    return { success: false, response: response! };
+  }
+
+  await prisma.gameObject.update({
+    where: { id: object.id },
+    data: {
+      isLocked: true,
+      stateDescription: openStateDescription(object, false, true),
+    },
+  });
+
+  return {
+    success: true,
+    response: `You lock the ${object.name} with the ${key.name}.`,
+    object: { id: object.id, name: object.name },
+  };
+}
+
+// ============================================
+// Light sources
+// ============================================
+
+/**
+ * Find a lamp, torch or other light source within reach
+ */
+export async function findLightSource(
+  storyId: string,
+  roomId: string,
+  objectName: string
+): Promise<GameObject | null> {
+  const [roomObjects, inventory] = await Promise.all([
+    getObjectsInRoom(roomId),
+    getInventory(storyId),
+  ]);
+
+  const candidates = [...inventory, ...roomObjects].filter(obj => obj.isLightSource);
+  return findBestMatches(candidates, objectName)[0] || null;
+}
+
+/**
+ * Light a lamp, torch or candle
+ * A named igniter ("light the torch with the match") has to be carried.
+ */
+export async function lightObject(
+  storyId: string,
+  objectName: string,
+  roomId: string,
+  igniterName?: string
+): Promise<CommandResult> {
+  const object = await findLightSource(storyId, roomId, objectName);
+
+  if (!object) {
+    return {
+      success: false,
+      response: `You don't see any "${objectName}" to light.`,
+    };
+  }
+
+  if (object.isLit) {
+    return {
+      success: false,
+      response: `The ${object.name} is already lit.`,
+    };
+  }
+
+  let igniterNote = '';
+  if (igniterName) {
+    const inventory = await getInventory(storyId);
+    const igniter = findBestMatches(inventory, igniterName)[0];
+    if (!igniter) {
+      return {
+        success: false,
+        response: `You're not carrying any "${igniterName}".`,
+      };
+    }
+    igniterNote = ` with the ${igniter.name}`;
+  }
+
+  await prisma.gameObject.update({
+    where: { id: object.id },
+    data: {
+      isLit: true,
+      stateDescription: `The ${object.name.replace(/^\*/, '')} is lit.`,
+    },
+  });
+
+  return {
+    success: true,
+    response: `You light the ${object.name}${igniterNote}. It casts a warm glow around you.`,
+    object: { id: object.id, name: object.name },
+  };
+}
+
+/**
+ * Put out a lit light source
+ */
+export async function extinguishObject(
+  storyId: string,
+  objectName: string,
+  roomId: string
+): Promise<CommandResult> {
+  const object = await findLightSource(storyId, roomId, objectName);
+
+  if (!object) {
+    return {
+      success: false,
+      response: `You don't see any "${objectName}" to put out.`,
+    };
+  }
+
+  if (!object.isLit) {
+    return {
+      success: false,
+      response: `The ${object.name} isn't lit.`,
+    };
+  }
+
+  await prisma.gameObject.update({
+    where: { id: object.id },
+    data: {
+      isLit: false,
+      stateDescription: `The ${object.name.replace(/^\*/, '')} is dark.`,
+    },
+  });
+
+  return {
+    success: true,
+    response: `You put out the ${object.name}.`,
+    object: { id: object.id, name: object.name },
   };
 }
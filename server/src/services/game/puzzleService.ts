@@ -29,6 +29,11 @@ export interface PuzzleCompletionResult {
   narratives: string[];
 }
 
+export interface ItemHandoff {
+  characterName: string;
+  itemNames: string[];
+}
+
 // ============================================
 // Puzzle Step Completion
 // ============================================
@@ -41,7 +46,8 @@ export async function checkPuzzleStepCompletion(
   storyId: string,
   playerAction: string,
   currentRoomId: string,
-  inventory: string[] // Item names in inventory
+  inventory: string[], // Item names in inventory
+  handoff?: ItemHandoff // Set when the player gave or showed an item to a character
 ): Promise<PuzzleCompletionResult> {
   const result: PuzzleCompletionResult = {
     completedSteps: [],
@@ -80,8 +86,12 @@ export async function checkPuzzleStepCompletion(
     const itemsMatch = checkItemRequirements(nextStep, inventory);
     const actionMatch = checkActionRequirements(nextStep, playerAction);
 
+    // Handing the right item to the right character completes character steps
+    // however the step's action was worded ("bring the oil can to the keeper")
+    const handoffMatch = handoff ? checkHandoffRequirements(nextStep, handoff) : false;
+
     // All requirements must match
-    if (roomMatch && itemsMatch && actionMatch) {
+    if (handoffMatch || (roomMatch && itemsMatch && actionMatch)) {
       // Complete the step
       await prisma.puzzleStep.update({
         where: { id: nextStep.id },
@@ -133,6 +143,11 @@ export async function checkPuzzleStepCompletion(
         // Apply puzzle reward
         await applyPuzzleReward(storyId, puzzle);
 
+        // The last puzzle leading to a beat completes it (beats with a dilemma wait for the choice)
+        if (puzzle.storyBeatId) {
+          await checkBeatCompletion(puzzle.storyBeatId);
+        }
+
         // Activate linked puzzles
         const activated = await activateLinkedPuzzles(puzzle.id);
         result.activatedPuzzles.push(...activated);
@@ -150,6 +165,30 @@ export async function checkPuzzleStepCompletion(
   return result;
 }
 
+/**
+ * Check if giving/showing an item satisfies a character step
+ */
+function checkHandoffRequirements(
+  step: PuzzleStep,
+  handoff: ItemHandoff
+): boolean {
+  if (step.nodeType !== 'character' || !step.targetName) return false;
+
+  const requiredItems = step.requiredItems as string[] | null;
+  if (!requiredItems?.length) return false;
+
+  const targetLower = step.targetName.toLowerCase();
+  const characterLower = handoff.characterName.toLowerCase();
+  if (!targetLower.includes(characterLower) && !characterLower.includes(targetLower)) {
+    return false;
+  }
+
+  const itemNames = handoff.itemNames.map(name => name.toLowerCase().replace(/^\*/, ''));
+  return requiredItems.every(requiredItem =>
+    itemNames.some(name => name.includes(requiredItem.toLowerCase()))
+  );
+}
+
 /**
  * Check if room requirement is met
  */
@@ -187,12 +226,14 @@ const SKIP_WORDS = new Set(['the', 'a', 'an', 'at', 'on', 'in', 'to', 'with', 'o
 const VERB_SYNONYMS: Record<string, string[]> = {
   examine: ['examine', 'look', 'inspect', 'study', 'view', 'check', 'observe', 'see', 'read'],
   take: ['take', 'get', 'grab', 'pick', 'gather', 'collect', 'acquire', 'retrieve'],
+  put: ['put', 'place', 'insert', 'set', 'lay', 'stash'],
   touch: ['touch', 'feel', 'press', 'push', 'tap', 'poke'],
   use: ['use', 'apply', 'activate', 'operate', 'employ'],
   talk: ['talk', 'speak', 'ask', 'tell', 'say', 'chat', 'converse'],
   open: ['open', 'unlock', 'unseal'],
+  light: ['light', 'ignite', 'kindle'],
   move: ['move', 'push', 'pull', 'slide', 'shift'],
-  give: ['give', 'hand', 'offer', 'present', 'show'],
+  give: ['give', 'hand', 'offer', 'present', 'show', 'bring', 'deliver'],
   attack: ['attack', 'hit', 'strike', 'fight', 'punch', 'kick'],
 };
 
@@ -462,6 +503,39 @@ async function applyPuzzleReward(storyId: string, puzzle: Puzzle): Promise<void>
   }
 }
 
+/**
+ * Complete a story beat once every puzzle leading to it is solved
+ * A beat resolved by a dilemma is completed when the player makes the choice.
+ */
+async function checkBeatCompletion(storyBeatId: string): Promise<void> {
+  const beat = await prisma.storyBeat.findUnique({
+    where: { id: storyBeatId },
+    include: { puzzles: { select: { status: true } }, dilemma: { select: { id: true } } },
+  });
+  if (!beat || beat.isCompleted || beat.dilemma) return;
+
+  if (beat.puzzles.every(p => p.status === 'completed')) {
+    await completeStoryBeat(beat.id);
+  }
+}
+
+/**
+ * Mark a story beat as achieved
+ */
+export async function completeStoryBeat(
+  storyBeatId: string,
+  chosenResolution?: string
+): Promise<void> {
+  await prisma.storyBeat.update({
+    where: { id: storyBeatId },
+    data: {
+      isCompleted: true,
+      completedAt: new Date(),
+      chosenResolution,
+    },
+  });
+}
+
 /**
  * Activate and discover puzzles that depend on the completed puzzle
  */
@@ -0,0 +1,244 @@
+/**
+ * Referent Service
+ * Remembers what the player last talked about so pronouns can be resolved
+ *
+ * "take it", "examine them", "talk to her" - the most recently mentioned
+ * objects and character are stored on PlayerState.lastReferents and
+ * substituted into the parsed command before it is dispatched.
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+import type { ParsedCommand, CommandType } from './commandParser';
+
+const prisma = new PrismaClient();
+
+export interface Referent {
+  id?: string;
+  name: string;
+}
+
+export interface LastReferents {
+  objects: Referent[];        // Most recent object group, most salient first
+  character: Referent | null; // Most recently mentioned character
+}
+
+export interface PronounResolution {
+  commands: ParsedCommand[];
+  unresolved?: string; // The pronoun we couldn't resolve, if any
+}
+
+const OBJECT_PRONOUNS = new Set(['it', 'that', 'this']);
+const PLURAL_PRONOUNS = new Set(['them', 'those', 'these']);
+const CHARACTER_PRONOUNS = new Set(['him', 'her']);
+
+// Commands whose target is a person, so "them" means a character
+const CHARACTER_COMMANDS: CommandType[] = ['TALK', 'ASK', 'TELL', 'SAY', 'ATTACK', 'PACIFY'];
+
+// Commands whose modifier is a person ("give it to them")
+const CHARACTER_MODIFIER_COMMANDS: CommandType[] = ['GIVE', 'SHOW'];
+
+/**
+ * Strip the discovered-item marker so the name reads naturally in commands
+ */
+function displayName(name: string): string {
+  return name.replace(/^\*/, '');
+}
+
+/**
+ * Get the stored referents for a story
+ */
+export async function getReferents(storyId: string): Promise<LastReferents> {
+  const playerState = await prisma.playerState.findUnique({
+    where: { storyId },
+    select: { lastReferents: true },
+  });
+
+  const stored = (playerState?.lastReferents as Partial<LastReferents>) || {};
+  return {
+    objects: stored.objects || [],
+    character: stored.character || null,
+  };
+}
+
+/**
+ * Persist referents
+ */
+async function saveReferents(storyId: string, referents: LastReferents): Promise<void> {
+  await prisma.playerState.update({
+    where: { storyId },
+    data: { lastReferents: referents as unknown as Prisma.InputJsonValue },
+  });
+}
+
+/**
+ * Remember a group of objects as the latest "it"/"them"
+ */
+export async function rememberObjects(storyId: string, objects: Referent[]): Promise<void> {
+  if (objects.length === 0) return;
+
+  const referents = await getReferents(storyId);
+  referents.objects = objects.map(o => ({ id: o.id, name: displayName(o.name) }));
+  await saveReferents(storyId, referents);
+}
+
+/**
+ * Remember a character as the latest "him"/"her"
+ */
+export async function rememberCharacter(storyId: string, character: Referent): Promise<void> {
+  const referents = await getReferents(storyId);
+  referents.character = { id: character.id, name: character.name };
+  await saveReferents(storyId, referents);
+}
+
+/**
+ * Find the last position a name (or a significant part of it) appears in text
+ */
+function lastMentionIndex(text: string, name: string): number {
+  const textLower = text.toLowerCase();
+  const nameLower = displayName(name).toLowerCase();
+
+  let index = textLower.lastIndexOf(nameLower);
+  if (index >= 0) return index;
+
+  // Fall back to distinctive name parts ("Marcus" for "Marcus Webb")
+  for (const word of nameLower.split(/\s+/)) {
+    if (word.length < 4) continue;
+    const match = [...textLower.matchAll(new RegExp(`\\b${word.replace(/[^a-z0-9]/g, '')}\\b`, 'g'))].pop();
+    if (match?.index !== undefined) {
+      index = Math.max(index, match.index);
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Update referents from narrative text (AI responses)
+ * Objects and characters in reach are remembered in order of most recent mention.
+ */
+export async function rememberFromText(
+  storyId: string,
+  roomId: string,
+  text: string
+): Promise<void> {
+  const [objects, characters] = await Promise.all([
+    prisma.gameObject.findMany({
+      where: { storyId, OR: [{ roomId }, { roomId: null, ownerCharacterId: null }] },
+      select: { id: true, name: true },
+    }),
+    prisma.character.findMany({
+      where: { storyId, currentRoomId: roomId },
+      select: { id: true, name: true },
+    }),
+  ]);
+
+  const mentionedObjects = objects
+    .map(o => ({ ...o, index: lastMentionIndex(text, o.name) }))
+    .filter(o => o.index >= 0)
+    .sort((a, b) => b.index - a.index);
+
+  const mentionedCharacter = characters
+    .map(c => ({ ...c, index: lastMentionIndex(text, c.name) }))
+    .filter(c => c.index >= 0)
+    .sort((a, b) => b.index - a.index)[0];
+
+  if (mentionedObjects.length === 0 && !mentionedCharacter) return;
+
+  const referents = await getReferents(storyId);
+  if (mentionedObjects.length > 0) {
+    referents.objects = mentionedObjects.map(o => ({ id: o.id, name: displayName(o.name) }));
+  }
+  if (mentionedCharacter) {
+    referents.character = { id: mentionedCharacter.id, name: mentionedCharacter.name };
+  }
+  await saveReferents(storyId, referents);
+}
+
+/**
+ * Check whether a command slot is just a pronoun ("it", "that one")
+ */
+function asPronoun(value: string | undefined): string | null {
+  if (!value) return null;
+  const normalized = value.trim().toLowerCase().replace(/\s+one$/, '');
+  if (OBJECT_PRONOUNS.has(normalized) || PLURAL_PRONOUNS.has(normalized) || CHARACTER_PRONOUNS.has(normalized)) {
+    return normalized;
+  }
+  return null;
+}
+
+/**
+ * Resolve a pronoun to the names it stands for
+ */
+function resolveSlot(
+  pronoun: string,
+  isCharacterSlot: boolean,
+  referents: LastReferents
+): string[] {
+  if (CHARACTER_PRONOUNS.has(pronoun)) {
+    return referents.character ? [referents.character.name] : [];
+  }
+
+  if (PLURAL_PRONOUNS.has(pronoun)) {
+    if (isCharacterSlot) {
+      return referents.character ? [referents.character.name] : [];
+    }
+    return referents.objects.map(o => o.name);
+  }
+
+  return referents.objects.length > 0 ? [referents.objects[0].name] : [];
+}
+
+/**
+ * Replace the first whole-word occurrence of a pronoun in the raw input
+ */
+function substitute(rawInput: string, pronoun: string, name: string): string {
+  return rawInput.replace(new RegExp(`\\b${pronoun}(?:\\s+one)?\\b`, 'i'), name);
+}
+
+/**
+ * Resolve pronouns in a command's target and modifier
+ * "them" over a group of objects expands into one command per object.
+ */
+export async function resolvePronouns(
+  storyId: string,
+  command: ParsedCommand
+): Promise<PronounResolution> {
+  const targetPronoun = asPronoun(command.target);
+  const modifierPronoun = asPronoun(command.modifier);
+
+  if (!targetPronoun && !modifierPronoun) {
+    return { commands: [command] };
+  }
+
+  const referents = await getReferents(storyId);
+  let resolved: ParsedCommand = { ...command };
+
+  if (modifierPronoun) {
+    const names = resolveSlot(modifierPronoun, CHARACTER_MODIFIER_COMMANDS.includes(command.type), referents);
+    if (names.length === 0) {
+      return { commands: [], unresolved: modifierPronoun };
+    }
+    resolved = {
+      ...resolved,
+      modifier: names[0].toLowerCase(),
+      rawInput: substitute(resolved.rawInput, modifierPronoun, names[0]),
+    };
+  }
+
+  if (!targetPronoun) {
+    return { commands: [resolved] };
+  }
+
+  const names = resolveSlot(targetPronoun, CHARACTER_COMMANDS.includes(command.type), referents);
+  if (names.length === 0) {
+    return { commands: [], unresolved: targetPronoun };
+  }
+
+  return {
+    commands: names.map(name => ({
+      ...resolved,
+      target: name.toLowerCase(),
+      rawInput: substitute(resolved.rawInput, targetPronoun, name),
+    })),
+  };
+}
@@ -1,5 +1,6 @@
-import { PrismaClient, Room } from '@prisma/client';
+import { PrismaClient, Room, GameObject } from '@prisma/client';
 import { generateRoomDescription } from '../ai/gameAI';
+import { filterVisible, describeWithContents } from './objectService';
 
 const prisma = new PrismaClient();
 
@@ -13,8 +14,12 @@ export interface RoomWithDetails extends Room {
     synonyms: unknown; // JSON array of alternative names
     state: unknown;
     firstExaminedAt: Date | null;
+    containedInId: string | null;
+    isContainer: boolean;
+    isOpen: boolean;
+    isSurface: boolean;
   }>;
-  charactersHere: Array<{ id: string; name: string; description: string | null }>;
+  charactersHere: Array<{ id: string; name: string; description: string | null; stance: string }>;
 }
 
 export interface ExitInfo {
@@ -42,22 +47,33 @@ const OPPOSITE_DIRECTION: Record<Direction, Direction> = {
   down: 'up',
 };
 
+// Shown in place of the room description when there's no light to see by
+export const DARKNESS_DESCRIPTION = 'It is pitch dark. You can\'t see a thing.';
+
 /**
  * Get a room by ID with all its details
  */
 export async function getRoom(roomId: string): Promise<RoomWithDetails | null> {
-  return prisma.room.findUnique({
+  const room = await prisma.room.findUnique({
     where: { id: roomId },
     include: {
       gameObjects: {
         where: { roomId: roomId }, // Only objects in this room (not in inventory)
-        select: { id: true, name: true, description: true, synonyms: true, state: true, firstExaminedAt: true },
+        select: {
+          id: true, name: true, description: true, synonyms: true, state: true, firstExaminedAt: true,
+          containedInId: true, isContainer: true, isOpen: true, isSurface: true,
+        },
       },
       charactersHere: {
-        select: { id: true, name: true, description: true },
+        select: { id: true, name: true, description: true, stance: true },
       },
     },
   });
+
+  if (!room) return null;
+
+  // Objects shut away in closed containers can't be seen or reached
+  return { ...room, gameObjects: filterVisible(room.gameObjects) };
 }
 
 /**
@@ -188,6 +204,25 @@ export function getExits(room: Room): ExitInfo[] {
   return exits;
 }
 
+/**
+ * Get exits the player knows about - hidden exits only once discovered
+ */
+export function getVisibleExits(room: Room): ExitInfo[] {
+  const hiddenExits = (room.hiddenExits as string[]) || [];
+  const discoveredExits = (room.discoveredExits as string[]) || [];
+
+  return getExits(room).filter(
+    exit => !hiddenExits.includes(exit.direction) || discoveredExits.includes(exit.direction)
+  );
+}
+
+/**
+ * Get the direction that leads back the way you came
+ */
+export function getOppositeDirection(direction: Direction): Direction {
+  return OPPOSITE_DIRECTION[direction];
+}
+
 /**
  * Get the room ID in a given direction, or null if no exit
  */
@@ -203,6 +238,40 @@ export function getRoomInDirection(room: Room, direction: Direction): string | n
   }
 }
 
+/**
+ * Find the door standing in an exit, if any
+ * A door lives in one room but gates both sides, so the room on the
+ * far side is checked for a door facing back this way.
+ */
+export async function getDoorForExit(room: Room, direction: Direction): Promise<GameObject | null> {
+  const targetRoomId = getRoomInDirection(room, direction);
+
+  const doors = await prisma.gameObject.findMany({
+    where: {
+      OR: [
+        { roomId: room.id, blocksExit: direction },
+        ...(targetRoomId ? [{ roomId: targetRoomId, blocksExit: OPPOSITE_DIRECTION[direction] }] : []),
+      ],
+    },
+  });
+
+  return doors.find(d => d.roomId === room.id) || doors[0] || null;
+}
+
+/**
+ * Get doors in neighbouring rooms that open onto this room
+ */
+export async function getDoorsFacingRoom(room: Room): Promise<GameObject[]> {
+  const exits = getExits(room).filter(e => e.roomId);
+  if (exits.length === 0) return [];
+
+  return prisma.gameObject.findMany({
+    where: {
+      OR: exits.map(e => ({ roomId: e.roomId, blocksExit: OPPOSITE_DIRECTION[e.direction] })),
+    },
+  });
+}
+
 /**
  * Move player to a new room, handling first-visit logic
  */
@@ -304,11 +373,13 @@ export async function generateAdjacentRoom(
 
 /**
  * Format room description for display
+ * A dark room shows only its name - objects, characters and exits stay hidden.
  */
 export function formatRoomDescription(
   room: RoomWithDetails,
   description: string,
-  isFirstVisit: boolean
+  isFirstVisit: boolean,
+  isLit: boolean = true
 ): string {
   const lines: string[] = [];
 
@@ -316,20 +387,30 @@ export function formatRoomDescription(
   lines.push(`== ${room.name.toUpperCase()} ==`);
   lines.push('');
 
+  if (!isLit) {
+    lines.push(DARKNESS_DESCRIPTION);
+    return lines.join('\n');
+  }
+
   // Description
   lines.push(description);
 
-  // Objects in room
-  if (room.gameObjects.length > 0) {
+  // Objects in room (contents are listed with their container)
+  const topLevelObjects = room.gameObjects.filter(obj => !obj.containedInId);
+  if (topLevelObjects.length > 0) {
     lines.push('');
-    const objectNames = room.gameObjects.map(obj => obj.name).join(', ');
+    const objectNames = topLevelObjects
+      .map(obj => describeWithContents(obj, room.gameObjects))
+      .join(', ');
     lines.push(`You can see: ${objectNames}`);
   }
 
   // Characters in room
   if (room.charactersHere.length > 0) {
     lines.push('');
-    const characterNames = room.charactersHere.map(char => char.name).join(', ');
+    const characterNames = room.charactersHere
+      .map(char => char.stance === 'defeated' ? `${char.name} (defeated)` : char.name)
+      .join(', ');
     lines.push(`Present here: ${characterNames}`);
   }
 
@@ -0,0 +1,511 @@
+/**
+ * Save Service
+ * Named save points and branching restore for a story's world state
+ *
+ * A snapshot captures every row processTurn can mutate. Rows that gameplay
+ * creates or deletes (objects, characters, timed events, story facts,
+ * personality events) are captured in full so they can be recreated;
+ * everything else only stores its mutable fields.
+ */
+
+import { PrismaClient, Prisma, SavePoint } from '@prisma/client';
+import logger from '../../utils/logger.js';
+
+const prisma = new PrismaClient();
+
+const SNAPSHOT_VERSION = 1;
+
+export type SnapshotRow = Record<string, unknown> & { id: string };
+
+export interface WorldSnapshot {
+  version: number;
+  capturedAt: string;
+  playerState: SnapshotRow | null;
+  personalityScores: SnapshotRow | null;
+  rooms: SnapshotRow[];
+  characters: SnapshotRow[];
+  objectSystems?: SnapshotRow[]; // Missing from saves made before they were captured
+  gameObjects: SnapshotRow[];
+  timedEvents: SnapshotRow[];
+  storyFacts: SnapshotRow[];
+  personalityEvents?: SnapshotRow[]; // Missing from saves made before they were captured
+  puzzles: SnapshotRow[];
+  puzzleSteps: SnapshotRow[];
+  dilemmaPoints: SnapshotRow[];
+  storyBeats: SnapshotRow[];
+}
+
+export interface RestoreResult {
+  savePoint: SavePoint;
+  branch: string;
+  forkedFrom?: string;
+}
+
+// ============================================
+// MUTABLE FIELDS - What a snapshot remembers per table
+// ============================================
+
+const PLAYER_STATE_FIELDS = {
+  id: true,
+  currentRoomId: true,
+  turnCount: true,
+  score: true,
+  scoreLedger: true,
+  lastReferents: true,
+  conversationWith: true,
+  combatWith: true,
+  combatRound: true,
+  health: true,
+  hunger: true,
+  fatigue: true,
+  conditions: true,
+  turnsWithoutProgress: true,
+} satisfies Prisma.PlayerStateSelect;
+
+const PERSONALITY_SCORE_FIELDS = {
+  id: true,
+  openness: true,
+  conscientiousness: true,
+  extraversion: true,
+  agreeableness: true,
+  neuroticism: true,
+  opennessConfidence: true,
+  conscientiousnessConfidence: true,
+  extraversionConfidence: true,
+  agreeablenessConfidence: true,
+  neuroticismConfidence: true,
+} satisfies Prisma.PersonalityScoresSelect;
+
+const ROOM_FIELDS = {
+  id: true,
+  description: true,
+  shortDescription: true,
+  northRoomId: true,
+  southRoomId: true,
+  eastRoomId: true,
+  westRoomId: true,
+  upRoomId: true,
+  downRoomId: true,
+  firstVisitedAt: true,
+  visitCount: true,
+  hiddenExits: true,
+  discoveredExits: true,
+  dockedAtRoomId: true,
+  previousDockedAtId: true,
+  knownDestinations: true,
+} satisfies Prisma.RoomSelect;
+
+// Powering a system up or down lights and darkens rooms
+const OBJECT_SYSTEM_FIELDS = {
+  id: true,
+  systemState: true,
+} satisfies Prisma.ObjectSystemSelect;
+
+const PUZZLE_FIELDS = {
+  id: true,
+  status: true,
+  startedAt: true,
+  completedAt: true,
+  isActive: true,
+  isDiscovered: true,
+} satisfies Prisma.PuzzleSelect;
+
+// hintsUsed is left out on purpose - restoring a save doesn't unsee a hint
+const PUZZLE_STEP_FIELDS = {
+  id: true,
+  isRevealed: true,
+  revealedBy: true,
+  isCompleted: true,
+  completedAt: true,
+  timedEventId: true,
+} satisfies Prisma.PuzzleStepSelect;
+
+const DILEMMA_FIELDS = {
+  id: true,
+  isTriggered: true,
+  triggeredAt: true,
+  chosenOption: true,
+  playerResponse: true,
+} satisfies Prisma.DilemmaPointSelect;
+
+const STORY_BEAT_FIELDS = {
+  id: true,
+  isCompleted: true,
+  completedAt: true,
+  chosenResolution: true,
+} satisfies Prisma.StoryBeatSelect;
+
+// ============================================
+// SNAPSHOTS
+// ============================================
+
+/**
+ * Capture the current mutable world state of a story
+ */
+export async function captureWorldState(storyId: string): Promise<WorldSnapshot> {
+  const [
+    playerState,
+    personalityScores,
+    rooms,
+    characters,
+    objectSystems,
+    gameObjects,
+    timedEvents,
+    storyFacts,
+    personalityEvents,
+    puzzles,
+    puzzleSteps,
+    dilemmaPoints,
+    storyBeats,
+  ] = await Promise.all([
+    prisma.playerState.findUnique({ where: { storyId }, select: PLAYER_STATE_FIELDS }),
+    prisma.personalityScores.findUnique({ where: { storyId }, select: PERSONALITY_SCORE_FIELDS }),
+    prisma.room.findMany({ where: { storyId }, select: ROOM_FIELDS }),
+    prisma.character.findMany({ where: { storyId } }),
+    prisma.objectSystem.findMany({ where: { storyId }, select: OBJECT_SYSTEM_FIELDS }),
+    prisma.gameObject.findMany({ where: { storyId } }),
+    prisma.timedEvent.findMany({ where: { storyId } }),
+    prisma.storyFact.findMany({ where: { storyId } }),
+    prisma.personalityEvent.findMany({ where: { storyId } }),
+    prisma.puzzle.findMany({ where: { storyId }, select: PUZZLE_FIELDS }),
+    prisma.puzzleStep.findMany({ where: { puzzle: { storyId } }, select: PUZZLE_STEP_FIELDS }),
+    prisma.dilemmaPoint.findMany({ where: { storyId }, select: DILEMMA_FIELDS }),
+    prisma.storyBeat.findMany({ where: { storyId }, select: STORY_BEAT_FIELDS }),
+  ]);
+
+  // Round-trip through JSON so Dates and Decimals become plain values
+  return JSON.parse(JSON.stringify({
+    version: SNAPSHOT_VERSION,
+    capturedAt: new Date().toISOString(),
+    playerState,
+    personalityScores,
+    rooms,
+    characters,
+    objectSystems,
+    gameObjects,
+    timedEvents,
+    storyFacts,
+    personalityEvents,
+    puzzles,
+    puzzleSteps,
+    dilemmaPoints,
+    storyBeats,
+  })) as WorldSnapshot;
+}
+
+/**
+ * Split a snapshot row into its id and the fields to write back
+ */
+function splitRow(row: SnapshotRow): { id: string; data: Record<string, unknown> } {
+  const { id, ...data } = row;
+  return { id, data };
+}
+
+/**
+ * Roll a story's world back to a captured snapshot
+ */
+export async function applyWorldState(storyId: string, snapshot: WorldSnapshot): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    // Characters - back where they were before objects are handed back to them
+    for (const row of snapshot.characters) {
+      const { id, data } = splitRow(row);
+      await tx.character.upsert({
+        where: { id },
+        create: { id, ...data } as Prisma.CharacterUncheckedCreateInput,
+        update: data as Prisma.CharacterUncheckedUpdateInput,
+      });
+    }
+
+    // Game objects - detach containment first so rows can be recreated in any order
+    const objectIds = snapshot.gameObjects.map(o => o.id);
+    await tx.gameObject.updateMany({ where: { storyId }, data: { containedInId: null } });
+    await tx.gameObject.deleteMany({ where: { storyId, id: { notIn: objectIds } } });
+    for (const row of snapshot.gameObjects) {
+      const { id, data } = splitRow({ ...row, containedInId: null });
+      await tx.gameObject.upsert({
+        where: { id },
+        create: { id, ...data } as Prisma.GameObjectUncheckedCreateInput,
+        update: data as Prisma.GameObjectUncheckedUpdateInput,
+      });
+    }
+    for (const row of snapshot.gameObjects.filter(o => o.containedInId)) {
+      await tx.gameObject.update({
+        where: { id: row.id },
+        data: { containedInId: row.containedInId as string },
+      });
+    }
+
+    // Characters who arrived after the save are gone (nothing they hold is left after the objects)
+    const characterIds = snapshot.characters.map(c => c.id);
+    await tx.character.deleteMany({ where: { storyId, id: { notIn: characterIds } } });
+
+    // Timed events - unlink steps from events that did not exist yet
+    const eventIds = snapshot.timedEvents.map(e => e.id);
+    await tx.puzzleStep.updateMany({
+      where: { puzzle: { storyId }, timedEventId: { notIn: eventIds } },
+      data: { timedEventId: null },
+    });
+    await tx.timedEvent.deleteMany({ where: { storyId, id: { notIn: eventIds } } });
+    for (const row of snapshot.timedEvents) {
+      const { id, data } = splitRow(row);
+      await tx.timedEvent.upsert({
+        where: { id },
+        create: { id, ...data } as Prisma.TimedEventUncheckedCreateInput,
+        update: data as Prisma.TimedEventUncheckedUpdateInput,
+      });
+    }
+
+    // Story facts - facts established after the save are forgotten
+    const factIds = snapshot.storyFacts.map(f => f.id);
+    await tx.storyFact.deleteMany({ where: { storyId, id: { notIn: factIds } } });
+    for (const row of snapshot.storyFacts) {
+      const { id, data } = splitRow(row);
+      await tx.storyFact.upsert({
+        where: { id },
+        create: { id, ...data } as Prisma.StoryFactUncheckedCreateInput,
+        update: data as Prisma.StoryFactUncheckedUpdateInput,
+      });
+    }
+
+    // Personality events - choices made after the save no longer count
+    if (snapshot.personalityEvents) {
+      const personalityEventIds = snapshot.personalityEvents.map(e => e.id);
+      await tx.personalityEvent.deleteMany({ where: { storyId, id: { notIn: personalityEventIds } } });
+      for (const row of snapshot.personalityEvents) {
+        const { id, data } = splitRow(row);
+        await tx.personalityEvent.upsert({
+          where: { id },
+          create: { id, ...data } as Prisma.PersonalityEventUncheckedCreateInput,
+          update: data as Prisma.PersonalityEventUncheckedUpdateInput,
+        });
+      }
+    }
+
+    // Rooms - rooms generated after the save become unvisited and unreachable
+    const roomIds = snapshot.rooms.map(r => r.id);
+    await tx.room.updateMany({
+      where: { storyId, id: { notIn: roomIds } },
+      data: {
+        firstVisitedAt: null,
+        visitCount: 0,
+        northRoomId: null,
+        southRoomId: null,
+        eastRoomId: null,
+        westRoomId: null,
+        upRoomId: null,
+        downRoomId: null,
+      },
+    });
+    for (const row of snapshot.rooms) {
+      const { id, data } = splitRow(row);
+      await tx.room.update({ where: { id }, data: data as Prisma.RoomUncheckedUpdateInput });
+    }
+
+    for (const row of snapshot.objectSystems || []) {
+      const { id, data } = splitRow(row);
+      await tx.objectSystem.update({ where: { id }, data: data as Prisma.ObjectSystemUncheckedUpdateInput });
+    }
+
+    for (const row of snapshot.puzzles) {
+      const { id, data } = splitRow(row);
+      await tx.puzzle.update({ where: { id }, data: data as Prisma.PuzzleUncheckedUpdateInput });
+    }
+
+    for (const row of snapshot.puzzleSteps) {
+      const { id, data } = splitRow(row);
+      await tx.puzzleStep.update({ where: { id }, data: data as Prisma.PuzzleStepUncheckedUpdateInput });
+    }
+
+    for (const row of snapshot.dilemmaPoints) {
+      const { id, data } = splitRow(row);
+      await tx.dilemmaPoint.update({ where: { id }, data: data as Prisma.DilemmaPointUncheckedUpdateInput });
+    }
+
+    for (const row of snapshot.storyBeats) {
+      const { id, data } = splitRow(row);
+      await tx.storyBeat.update({ where: { id }, data: data as Prisma.StoryBeatUncheckedUpdateInput });
+    }
+
+    if (snapshot.personalityScores) {
+      const { data } = splitRow(snapshot.personalityScores);
+      await tx.personalityScores.update({
+        where: { storyId },
+        data: data as Prisma.PersonalityScoresUncheckedUpdateInput,
+      });
+    }
+
+    if (snapshot.playerState) {
+      const { data } = splitRow(snapshot.playerState);
+      await tx.playerState.update({
+        where: { storyId },
+        data: data as Prisma.PlayerStateUncheckedUpdateInput,
+      });
+    }
+  }, {
+    timeout: 60000, // Large worlds have hundreds of rows to rewrite
+  });
+}
+
+// ============================================
+// SAVE POINTS
+// ============================================
+
+/**
+ * Save the current world state under a name on the active branch
+ * Saving again with the same name overwrites the earlier save.
+ * A snapshot already taken of the current state can be passed in to save re-reading the world.
+ */
+export async function createSavePoint(
+  storyId: string,
+  name: string,
+  options: { isAutosave?: boolean; branch?: string; snapshot?: WorldSnapshot } = {}
+): Promise<SavePoint> {
+  const playerState = await prisma.playerState.findUnique({
+    where: { storyId },
+  });
+
+  if (!playerState) {
+    throw new Error('Player state not found');
+  }
+
+  const room = await prisma.room.findUnique({
+    where: { id: playerState.currentRoomId },
+    select: { name: true },
+  });
+
+  const branch = options.branch || playerState.activeBranch;
+  const snapshot = options.snapshot || await captureWorldState(storyId);
+
+  const data = {
+    isAutosave: options.isAutosave ?? false,
+    turnCount: playerState.turnCount,
+    roomName: room?.name,
+    snapshot: snapshot as unknown as Prisma.InputJsonValue,
+  };
+
+  const savePoint = await prisma.savePoint.upsert({
+    where: { storyId_branch_name: { storyId, branch, name } },
+    create: { storyId, branch, name, ...data },
+    update: data,
+  });
+
+  logger.info('SAVE_SERVICE', `Saved "${name}" on branch "${branch}"`, {
+    storyId,
+    turnCount: playerState.turnCount,
+  });
+
+  return savePoint;
+}
+
+/**
+ * List all save points for a story, newest first
+ */
+export async function listSavePoints(storyId: string): Promise<SavePoint[]> {
+  return prisma.savePoint.findMany({
+    where: { storyId },
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Find a save point by name, preferring the active branch
+ * With no name, returns the most recent save on the active branch
+ */
+export async function findSavePoint(
+  storyId: string,
+  name?: string
+): Promise<SavePoint | null> {
+  const playerState = await prisma.playerState.findUnique({
+    where: { storyId },
+    select: { activeBranch: true },
+  });
+  const activeBranch = playerState?.activeBranch || 'main';
+
+  if (!name) {
+    return prisma.savePoint.findFirst({
+      where: { storyId, branch: activeBranch },
+      orderBy: { updatedAt: 'desc' },
+    });
+  }
+
+  const saves = await prisma.savePoint.findMany({
+    where: { storyId, name: { equals: name, mode: 'insensitive' } },
+    orderBy: { updatedAt: 'desc' },
+  });
+
+  return saves.find(s => s.branch === activeBranch) || saves[0] || null;
+}
+
+/**
+ * Restore a save point, optionally forking a new branch
+ *
+ * Forking first files the current world as an autosave on the current branch,
+ * so the abandoned timeline can be restored later.
+ */
+export async function restoreSavePoint(
+  storyId: string,
+  name?: string,
+  forkBranch?: string
+): Promise<RestoreResult | null> {
+  const savePoint = await findSavePoint(storyId, name);
+  if (!savePoint) return null;
+
+  const playerState = await prisma.playerState.findUnique({
+    where: { storyId },
+    select: { activeBranch: true },
+  });
+  const currentBranch = playerState?.activeBranch || 'main';
+
+  let forkedFrom: string | undefined;
+  if (forkBranch) {
+    await createSavePoint(storyId, `end of ${currentBranch}`, { isAutosave: true });
+    forkedFrom = currentBranch;
+  }
+
+  await applyWorldState(storyId, savePoint.snapshot as unknown as WorldSnapshot);
+
+  // Later saves go on the forked branch, or the branch the save came from
+  const branch = forkBranch || savePoint.branch;
+  await prisma.playerState.update({
+    where: { storyId },
+    data: { activeBranch: branch },
+  });
+
+  logger.info('SAVE_SERVICE', `Restored "${savePoint.name}"`, {
+    storyId,
+    fromBranch: savePoint.branch,
+    branch,
+    forkedFrom,
+  });
+
+  return { savePoint, branch, forkedFrom };
+}
+
+/**
+ * Format the save list for display, grouped by branch
+ */
+export function formatSaveList(saves: SavePoint[], activeBranch: string): string {
+  if (saves.length === 0) {
+    return 'You have no saved games. Type SAVE AS <name> to create one.';
+  }
+
+  const branches = new Map<string, SavePoint[]>();
+  for (const save of saves) {
+    const list = branches.get(save.branch) || [];
+    list.push(save);
+    branches.set(save.branch, list);
+  }
+
+  const sections: string[] = [];
+  for (const [branch, branchSaves] of branches) {
+    const header = branch === activeBranch ? `${branch} (current)` : branch;
+    const lines = branchSaves.map(s => {
+      const where = s.roomName ? ` - ${s.roomName}` : '';
+      const auto = s.isAutosave ? ' [auto]' : '';
+      return `  ${s.name}${where}, turn ${s.turnCount}${auto}`;
+    });
+    sections.push(`${header.toUpperCase()}:\n${lines.join('\n')}`);
+  }
+
+  return `SAVED GAMES:\n\n${sections.join('\n\n')}`;
+}
@@ -0,0 +1,210 @@
+/**
+ * Scoring Service
+ * Classic adventure scoring - "You have scored 85 of 350 points"
+ *
+ * Points come from a ledger on PlayerState: one entry per achievement, keyed
+ * by what earned it, so nothing is awarded twice. After each turn the world
+ * is checked for newly completed steps, puzzles and beats, critical rooms
+ * reached, secrets revealed and hidden exits found. The ledger lives on
+ * PlayerState, so UNDO and RESTORE take points back with the world.
+ */
+
+import { PrismaClient, Prisma } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export type ScoreCategory = 'step' | 'puzzle' | 'beat' | 'room' | 'secret' | 'exit';
+
+export interface ScoreEntry {
+  category: ScoreCategory;
+  sourceId: string;
+  points: number;
+  reason: string;
+}
+
+export interface ScoreBreakdown {
+  score: number;
+  maxScore: number;
+  categories: Array<{ category: ScoreCategory; label: string; points: number; count: number }>;
+}
+
+// Points per achievement
+export const POINTS: Record<ScoreCategory, number> = {
+  step: 5,
+  puzzle: 15,
+  beat: 25,
+  room: 10,
+  secret: 10,
+  exit: 5,
+};
+
+const CATEGORY_LABELS: Record<ScoreCategory, string> = {
+  step: 'Objective steps',
+  puzzle: 'Objectives completed',
+  beat: 'Story milestones',
+  room: 'Important places found',
+  secret: 'Secrets uncovered',
+  exit: 'Hidden passages found',
+};
+
+/**
+ * Read the score ledger
+ */
+export async function getLedger(storyId: string): Promise<ScoreEntry[]> {
+  const playerState = await prisma.playerState.findUnique({
+    where: { storyId },
+    select: { scoreLedger: true },
+  });
+  return (playerState?.scoreLedger as unknown as ScoreEntry[]) || [];
+}
+
+/**
+ * Everything in the world that has earned points so far
+ */
+async function findAchievements(storyId: string): Promise<ScoreEntry[]> {
+  const [steps, puzzles, beats, rooms, secrets] = await Promise.all([
+    prisma.puzzleStep.findMany({
+      where: { puzzle: { storyId }, isCompleted: true },
+      select: { id: true, description: true },
+    }),
+    prisma.puzzle.findMany({
+      where: { storyId, status: 'completed' },
+      select: { id: true, name: true },
+    }),
+    prisma.storyBeat.findMany({
+      where: { storyId, isCompleted: true },
+      select: { id: true, name: true },
+    }),
+    prisma.room.findMany({
+      where: { storyId },
+      select: { id: true, name: true, isStoryCritical: true, visitCount: true, hiddenExits: true, discoveredExits: true },
+    }),
+    prisma.storyFact.findMany({
+      where: { storyId, isSecret: true, isRevealed: true },
+      select: { id: true, content: true },
+    }),
+  ]);
+
+  const achievements: ScoreEntry[] = [
+    ...steps.map(s => ({ category: 'step' as const, sourceId: s.id, points: POINTS.step, reason: s.description })),
+    ...puzzles.map(p => ({ category: 'puzzle' as const, sourceId: p.id, points: POINTS.puzzle, reason: p.name })),
+    ...beats.map(b => ({ category: 'beat' as const, sourceId: b.id, points: POINTS.beat, reason: b.name })),
+    ...secrets.map(f => ({ category: 'secret' as const, sourceId: f.id, points: POINTS.secret, reason: f.content })),
+  ];
+
+  for (const room of rooms) {
+    if (room.isStoryCritical && room.visitCount > 0) {
+      achievements.push({ category: 'room', sourceId: room.id, points: POINTS.room, reason: room.name });
+    }
+
+    // Only exits that were actually hidden count - discoveredExits can hold others
+    const hiddenExits = (room.hiddenExits as string[]) || [];
+    for (const direction of (room.discoveredExits as string[]) || []) {
+      if (!hiddenExits.includes(direction)) continue;
+      achievements.push({
+        category: 'exit',
+        sourceId: `${room.id}:${direction}`,
+        points: POINTS.exit,
+        reason: `${direction} from ${room.name}`,
+      });
+    }
+  }
+
+  return achievements;
+}
+
+/**
+ * Award points for anything achieved since the last check
+ * Returns the new ledger entries.
+ */
+export async function awardNewPoints(storyId: string): Promise<ScoreEntry[]> {
+  const ledger = await getLedger(storyId);
+  const awarded = new Set(ledger.map(e => `${e.category}:${e.sourceId}`));
+
+  const newEntries = (await findAchievements(storyId))
+    .filter(a => !awarded.has(`${a.category}:${a.sourceId}`));
+  if (newEntries.length === 0) return [];
+
+  const points = newEntries.reduce((sum, e) => sum + e.points, 0);
+  await prisma.playerState.update({
+    where: { storyId },
+    data: {
+      score: { increment: points },
+      scoreLedger: [...ledger, ...newEntries] as unknown as Prisma.InputJsonValue,
+    },
+  });
+
+  console.log(`[Score] +${points}: ${newEntries.map(e => `${e.category} "${e.reason}"`).join(', ')}`);
+  return newEntries;
+}
+
+/**
+ * Estimate the most points the generated world can give
+ */
+export async function estimateMaxScore(storyId: string): Promise<number> {
+  const [steps, puzzles, beats, rooms, secrets] = await Promise.all([
+    prisma.puzzleStep.count({ where: { puzzle: { storyId } } }),
+    prisma.puzzle.count({ where: { storyId } }),
+    prisma.storyBeat.count({ where: { storyId } }),
+    prisma.room.findMany({ where: { storyId }, select: { isStoryCritical: true, hiddenExits: true } }),
+    prisma.storyFact.count({ where: { storyId, isSecret: true } }),
+  ]);
+
+  const criticalRooms = rooms.filter(r => r.isStoryCritical).length;
+  const hiddenExits = rooms.reduce((sum, r) => sum + ((r.hiddenExits as string[]) || []).length, 0);
+
+  return steps * POINTS.step +
+    puzzles * POINTS.puzzle +
+    beats * POINTS.beat +
+    criticalRooms * POINTS.room +
+    secrets * POINTS.secret +
+    hiddenExits * POINTS.exit;
+}
+
+/**
+ * Get the score broken down by category
+ */
+export async function getScoreBreakdown(storyId: string): Promise<ScoreBreakdown> {
+  const [ledger, maxScore] = await Promise.all([getLedger(storyId), estimateMaxScore(storyId)]);
+  const score = ledger.reduce((sum, e) => sum + e.points, 0);
+
+  const categories = (Object.keys(CATEGORY_LABELS) as ScoreCategory[])
+    .map(category => {
+      const entries = ledger.filter(e => e.category === category);
+      return {
+        category,
+        label: CATEGORY_LABELS[category],
+        points: entries.reduce((sum, e) => sum + e.points, 0),
+        count: entries.length,
+      };
+    })
+    .filter(c => c.count > 0);
+
+  // Secrets and exits found mid-game can push past the starting estimate
+  return { score, maxScore: Math.max(score, maxScore), categories };
+}
+
+/**
+ * Format the SCORE command's response
+ */
+export function formatScore(breakdown: ScoreBreakdown): string {
+  const lines = [`You have scored ${breakdown.score} of ${breakdown.maxScore} points.`];
+
+  if (breakdown.categories.length > 0) {
+    lines.push('');
+    for (const c of breakdown.categories) {
+      lines.push(`  ${c.label}: ${c.points} (${c.count})`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Announce points just earned, Infocom style
+ */
+export function formatAward(entries: ScoreEntry[]): string | null {
+  const points = entries.reduce((sum, e) => sum + e.points, 0);
+  if (points === 0) return null;
+  return `[Your score has gone up by ${points} point${points === 1 ? '' : 's'}.]`;
+}
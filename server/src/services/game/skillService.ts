@@ -1,5 +1,6 @@
 import { PrismaClient, PlayerAbility } from '@prisma/client';
 import { Decimal } from '@prisma/client/runtime/library';
+import * as conditionService from './conditionService';
 
 const prisma = new PrismaClient();
 
@@ -94,6 +95,8 @@ export interface SkillCheckResult {
   isNat20: boolean;
   isNat1: boolean;
   skillGain: number;
+  conditionModifier: number;   // From wounds, hunger, fatigue and status effects
+  conditionApplied?: string;   // Condition a critical failure left the player with
   diceAscii: string;
   personalitySignal?: {
     dimension: string;
@@ -188,9 +191,10 @@ export async function performSkillCheck(
   const rawLevel = Number(ability.level);
   const abilityLevel = Math.floor(rawLevel); // Use whole number for rolls
 
-  // Roll the dice
+  // Roll the dice - the player's condition weighs on every attempt
+  const conditionModifier = await conditionService.getSkillModifier(storyId, ability.name);
   const roll = rollD20();
-  const total = roll + abilityLevel;
+  const total = roll + abilityLevel + conditionModifier;
   const success = total >= difficulty;
   const margin = total - difficulty;
 
@@ -232,6 +236,13 @@ export async function performSkillCheck(
     },
   });
 
+  // A critical failure leaves a mark (a fall sprains an ankle)
+  let conditionApplied: string | undefined;
+  if (isNat1) {
+    const condition = await conditionService.applyCriticalFailure(storyId, ability.name);
+    conditionApplied = condition?.name;
+  }
+
   // Generate personality signal based on risk-taking
   let personalitySignal: SkillCheckResult['personalitySignal'];
 
@@ -266,6 +277,8 @@ export async function performSkillCheck(
     isNat20,
     isNat1,
     skillGain,
+    conditionModifier,
+    conditionApplied,
     diceAscii: renderD20(roll),
     personalitySignal,
   };
@@ -433,7 +446,10 @@ export function formatSkillCheckResult(result: SkillCheckResult): string {
   lines.push(`--- SKILL CHECK: ${result.abilityName.toUpperCase()} ---`);
   lines.push(result.diceAscii);
   lines.push('');
-  lines.push(`Roll: ${result.roll} + ${result.abilityLevel} skill = ${result.total}`);
+  const conditionNote = result.conditionModifier !== 0
+    ? ` ${result.conditionModifier < 0 ? '-' : '+'} ${Math.abs(result.conditionModifier)} condition`
+    : '';
+  lines.push(`Roll: ${result.roll} + ${result.abilityLevel} skill${conditionNote} = ${result.total}`);
   lines.push(`Difficulty: ${result.difficulty}`);
   lines.push('');
 
@@ -451,6 +467,10 @@ export function formatSkillCheckResult(result: SkillCheckResult): string {
     lines.push(`Skill improved by +${result.skillGain.toFixed(2)}`);
   }
 
+  if (result.conditionApplied) {
+    lines.push(`You are now ${result.conditionApplied}.`);
+  }
+
   lines.push('-----------------------------------');
 
   return lines.join('\n');
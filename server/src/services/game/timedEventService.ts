@@ -8,7 +8,8 @@ export interface ProgressNarrative {
 }
 
 export interface EventConsequence {
-  type: 'game_over' | 'damage' | 'room_change' | 'item_lost' | 'character_action' | 'story_branch' | 'custom';
+  type: 'game_over' | 'damage' | 'room_change' | 'item_lost' | 'exit_change' | 'character_action'
+    | 'system_change' | 'story_branch' | 'custom';
   data?: Record<string, unknown>;
 }
 
@@ -23,6 +24,7 @@ export interface CreateTimedEventInput {
   consequence: EventConsequence;
   canBePrevented?: boolean;
   preventionHint?: string;
+  preventedByStepId?: string; // Completing this puzzle step stops the event
 }
 
 export interface TickResult {
@@ -49,6 +51,7 @@ export async function createTimedEvent(input: CreateTimedEventInput): Promise<Ti
       consequence: input.consequence as unknown as object,
       canBePrevented: input.canBePrevented ?? true,
       preventionHint: input.preventionHint,
+      puzzleSteps: input.preventedByStepId ? { connect: { id: input.preventedByStepId } } : undefined,
     },
   });
 }
@@ -153,6 +156,38 @@ export async function cancelEvent(eventId: string): Promise<TimedEvent> {
   });
 }
 
+/**
+ * Find active events the player has stopped by completing a linked puzzle step
+ */
+export async function getEventsResolvedBySteps(storyId: string, roomId?: string): Promise<TimedEvent[]> {
+  const events = await getActiveEvents(storyId, roomId);
+  const preventable = events.filter(e => e.canBePrevented);
+  if (preventable.length === 0) return [];
+
+  const completedLinks = await prisma.puzzleStep.findMany({
+    where: { timedEventId: { in: preventable.map(e => e.id) }, isCompleted: true },
+    select: { timedEventId: true },
+  });
+  const resolvedIds = new Set(completedLinks.map(s => s.timedEventId));
+
+  return preventable.filter(e => resolvedIds.has(e.id));
+}
+
+/**
+ * Format the narration for a stopped or stalled event
+ */
+export function formatPrevention(
+  event: TimedEvent,
+  outcome: 'prevented' | 'delayed',
+  narrative?: string,
+  extraTurns?: number
+): string {
+  const tag = outcome === 'prevented'
+    ? `[Averted: ${event.name}]`
+    : `[${event.name}: delayed by ${extraTurns} turn${extraTurns === 1 ? '' : 's'}]`;
+  return narrative ? `${narrative}\n${tag}` : tag;
+}
+
 /**
  * Cancel an event by name
  */
@@ -172,6 +207,7 @@ export async function cancelEventByName(storyId: string, name: string): Promise<
 
 /**
  * Extend an event's countdown
+ * An event can only be stalled once.
  */
 export async function extendEvent(eventId: string, additionalTurns: number): Promise<TimedEvent> {
   const event = await prisma.timedEvent.findUnique({
@@ -187,6 +223,7 @@ export async function extendEvent(eventId: string, additionalTurns: number): Pro
     data: {
       turnsRemaining: event.turnsRemaining + additionalTurns,
       totalTurns: event.totalTurns + additionalTurns,
+      isDelayed: true,
     },
   });
 }
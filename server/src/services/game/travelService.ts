@@ -0,0 +1,143 @@
+/**
+ * Travel Service
+ * Finds routes for GO TO / RETURN TO across rooms the player has already visited
+ *
+ * Routes only use exits the player can see (hidden exits count once discovered)
+ * and never pass through locked doors. Closed doors are fine - GO opens them.
+ */
+
+import { PrismaClient, Room } from '@prisma/client';
+import * as roomService from './roomService';
+
+const prisma = new PrismaClient();
+
+export interface Route {
+  destination: { id: string; name: string };
+  directions: roomService.Direction[];
+}
+
+export interface RouteResult {
+  route?: Route;
+  error?: string; // Why no route could be found, phrased for the player
+}
+
+/**
+ * Check whether the player has been in a room
+ */
+function isVisited(room: Room, currentRoomId: string): boolean {
+  return room.visitCount > 0 || room.firstVisitedAt !== null || room.id === currentRoomId;
+}
+
+/**
+ * Pick the visited room a player means by name
+ * An exact name beats a partial one ("kitchen" vs "kitchen garden").
+ */
+function matchDestination(rooms: Room[], destinationName: string): Room[] {
+  const nameLower = destinationName.toLowerCase().replace(/^the\s+/, '').trim();
+
+  const exact = rooms.filter(r => r.name.toLowerCase() === nameLower ||
+    r.name.toLowerCase() === `the ${nameLower}`);
+  if (exact.length > 0) return exact;
+
+  return rooms.filter(r => r.name.toLowerCase().includes(nameLower));
+}
+
+/**
+ * Find the shortest route from one room to a visited room, by name
+ */
+export async function findRoute(
+  storyId: string,
+  fromRoomId: string,
+  destinationName: string
+): Promise<RouteResult> {
+  const allRooms = await prisma.room.findMany({ where: { storyId } });
+  const rooms = allRooms.filter(r => isVisited(r, fromRoomId) && !r.isVehicle);
+
+  const matches = matchDestination(rooms, destinationName);
+  if (matches.length === 0) {
+    return { error: `You don't know of anywhere called "${destinationName}" that you've been.` };
+  }
+  if (matches.length > 1) {
+    return { error: `Which do you mean: ${matches.map(r => `the ${r.name}`).join(' or ')}?` };
+  }
+
+  const destination = matches[0];
+  if (destination.id === fromRoomId) {
+    return { error: `You're already in the ${destination.name}.` };
+  }
+
+  const directions = shortestPath(rooms, await getBlockedExits(storyId), fromRoomId, destination.id);
+  if (!directions) {
+    return { error: `You can't find a way to the ${destination.name} from here.` };
+  }
+
+  return {
+    route: {
+      destination: { id: destination.id, name: destination.name },
+      directions,
+    },
+  };
+}
+
+/**
+ * Get the exits closed off by locked doors, as "roomId:direction" keys
+ * Locked doors block both sides of the exit they stand in - check the far side too.
+ */
+export async function getBlockedExits(storyId: string): Promise<Set<string>> {
+  const lockedDoors = await prisma.gameObject.findMany({
+    where: { storyId, isLocked: true, blocksExit: { not: null } },
+    select: { roomId: true, blocksExit: true },
+  });
+  return new Set(lockedDoors.map(d => `${d.roomId}:${d.blocksExit}`));
+}
+
+/**
+ * Breadth-first search for the directions from one room to another
+ * Only passes through the rooms given. Hidden exits count once discovered,
+ * unless includeHidden is set (NPCs know their own way around).
+ */
+export function shortestPath(
+  rooms: Room[],
+  blocked: Set<string>,
+  fromRoomId: string,
+  toRoomId: string,
+  includeHidden: boolean = false
+): roomService.Direction[] | null {
+  const roomsById = new Map(rooms.map(r => [r.id, r]));
+
+  // Remember how each room was reached
+  const cameFrom = new Map<string, { roomId: string; direction: roomService.Direction }>();
+  const queue = [fromRoomId];
+  const seen = new Set([fromRoomId]);
+
+  while (queue.length > 0) {
+    const roomId = queue.shift()!;
+    if (roomId === toRoomId) break;
+
+    const room = roomsById.get(roomId);
+    if (!room) continue;
+
+    const exits = includeHidden ? roomService.getExits(room) : roomService.getVisibleExits(room);
+    for (const exit of exits) {
+      const nextId = exit.roomId;
+      if (!nextId || seen.has(nextId) || !roomsById.has(nextId)) continue;
+
+      const opposite = roomService.getOppositeDirection(exit.direction);
+      if (blocked.has(`${roomId}:${exit.direction}`) || blocked.has(`${nextId}:${opposite}`)) continue;
+
+      seen.add(nextId);
+      cameFrom.set(nextId, { roomId, direction: exit.direction });
+      queue.push(nextId);
+    }
+  }
+
+  if (!cameFrom.has(toRoomId)) {
+    return null;
+  }
+
+  const directions: roomService.Direction[] = [];
+  for (let step = cameFrom.get(toRoomId); step; step = cameFrom.get(step.roomId)) {
+    directions.unshift(step.direction);
+  }
+  return directions;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { isMetaCommand, parseCommand, splitCommands } from '../src/services/game/commandParser';
+
+describe('parseCommand', () => {
+  it('reads directions and their abbreviations', () => {
+    expect(parseCommand('go north')).toMatchObject({ type: 'GO', target: 'north' });
+    expect(parseCommand('n')).toMatchObject({ type: 'GO' });
+  });
+
+  it('lowercases the target and keeps the raw input', () => {
+    expect(parseCommand('  take Brass Lamp ')).toMatchObject({
+      type: 'TAKE',
+      target: 'brass lamp',
+      rawInput: 'take Brass Lamp',
+    });
+  });
+
+  it('normalizes put prepositions to in or on', () => {
+    expect(parseCommand('put coin into box')).toMatchObject({ type: 'PUT', target: 'coin', modifier: 'box', preposition: 'in' });
+    expect(parseCommand('put book onto shelf')).toMatchObject({ type: 'PUT', target: 'book', modifier: 'shelf', preposition: 'on' });
+  });
+
+  it('reads save names', () => {
+    expect(parseCommand('save as before the bridge')).toMatchObject({ type: 'SAVE', target: 'before the bridge' });
+    expect(parseCommand('save')).toMatchObject({ type: 'SAVE', target: undefined });
+  });
+
+  it('splits SAY into words and addressee', () => {
+    expect(parseCommand('say hello to the guard')).toMatchObject({ type: 'SAY', modifier: 'hello', target: 'guard' });
+    expect(parseCommand('"hello there"')).toMatchObject({ type: 'SAY', modifier: 'hello there' });
+  });
+
+  it('leaves anything else to the AI', () => {
+    expect(parseCommand('ponder the meaning of life')).toMatchObject({ type: 'UNKNOWN' });
+  });
+});
+
+describe('isMetaCommand', () => {
+  it('treats save, restore, undo and again as meta commands', () => {
+    for (const input of ['save', 'restore', 'undo', 'again']) {
+      expect(isMetaCommand(parseCommand(input))).toBe(true);
+    }
+    expect(isMetaCommand(parseCommand('take lamp'))).toBe(false);
+  });
+});
+
+describe('splitCommands', () => {
+  it('splits on periods, semicolons and "then"', () => {
+    expect(splitCommands('open chest. take key, then n')).toEqual(['open chest', 'take key', 'n']);
+    expect(splitCommands('look; inventory')).toEqual(['look', 'inventory']);
+  });
+
+  it('only splits on "and" or commas when a command follows', () => {
+    expect(splitCommands('take salt and pepper')).toEqual(['take salt and pepper']);
+    expect(splitCommands('take lamp and go north')).toEqual(['take lamp', 'go north']);
+    expect(splitCommands('take the red, green and blue gems')).toEqual(['take the red, green and blue gems']);
+  });
+
+  it('keeps decimal numbers whole', () => {
+    expect(splitCommands('turn dial to 3.5')).toEqual(['turn dial to 3.5']);
+  });
+
+  it('keeps speech whole', () => {
+    expect(splitCommands('say stop. then run')).toEqual(['say stop. then run']);
+    expect(splitCommands('"wait, and listen."')).toEqual(['"wait, and listen."']);
+  });
+
+  it('drops empty clauses and dangling conjunctions', () => {
+    expect(splitCommands('n.. ; s and')).toEqual(['n', 's']);
+    expect(splitCommands('  ')).toEqual([]);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { GameObject } from '@prisma/client';
+import { db } from './prisma';
+import {
+  getSkillModifier,
+  isConsumable,
+  isUsedUp,
+  tickConditions,
+  type PlayerCondition,
+} from '../src/services/game/conditionService';
+
+const STORY_ID = 'story-1';
+
+function setPlayer(fields: { health?: number; hunger?: number; fatigue?: number; conditions?: PlayerCondition[] }) {
+  db.playerState.findUnique.mockResolvedValue({
+    health: 10,
+    maxHealth: 10,
+    hunger: 0,
+    fatigue: 0,
+    conditions: [],
+    ...fields,
+  });
+}
+
+function written() {
+  return db.playerState.update.mock.calls[0][0].data;
+}
+
+describe('tickConditions', () => {
+  it('adds a point of hunger and fatigue each turn', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.99);
+    setPlayer({ hunger: 10, fatigue: 20 });
+
+    const result = await tickConditions(STORY_ID);
+
+    expect(written()).toMatchObject({ hunger: 11, fatigue: 21, health: 10 });
+    expect(result).toEqual({ narrative: null, collapsed: false });
+  });
+
+  it('lets fatigue drop while resting, never below zero', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.99);
+    setPlayer({ fatigue: 4 });
+
+    await tickConditions(STORY_ID, { resting: true });
+
+    expect(written()).toMatchObject({ fatigue: 0 });
+  });
+
+  it('says so when hunger or fatigue crosses a threshold', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.99);
+    setPlayer({ hunger: 49, fatigue: 59 });
+
+    const { narrative } = await tickConditions(STORY_ID);
+
+    expect(narrative).toBe('Your stomach growls.\nYou are getting tired.');
+  });
+
+  it('wears conditions off and takes health for those that harm', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.99);
+    setPlayer({
+      conditions: [
+        { name: 'soaked', modifier: -1, turnsRemaining: 1 },
+        { name: 'poisoned', modifier: -2, turnsRemaining: null, healthPerTurn: 1 },
+      ],
+    });
+
+    const { narrative } = await tickConditions(STORY_ID);
+
+    expect(written()).toMatchObject({
+      health: 9,
+      conditions: [{ name: 'poisoned', modifier: -2, turnsRemaining: null, healthPerTurn: 1 }],
+    });
+    expect(narrative).toContain('You are no longer soaked.');
+    expect(narrative).toContain('(Health: 9/10)');
+  });
+
+  it('heals a wounded player now and then, but never from zero', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    setPlayer({ health: 5 });
+    await tickConditions(STORY_ID);
+    expect(written()).toMatchObject({ health: 6 });
+
+    db.playerState.update.mockClear();
+    setPlayer({ health: 0 });
+    const result = await tickConditions(STORY_ID);
+    expect(written()).toMatchObject({ health: 0 });
+    expect(result.collapsed).toBe(true);
+  });
+
+  it('collapses the player when a condition takes the last of their health', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.99);
+    setPlayer({ health: 1, conditions: [{ name: 'bleeding', modifier: -1, turnsRemaining: 5, healthPerTurn: 1 }] });
+
+    const { narrative, collapsed } = await tickConditions(STORY_ID);
+
+    expect(collapsed).toBe(true);
+    expect(narrative).toContain('Your strength gives out and you collapse.');
+  });
+});
+
+describe('getSkillModifier', () => {
+  it('adds up conditions that apply to the ability, plus hunger, fatigue and wounds', async () => {
+    setPlayer({
+      health: 2,
+      hunger: 50,
+      fatigue: 85,
+      conditions: [
+        { name: 'sprained ankle', modifier: -3, turnsRemaining: 30, affects: ['Athletics'] },
+        { name: 'shaken', modifier: -1, turnsRemaining: 5 },
+      ],
+    });
+
+    expect(await getSkillModifier(STORY_ID, 'athletics')).toBe(-3 - 1 - 2 - 1 - 2);
+    expect(await getSkillModifier(STORY_ID, 'Persuasion')).toBe(-1 - 2 - 1 - 2);
+  });
+});
+
+describe('eating and drinking', () => {
+  function object(fields: Partial<GameObject>): GameObject {
+    return { name: '', description: null, isTakeable: true, isContainer: false, ...fields } as GameObject;
+  }
+
+  it('reads what can be eaten or drunk from the wording', () => {
+    expect(isConsumable(object({ name: 'stale bread' }), 'eat')).toBe(true);
+    expect(isConsumable(object({ name: 'leather flask', description: 'Sloshing with water.' }), 'drink')).toBe(true);
+    expect(isConsumable(object({ name: 'iron key' }), 'eat')).toBe(false);
+  });
+
+  it('uses up food and drinks, but not fixtures or vessels', () => {
+    expect(isUsedUp(object({ name: 'apple' }), 'eat')).toBe(true);
+    expect(isUsedUp(object({ name: 'potion' }), 'drink')).toBe(true);
+    expect(isUsedUp(object({ name: 'canteen' }), 'drink')).toBe(false);
+    expect(isUsedUp(object({ name: 'fountain', isTakeable: false }), 'drink')).toBe(false);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import type { Character } from '@prisma/client';
+import { planTurn } from '../src/services/game/npcService';
+
+function character(fields: Partial<Character>): Character {
+  return {
+    currentRoomId: 'hall',
+    homeRoomId: 'hall',
+    schedule: [],
+    scheduleIndex: 0,
+    turnsAtStop: 0,
+    ...fields,
+  } as Character;
+}
+
+const schedule = [
+  { roomId: 'kitchen', turns: 2 },
+  { roomId: 'garden', turns: 1 },
+];
+
+describe('planTurn', () => {
+  it('keeps a character without a schedule at home', () => {
+    expect(planTurn(character({}))).toEqual({ targetRoomId: null, scheduleIndex: 0, turnsAtStop: 1 });
+  });
+
+  it('walks a character drawn away back home', () => {
+    expect(planTurn(character({ currentRoomId: 'cellar' }))).toMatchObject({ targetRoomId: 'hall' });
+  });
+
+  it('stays put with no home and no schedule', () => {
+    expect(planTurn(character({ homeRoomId: null }))).toEqual({ targetRoomId: null, scheduleIndex: 0, turnsAtStop: 0 });
+  });
+
+  it('heads for the current stop until it gets there', () => {
+    expect(planTurn(character({ schedule }))).toEqual({ targetRoomId: 'kitchen', scheduleIndex: 0, turnsAtStop: 0 });
+  });
+
+  it('lingers at a stop for its turns, then sets off for the next', () => {
+    const arrived = character({ schedule, currentRoomId: 'kitchen' });
+    expect(planTurn(arrived)).toEqual({ targetRoomId: null, scheduleIndex: 0, turnsAtStop: 1 });
+    expect(planTurn({ ...arrived, turnsAtStop: 1 })).toEqual({ targetRoomId: 'garden', scheduleIndex: 1, turnsAtStop: 0 });
+  });
+
+  it('loops back to the first stop', () => {
+    const atLast = character({ schedule, currentRoomId: 'garden', scheduleIndex: 1 });
+    expect(planTurn(atLast)).toEqual({ targetRoomId: 'kitchen', scheduleIndex: 0, turnsAtStop: 0 });
+  });
+
+  it('wraps an index past the end of a shortened schedule', () => {
+    expect(planTurn(character({ schedule, scheduleIndex: 3 }))).toMatchObject({ targetRoomId: 'garden', scheduleIndex: 1 });
+  });
+});
@@ -0,0 +1,20 @@
+/**
+ * In-memory stand-in for PrismaClient
+ * Every service's `new PrismaClient()` gets this same object, so a test can
+ * script what a query returns (db.playerState.findUnique.mockResolvedValue(...))
+ * and check what was written. Models and operations are created on first use.
+ */
+
+import { vi, type Mock } from 'vitest';
+
+type Model = Record<string, Mock>;
+
+function createModel(): Model {
+  return new Proxy({} as Model, {
+    get: (operations, name: string) => (operations[name] ??= vi.fn()),
+  });
+}
+
+export const db = new Proxy({} as Record<string, Model>, {
+  get: (models, name: string) => (models[name] ??= createModel()),
+});
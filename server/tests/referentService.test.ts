@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { db } from './prisma';
+import { parseCommand } from '../src/services/game/commandParser';
+import { resolvePronouns, type LastReferents } from '../src/services/game/referentService';
+
+const STORY_ID = 'story-1';
+
+function rememberReferents(lastReferents: LastReferents) {
+  db.playerState.findUnique.mockResolvedValue({ lastReferents });
+}
+
+describe('resolvePronouns', () => {
+  it('leaves commands without pronouns alone', async () => {
+    const command = parseCommand('take lamp');
+
+    expect(await resolvePronouns(STORY_ID, command)).toEqual({ commands: [command] });
+    expect(db.playerState.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('resolves "it" to the most salient object', async () => {
+    rememberReferents({ objects: [{ name: 'brass lamp' }, { name: 'rope' }], character: null });
+
+    const { commands } = await resolvePronouns(STORY_ID, parseCommand('take it'));
+
+    expect(commands).toHaveLength(1);
+    expect(commands[0]).toMatchObject({ type: 'TAKE', target: 'brass lamp', rawInput: 'take brass lamp' });
+  });
+
+  it('expands "them" over a group of objects into one command each', async () => {
+    rememberReferents({ objects: [{ name: 'Red Gem' }, { name: 'Blue Gem' }], character: null });
+
+    const { commands } = await resolvePronouns(STORY_ID, parseCommand('take them'));
+
+    expect(commands.map(c => c.target)).toEqual(['red gem', 'blue gem']);
+  });
+
+  it('resolves "him" and "her" to the last character', async () => {
+    rememberReferents({ objects: [], character: { name: 'Marcus Webb' } });
+
+    const { commands } = await resolvePronouns(STORY_ID, parseCommand('talk to her'));
+
+    expect(commands[0]).toMatchObject({ type: 'TALK', target: 'marcus webb' });
+  });
+
+  it('reads "them" as a person when the command needs one', async () => {
+    rememberReferents({ objects: [{ name: 'coin' }], character: { name: 'Ada' } });
+
+    const { commands } = await resolvePronouns(STORY_ID, parseCommand('talk to them'));
+
+    expect(commands[0]).toMatchObject({ target: 'ada' });
+  });
+
+  it('resolves pronouns in the modifier too', async () => {
+    rememberReferents({ objects: [{ name: 'letter' }], character: { name: 'Ada' } });
+
+    const { commands } = await resolvePronouns(STORY_ID, parseCommand('give it to him'));
+
+    expect(commands[0]).toMatchObject({ type: 'GIVE', target: 'letter', modifier: 'ada', rawInput: 'give letter to Ada' });
+  });
+
+  it('reports a pronoun with nothing to stand for', async () => {
+    rememberReferents({ objects: [], character: null });
+
+    expect(await resolvePronouns(STORY_ID, parseCommand('examine it'))).toEqual({ commands: [], unresolved: 'it' });
+  });
+});
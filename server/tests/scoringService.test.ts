@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { db } from './prisma';
+import {
+  POINTS,
+  awardNewPoints,
+  formatAward,
+  formatScore,
+  getScoreBreakdown,
+  type ScoreEntry,
+} from '../src/services/game/scoringService';
+
+const STORY_ID = 'story-1';
+
+function setWorld(world: {
+  ledger?: ScoreEntry[];
+  steps?: Array<{ id: string; description: string }>;
+  rooms?: Array<Record<string, unknown>>;
+}) {
+  db.playerState.findUnique.mockResolvedValue({ scoreLedger: world.ledger || [] });
+  db.puzzleStep.findMany.mockResolvedValue(world.steps || []);
+  db.puzzle.findMany.mockResolvedValue([]);
+  db.storyBeat.findMany.mockResolvedValue([]);
+  db.room.findMany.mockResolvedValue(world.rooms || []);
+  db.storyFact.findMany.mockResolvedValue([]);
+}
+
+describe('awardNewPoints', () => {
+  it('awards each achievement once', async () => {
+    setWorld({
+      ledger: [{ category: 'step', sourceId: 's1', points: POINTS.step, reason: 'Find the key' }],
+      steps: [{ id: 's1', description: 'Find the key' }, { id: 's2', description: 'Open the door' }],
+    });
+
+    const entries = await awardNewPoints(STORY_ID);
+
+    expect(entries).toEqual([{ category: 'step', sourceId: 's2', points: POINTS.step, reason: 'Open the door' }]);
+    expect(db.playerState.update).toHaveBeenCalledWith({
+      where: { storyId: STORY_ID },
+      data: expect.objectContaining({ score: { increment: POINTS.step } }),
+    });
+  });
+
+  it('counts critical rooms once visited, and only exits that were hidden', async () => {
+    setWorld({
+      rooms: [
+        { id: 'r1', name: 'Vault', isStoryCritical: true, visitCount: 1, hiddenExits: ['down'], discoveredExits: ['down', 'north'] },
+        { id: 'r2', name: 'Tower', isStoryCritical: true, visitCount: 0, hiddenExits: [], discoveredExits: [] },
+      ],
+    });
+
+    const entries = await awardNewPoints(STORY_ID);
+
+    expect(entries.map(e => `${e.category}:${e.sourceId}`)).toEqual(['room:r1', 'exit:r1:down']);
+  });
+
+  it('writes nothing when nothing new was achieved', async () => {
+    setWorld({});
+
+    expect(await awardNewPoints(STORY_ID)).toEqual([]);
+    expect(db.playerState.update).not.toHaveBeenCalled();
+  });
+});
+
+describe('getScoreBreakdown', () => {
+  it('totals the ledger by category against the estimated maximum', async () => {
+    db.playerState.findUnique.mockResolvedValue({
+      scoreLedger: [
+        { category: 'step', sourceId: 's1', points: 5, reason: '' },
+        { category: 'step', sourceId: 's2', points: 5, reason: '' },
+        { category: 'beat', sourceId: 'b1', points: 25, reason: '' },
+      ],
+    });
+    db.puzzleStep.count.mockResolvedValue(4);
+    db.puzzle.count.mockResolvedValue(1);
+    db.storyBeat.count.mockResolvedValue(2);
+    db.room.findMany.mockResolvedValue([{ isStoryCritical: true, hiddenExits: ['up'] }]);
+    db.storyFact.count.mockResolvedValue(0);
+
+    const breakdown = await getScoreBreakdown(STORY_ID);
+
+    expect(breakdown.score).toBe(35);
+    expect(breakdown.maxScore).toBe(4 * POINTS.step + POINTS.puzzle + 2 * POINTS.beat + POINTS.room + POINTS.exit);
+    expect(breakdown.categories).toEqual([
+      { category: 'step', label: 'Objective steps', points: 10, count: 2 },
+      { category: 'beat', label: 'Story milestones', points: 25, count: 1 },
+    ]);
+  });
+
+  it('never reports a maximum below the score', async () => {
+    db.playerState.findUnique.mockResolvedValue({
+      scoreLedger: [{ category: 'secret', sourceId: 'f1', points: 10, reason: '' }],
+    });
+    db.puzzleStep.count.mockResolvedValue(0);
+    db.puzzle.count.mockResolvedValue(0);
+    db.storyBeat.count.mockResolvedValue(0);
+    db.room.findMany.mockResolvedValue([]);
+    db.storyFact.count.mockResolvedValue(0);
+
+    expect((await getScoreBreakdown(STORY_ID)).maxScore).toBe(10);
+  });
+});
+
+describe('formatting', () => {
+  it('announces points just earned', () => {
+    expect(formatAward([])).toBeNull();
+    expect(formatAward([{ category: 'exit', sourceId: 'x', points: 1, reason: '' }])).toBe('[Your score has gone up by 1 point.]');
+    expect(formatAward([
+      { category: 'step', sourceId: 'a', points: 5, reason: '' },
+      { category: 'room', sourceId: 'b', points: 10, reason: '' },
+    ])).toBe('[Your score has gone up by 15 points.]');
+  });
+
+  it('formats the SCORE response', () => {
+    expect(formatScore({ score: 0, maxScore: 100, categories: [] })).toBe('You have scored 0 of 100 points.');
+    expect(formatScore({
+      score: 25,
+      maxScore: 100,
+      categories: [{ category: 'beat', label: 'Story milestones', points: 25, count: 1 }],
+    })).toBe('You have scored 25 of 100 points.\n\n  Story milestones: 25 (1)');
+  });
+});
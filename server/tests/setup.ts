@@ -0,0 +1,19 @@
+import { afterEach, vi } from 'vitest';
+import { db } from './prisma';
+
+// Services talk to the in-memory client, never a database
+vi.mock('@prisma/client', async (importOriginal) => {
+  return {
+    ...await importOriginal<typeof import('@prisma/client')>(),
+    PrismaClient: class {
+      constructor() {
+        return db;
+      }
+    },
+  };
+});
+
+afterEach(() => {
+  vi.resetAllMocks();
+  vi.restoreAllMocks();
+});
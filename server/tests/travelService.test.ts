@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import type { Room } from '@prisma/client';
+import { shortestPath } from '../src/services/game/travelService';
+
+function room(id: string, exits: Partial<Room> = {}): Room {
+  return {
+    id,
+    northRoomId: null,
+    southRoomId: null,
+    eastRoomId: null,
+    westRoomId: null,
+    upRoomId: null,
+    downRoomId: null,
+    hiddenExits: [],
+    discoveredExits: [],
+    ...exits,
+  } as Room;
+}
+
+// hall - library - study, with a hidden stair from the hall down to the cellar
+//  |                 |
+// garden ---------- cellar
+const rooms = [
+  room('hall', { eastRoomId: 'library', southRoomId: 'garden', downRoomId: 'cellar', hiddenExits: ['down'] }),
+  room('library', { westRoomId: 'hall', eastRoomId: 'study' }),
+  room('study', { westRoomId: 'library', southRoomId: 'cellar' }),
+  room('garden', { northRoomId: 'hall', eastRoomId: 'cellar' }),
+  room('cellar', { westRoomId: 'garden', northRoomId: 'study', upRoomId: 'hall' }),
+];
+
+describe('shortestPath', () => {
+  it('finds the fewest steps between two rooms', () => {
+    expect(shortestPath(rooms, new Set(), 'hall', 'study')).toEqual(['east', 'east']);
+  });
+
+  it('only uses hidden exits once discovered, unless told to', () => {
+    expect(shortestPath(rooms, new Set(), 'hall', 'cellar')).toEqual(['south', 'east']);
+    expect(shortestPath(rooms, new Set(), 'hall', 'cellar', true)).toEqual(['down']);
+
+    const discovered = rooms.map(r => (r.id === 'hall' ? { ...r, discoveredExits: ['down'] } : r));
+    expect(shortestPath(discovered, new Set(), 'hall', 'cellar')).toEqual(['down']);
+  });
+
+  it('goes around locked doors, from either side', () => {
+    expect(shortestPath(rooms, new Set(['hall:south']), 'hall', 'cellar')).toEqual(['east', 'east', 'south']);
+    expect(shortestPath(rooms, new Set(['garden:north']), 'hall', 'cellar')).toEqual(['east', 'east', 'south']);
+  });
+
+  it('only passes through the rooms given', () => {
+    const withoutGarden = rooms.filter(r => r.id !== 'garden');
+    expect(shortestPath(withoutGarden, new Set(), 'hall', 'cellar')).toEqual(['east', 'east', 'south']);
+  });
+
+  it('returns null when there is no way through', () => {
+    expect(shortestPath(rooms, new Set(['hall:south', 'hall:east']), 'hall', 'cellar')).toBeNull();
+  });
+});